@@ -0,0 +1,331 @@
+#!/usr/bin/env node
+// Command-line inspector: parses files with the same rules as the app and prints what was
+// detected, or converts a file between CSV and TSV.
+import { createReadStream } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import computeStats from "../src/utils/computeStats";
+import exportSequence from "../src/utils/exportSequence";
+import formatNumber from "../src/utils/formatNumber";
+import {
+  createSequenceParser,
+  type DecimalSeparator,
+  type InputFormat,
+  type InputLayout,
+  type ParseOptions,
+  type SequenceData,
+  type XFormat,
+} from "../src/utils/parseDataText";
+import { ParseError } from "../src/utils/parseDiagnostics";
+import { isAscending } from "../src/utils/plotlyAxis";
+import type { Delimiter } from "../src/utils/tokenizeDelimitedText";
+
+const usage = `Usage: inspect [options] <file...>
+       inspect --convert csv|tsv [--out <file>] [options] <file>
+
+Parses each file like the viewer does and prints its header, X axis, row count and
+series statistics. Exits with 1 when a file fails to parse, 2 on bad arguments.
+
+Output:
+  --json                   Print the summaries as JSON
+  --convert <csv|tsv>      Write the parsed file as CSV or TSV instead
+  --out <file>             Where --convert writes (default: standard output)
+
+Parsing:
+  --format <auto|delimited|json|ndjson>
+  --delimiter <comma|tab|semicolon|pipe>
+  --header <auto|yes|no>
+  --skip-lines <n>         Ignore the first n lines
+  --comment <prefix>       Ignore lines starting with prefix
+  --x-column <n|index>     1-based column of X, or "index" for the row number
+  --y-columns <n,n,...>    1-based columns of the series
+  --x-format <auto|number|iso|epochSeconds|epochMillis|pattern>
+  --x-pattern <format>     Timestamp format for --x-format pattern, e.g. "DD/MM/YYYY HH:mm"
+  --time-zone <zone>       Zone of timestamps without an offset (default UTC)
+  --decimal <auto|.|,>
+  --allow-missing          Accept empty, NaN, NA, N/A and null Y cells (any case) as gaps
+  --skip-invalid-rows      Leave out bad rows instead of failing
+  -h, --help`;
+
+/** Bad command-line arguments; reported with the usage text. */
+class UsageError extends Error {}
+
+const delimiters: Record<string, Delimiter> = {
+  comma: ",",
+  tab: "\t",
+  semicolon: ";",
+  pipe: "|",
+};
+const delimiterNames: Record<Delimiter, string> = {
+  ",": "comma",
+  "\t": "tab",
+  ";": "semicolon",
+  "|": "pipe",
+};
+
+function oneOf<T extends string>(name: string, value: string | undefined, allowed: readonly T[]) {
+  if (value === undefined) return undefined;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new UsageError(`--${name} must be one of ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+// 1-based column numbers from the command line → 0-based columns
+function columnNumber(name: string, text: string): number {
+  const n = Number(text);
+  if (!Number.isInteger(n) || n < 1) throw new UsageError(`--${name}: "${text}" is not a column number`);
+  return n - 1;
+}
+
+type Values = Record<string, string | boolean | undefined>;
+
+function parseOptionsOf(values: Values): ParseOptions {
+  const text = (name: string) => values[name] as string | undefined;
+  const options: ParseOptions = {
+    format: oneOf<InputFormat>("format", text("format"), ["auto", "delimited", "json", "ndjson"]),
+    header: oneOf("header", text("header"), ["auto", "yes", "no"] as const),
+    xFormat: oneOf<XFormat>("x-format", text("x-format"), [
+      "auto", "number", "iso", "epochSeconds", "epochMillis", "pattern",
+    ]),
+    xPattern: text("x-pattern"),
+    sourceTimeZone: text("time-zone"),
+    decimalSeparator: oneOf<DecimalSeparator | "auto">("decimal", text("decimal"), [
+      "auto", ".", ",",
+    ]),
+    commentPrefix: text("comment"),
+    allowMissing: values["allow-missing"] === true,
+    skipInvalidRows: values["skip-invalid-rows"] === true,
+  };
+  const delimiter = text("delimiter");
+  if (delimiter !== undefined) {
+    options.delimiter = delimiters[delimiter] ?? oneOf("delimiter", delimiter, Object.values(delimiters));
+  }
+  const skipLines = text("skip-lines");
+  if (skipLines !== undefined) {
+    const n = Number(skipLines);
+    if (!Number.isInteger(n) || n < 0) throw new UsageError("--skip-lines must be a whole number");
+    options.skipLines = n;
+  }
+  const xColumn = text("x-column");
+  if (xColumn !== undefined) {
+    options.xColumn = xColumn === "index" ? "index" : columnNumber("x-column", xColumn);
+  }
+  const yColumns = text("y-columns");
+  if (yColumns !== undefined) {
+    options.yColumns = yColumns.split(",").map((c) => columnNumber("y-columns", c.trim()));
+  }
+  return options;
+}
+
+// Stream the file through the parser so large files are not held as one string
+async function parseFile(
+  path: string,
+  options: ParseOptions
+): Promise<{ data: SequenceData; layout: InputLayout | null }> {
+  const parser = createSequenceParser(options);
+  for await (const chunk of createReadStream(path, { encoding: "utf8" })) {
+    parser.push(chunk as string);
+  }
+  const data = parser.finish();
+  return { data, layout: parser.layout };
+}
+
+type FileSummary = {
+  file: string;
+  format: InputLayout["format"];
+  delimiter: string | null;
+  hasHeader: boolean;
+  columns: string[];
+  xName: string;
+  xKind: SequenceData["xKind"];
+  /** ISO-8601 for dates */
+  xMin: number | string | null;
+  xMax: number | string | null;
+  xAscending: boolean;
+  rows: number;
+  rowsWithMissing: number;
+  skippedRows: number;
+  series: {
+    name: string;
+    count: number;
+    min: number | null;
+    max: number | null;
+    mean: number | null;
+    median: number | null;
+    std: number | null;
+  }[];
+};
+
+function summarize(file: string, data: SequenceData, layout: InputLayout | null): FileSummary {
+  const xs = data.xValues;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const x of xs) {
+    if (x < min) min = x;
+    if (x > max) max = x;
+  }
+  const xText = (x: number) =>
+    !Number.isFinite(x) ? null : data.xKind === "date" ? new Date(x).toISOString() : x;
+  // JSON has no NaN: statistics of an all-gap series are null
+  const finite = (v: number) => (Number.isFinite(v) ? v : null);
+  return {
+    file,
+    format: layout?.format ?? "delimited",
+    delimiter: layout?.delimiter ? delimiterNames[layout.delimiter] : null,
+    hasHeader: layout?.hasHeader ?? false,
+    columns: layout?.columnNames ?? [],
+    xName: data.timeAxisName,
+    xKind: data.xKind,
+    xMin: xText(min),
+    xMax: xText(max),
+    xAscending: isAscending(xs),
+    rows: xs.length,
+    rowsWithMissing: data.missingRows.length,
+    skippedRows: data.skippedRows?.count ?? 0,
+    series: data.series.map((s) => {
+      const stats = computeStats(xs, s.values);
+      return {
+        name: s.name,
+        count: stats.count,
+        min: finite(stats.min),
+        max: finite(stats.max),
+        mean: finite(stats.mean),
+        median: finite(stats.median),
+        std: finite(stats.std),
+      };
+    }),
+  };
+}
+
+function formatSummary(s: FileSummary): string {
+  const format =
+    s.format === "json"
+      ? "JSON array"
+      : s.format === "ndjson"
+        ? "NDJSON"
+        : s.delimiter
+          ? `delimited (${s.delimiter})`
+          : "one value per line";
+  const rowNotes = [
+    s.rowsWithMissing > 0 ? `${s.rowsWithMissing} with missing values` : "",
+    s.skippedRows > 0 ? `${s.skippedRows} invalid skipped` : "",
+  ].filter(Boolean);
+  const lines = [
+    s.file,
+    `  format   ${format}, ${s.hasHeader ? "header row" : "no header"}`,
+    ...(s.hasHeader ? [`  columns  ${s.columns.join(", ")}`] : []),
+    `  X        ${s.xName} (${s.xKind}), ${s.xMin ?? "—"} … ${s.xMax ?? "—"}${
+      s.xAscending ? "" : ", not in ascending order"
+    }`,
+    `  rows     ${s.rows}${rowNotes.length > 0 ? ` (${rowNotes.join(", ")})` : ""}`,
+  ];
+  const cell = (v: number | null) => (v === null ? "—" : formatNumber(v));
+  const table = [
+    ["series", "count", "min", "max", "mean", "median", "std"],
+    ...s.series.map((r) => [
+      r.name,
+      String(r.count),
+      cell(r.min),
+      cell(r.max),
+      cell(r.mean),
+      cell(r.median),
+      cell(r.std),
+    ]),
+  ];
+  const widths = table[0].map((_, c) => Math.max(...table.map((row) => row[c].length)));
+  for (const row of table) {
+    lines.push(
+      "  " +
+        row
+          .map((v, c) => (c === 0 ? v.padEnd(widths[c]) : v.padStart(widths[c])))
+          .join("  ")
+          .trimEnd()
+    );
+  }
+  return lines.join("\n");
+}
+
+// Every problem the parser reported, one per line, with the file name in front
+function formatParseError(file: string, err: ParseError): string {
+  const lines = err.diagnostics.map((d) => `${file}: ${d.message}`);
+  const more = err.totalCount - err.diagnostics.length;
+  if (more > 0) lines.push(`${file}: … and ${more} more problem${more === 1 ? "" : "s"}`);
+  return lines.join("\n");
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: "boolean" },
+      convert: { type: "string" },
+      out: { type: "string" },
+      format: { type: "string" },
+      delimiter: { type: "string" },
+      header: { type: "string" },
+      "skip-lines": { type: "string" },
+      comment: { type: "string" },
+      "x-column": { type: "string" },
+      "y-columns": { type: "string" },
+      "x-format": { type: "string" },
+      "x-pattern": { type: "string" },
+      "time-zone": { type: "string" },
+      decimal: { type: "string" },
+      "allow-missing": { type: "boolean" },
+      "skip-invalid-rows": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) {
+    console.log(usage);
+    return 0;
+  }
+  if (positionals.length === 0) throw new UsageError("No input files");
+  const options = parseOptionsOf(values);
+  const convert = oneOf("convert", values.convert, ["csv", "tsv"] as const);
+  if (convert && positionals.length !== 1) {
+    throw new UsageError("--convert takes exactly one input file");
+  }
+
+  const summaries: FileSummary[] = [];
+  let failed = false;
+  for (const path of positionals) {
+    const file = positionals.length > 1 ? path : basename(path);
+    try {
+      const { data, layout } = await parseFile(path, options);
+      if (convert) {
+        const text = exportSequence(data, convert);
+        if (values.out) await writeFile(values.out, text);
+        else process.stdout.write(text);
+        return 0;
+      }
+      summaries.push(summarize(file, data, layout));
+    } catch (err) {
+      failed = true;
+      if (err instanceof ParseError) console.error(formatParseError(file, err));
+      else console.error(`${file}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (values.json) console.log(JSON.stringify(summaries, null, 2));
+  else if (summaries.length > 0) console.log(summaries.map(formatSummary).join("\n\n"));
+  return failed ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    // parseArgs reports unknown flags with TypeError codes of its own
+    const isUsage =
+      err instanceof UsageError ||
+      (err instanceof Error && "code" in err && String(err.code).startsWith("ERR_PARSE_ARGS"));
+    console.error(err instanceof Error ? err.message : String(err));
+    if (isUsage) console.error(`\n${usage}`);
+    process.exitCode = isUsage ? 2 : 1;
+  }
+);
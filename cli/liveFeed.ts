@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+// Stand-in for an acquisition rig, to try live mode locally: serves generated rows as
+// Server-Sent Events and/or appends them to a CSV file.
+import { appendFile, writeFile } from "node:fs/promises";
+import { createServer, type ServerResponse } from "node:http";
+import { parseArgs } from "node:util";
+
+const usage = `Usage: live-feed [--port <n>] [--interval <ms>] [--append <file.csv>] [--no-serve]
+
+Generates one row (ISO time, sine, noisy ramp) every interval.
+  --port <n>          Serve the rows as Server-Sent Events on http://localhost:<n>/ (default 8787)
+  --interval <ms>     Time between rows (default 200)
+  --append <file>     Also append the rows to this CSV file, written with a header first
+  --no-serve          Only append to the file
+  -h, --help`;
+
+const header = "time,sine,ramp";
+
+function row(n: number): string {
+  const t = new Date();
+  const sine = Math.sin(n / 20).toFixed(4);
+  const ramp = ((n % 500) / 10 + Math.random()).toFixed(3);
+  return `${t.toISOString()},${sine},${ramp}`;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: "string", default: "8787" },
+      interval: { type: "string", default: "200" },
+      append: { type: "string" },
+      "no-serve": { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) {
+    console.log(usage);
+    return;
+  }
+  const port = Number(values.port);
+  const interval = Number(values.interval);
+  if (!Number.isInteger(port) || !(interval > 0)) {
+    console.error(usage);
+    process.exitCode = 2;
+    return;
+  }
+
+  const clients = new Set<ServerResponse>();
+  if (!values["no-serve"]) {
+    const server = createServer((req, res) => {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Access-Control-Allow-Origin": "*",
+      });
+      // Every client gets the header first, like a file read from the start
+      res.write(`data: ${header}\n\n`);
+      clients.add(res);
+      req.on("close", () => clients.delete(res));
+    });
+    server.listen(port, () => console.log(`Serving rows on http://localhost:${port}/`));
+  }
+  if (values.append) {
+    await writeFile(values.append, `${header}\n`);
+    console.log(`Appending rows to ${values.append}`);
+  }
+
+  let n = 0;
+  setInterval(() => {
+    const line = row(n++);
+    for (const res of clients) res.write(`data: ${line}\n\n`);
+    if (values.append) {
+      appendFile(values.append, `${line}\n`).catch((err) => {
+        console.error(err instanceof Error ? err.message : String(err));
+        process.exit(1);
+      });
+    }
+  }, interval);
+}
+
+main();
@@ -1,37 +1,812 @@
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { debounce } from "lodash";
 import { Div } from "style-props-html";
-import YourChart from "./components/YourChart";
+import DatasetsPanel from "./components/DatasetsPanel";
+import ExportPanel from "./components/ExportPanel";
+import ImportDialog from "./components/ImportDialog";
+import LabelsPanel from "./components/LabelsPanel";
+import LivePanel from "./components/LivePanel";
+import OutliersPanel from "./components/OutliersPanel";
+import ParseDiagnosticsDialog from "./components/ParseDiagnosticsDialog";
+import ParseProgressOverlay from "./components/ParseProgressOverlay";
+import QualityPanel from "./components/QualityPanel";
+import RawFormatDialog from "./components/RawFormatDialog";
+import RecentFiles from "./components/RecentFiles";
+import SpectrumView from "./components/SpectrumView";
+import StatsPanel from "./components/StatsPanel";
+import ThresholdsPanel from "./components/ThresholdsPanel";
+import TimeZoneInput from "./components/TimeZoneInput";
+import TransformsPanel from "./components/TransformsPanel";
+import SequenceTable, {
+  type SequenceTableHandle,
+} from "./components/SequenceTable";
+import YourChart, {
+  type ChartImageOptions,
+  type SeriesLayoutMode,
+  type YourChartHandle,
+} from "./components/YourChart";
 import useMeasureElement from "./hooks/fwk/useMeasureElement";
-import parseDataText, { type SequenceData } from "./utils/parseDataText";
+import useEditHistory from "./hooks/useEditHistory";
+import useLiveTail, { fileSession, streamSession } from "./hooks/useLiveTail";
+import useParseFileWorker, {
+  ParseCancelledError,
+} from "./hooks/useParseFileWorker";
+import {
+  identityAlignment,
+  type ComparisonDataset,
+} from "./utils/alignDatasets";
+import type { ChartSelection } from "./utils/chartSelection";
+import {
+  binarySampleKind,
+  guessRawFormat,
+  type RawSampleFormat,
+} from "./utils/decodeBinarySamples";
+import {
+  analyzeQuality,
+  defaultQualityOptions,
+  type QualityOptions,
+} from "./utils/dataQuality";
+import { appendRows, interpolatedRow } from "./utils/editSequence";
+import {
+  previewImport,
+  readTextHead,
+  withoutLayoutOptions,
+  type TextHead,
+} from "./utils/importPreview";
+import {
+  canFollowFiles,
+  completeLinesEnd,
+  continuationOptions,
+  pickFollowFile,
+} from "./utils/liveTail";
+import {
+  detectAllOutliers,
+  outlierRows,
+  type OutlierDetector,
+} from "./utils/outliers";
+import {
+  createCellReader,
+  type InputFormat,
+  type InputLayout,
+  type ParseOptions,
+  type SequenceData,
+  type XFormat,
+} from "./utils/parseDataText";
+import { ParseError, type ParseDiagnostic } from "./utils/parseDiagnostics";
+import {
+  isAscending,
+  lowerBound,
+  upperBound,
+  type AxisRange,
+} from "./utils/plotlyAxis";
+import {
+  listSessions,
+  openSession,
+  saveSession,
+  saveSessionView,
+  emptyView,
+  type SessionView,
+} from "./utils/sessionStore";
+import {
+  loadLabelClasses,
+  loadLabels,
+  newLabelClass,
+  saveLabelClasses,
+  saveLabels,
+  snapLabel,
+  type LabelClass,
+  type RangeLabel,
+} from "./utils/rangeLabels";
+import {
+  detectAllExcursions,
+  loadThresholds,
+  saveThresholds,
+  type Threshold,
+  type ThresholdEvent,
+} from "./utils/thresholds";
+import { detectEpochUnit, UTC } from "./utils/timestamps";
+import { applyPipeline, type PipelineStep } from "./utils/transforms";
+
+// How the table follows the chart's visible X range
+type TableFollowMode = "off" | "scroll" | "filter";
+
+// Panels shown in the dock below the chart
+type DockPanel =
+  | "datasets"
+  | "stats"
+  | "quality"
+  | "transforms"
+  | "thresholds"
+  | "outliers"
+  | "labels"
+  | "live"
+  | "export"
+  | "recent";
+
+// Problems shown in the diagnostics dialog. `retry` is set when the parse failed and can
+// be re-run with the bad rows skipped; the file becomes the reference or a comparison.
+type DiagnosticsReport = {
+  fileName: string;
+  file: File | null;
+  diagnostics: ParseDiagnostic[];
+  totalCount: number;
+  retry?: { as: "reference" | "comparison"; options: ParseOptions };
+};
+
+// A raw binary file waiting for the user to describe its sample format
+type RawFormatRequest = {
+  file: File;
+  initial: RawSampleFormat;
+  resolve: (format: RawSampleFormat | null) => void;
+};
+
+// A text file waiting for the user to confirm or correct how it is read
+type ImportRequest = {
+  file: File;
+  head: TextHead;
+  initial: ParseOptions;
+  resolve: (options: ParseOptions | null) => void;
+};
+
+const dockPanels: { id: DockPanel; label: string }[] = [
+  { id: "datasets", label: "Datasets" },
+  { id: "stats", label: "Statistics" },
+  { id: "quality", label: "Data quality" },
+  { id: "transforms", label: "Transforms" },
+  { id: "thresholds", label: "Thresholds" },
+  { id: "outliers", label: "Outliers" },
+  { id: "labels", label: "Labels" },
+  { id: "live", label: "Live" },
+  { id: "export", label: "Export" },
+  { id: "recent", label: "Recent files" },
+];
 
 
 export default function App() {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dropRef = useRef<HTMLDivElement>(null);
-  const listRef = useRef<HTMLDivElement>(null);
+  const tableRef = useRef<SequenceTableHandle>(null);
+  const chartRef = useRef<YourChartHandle>(null);
   const rightPaneRef = useRef<HTMLDivElement>(null);
 
   const rightPaneSize = useMeasureElement(rightPaneRef);
   const rightPaneWidth = rightPaneSize?.width ?? 0;
   const rightPaneHeight = rightPaneSize?.height ?? 0;
 
-  const [data, setData] = useState<SequenceData<number | Date> | null>(null);
-  const [scrollTop, setScrollTop] = useState(0);
+  const [data, setData] = useState<SequenceData | null>(null);
+  // Counts the sequences shown; edits and live rows replace `data` but keep the chart state
+  const [loadRevision, setLoadRevision] = useState(0);
+  const [xRange, setXRange] = useState<AxisRange | null>(null);
+  const [yRanges, setYRanges] = useState<Record<string, AxisRange>>({});
+  // The selected row doubles as the chart's keyboard cursor
+  const [selectedRow, setSelectedRow] = useState<number | null>(null);
+  // Reference cursor for ΔX/ΔY measurements on the chart
+  const [referenceRow, setReferenceRow] = useState<number | null>(null);
+  const [hoveredRow, setHoveredRow] = useState<number | null>(null);
+  const [tableFollow, setTableFollow] = useState<TableFollowMode>("off");
+  const [selection, setSelection] = useState<ChartSelection | null>(null);
+  const [dockPanel, setDockPanel] = useState<DockPanel | null>(null);
+  const [layoutMode, setLayoutMode] = useState<SeriesLayoutMode>("overlay");
+  const [showSpectrum, setShowSpectrum] = useState(false);
+  const [comparisons, setComparisons] = useState<ComparisonDataset[]>([]);
+  const [comparisonLayout, setComparisonLayout] =
+    useState<SeriesLayoutMode>("overlay");
+  const [parseOptions, setParseOptions] = useState<ParseOptions>({});
+  // Layout the shown file was read with; null for binary files, sessions and live feeds
+  const [inputLayout, setInputLayout] = useState<InputLayout | null>(null);
+  // Zone that date X is shown in (chart hover and table)
+  const [displayTimeZone, setDisplayTimeZone] = useState(UTC);
+  const [pipeline, setPipeline] = useState<PipelineStep[]>([]);
+  const [thresholds, setThresholds] = useState<Threshold[]>([]);
+  const [qualityOptions, setQualityOptions] =
+    useState<QualityOptions>(defaultQualityOptions);
+  // Outlier detection (null = off) and the series it scans (null = all)
+  const [outlierDetector, setOutlierDetector] =
+    useState<OutlierDetector | null>(null);
+  const [outlierSeries, setOutlierSeries] = useState<number | null>(null);
+  // Label classes are shared by every file, labeled ranges belong to the loaded one
+  const [labelClasses, setLabelClasses] = useState<LabelClass[]>(loadLabelClasses);
+  const [labels, setLabels] = useState<RangeLabel[]>([]);
+  const [labelMode, setLabelMode] = useState(false);
+  const [snapLabels, setSnapLabels] = useState(true);
+  const [activeClassId, setActiveClassId] = useState<string | null>(null);
+  const [selectedLabelId, setSelectedLabelId] = useState<string | null>(null);
+  // Rolling window of live mode: seconds on date axes, X units otherwise
+  const [liveWindow, setLiveWindow] = useState(60);
+  // Name of the loaded file; sessions, thresholds etc. are keyed by it
+  const [fileName, setFileName] = useState<string | null>(null);
+  // Bumped whenever a session is stored, so the recent-files list reloads
+  const [sessionsRevision, setSessionsRevision] = useState(0);
+  const [diagnosticsReport, setDiagnosticsReport] =
+    useState<DiagnosticsReport | null>(null);
+  const [rawFormatRequest, setRawFormatRequest] =
+    useState<RawFormatRequest | null>(null);
+  const [importRequest, setImportRequest] = useState<ImportRequest | null>(null);
+  // Only set while the sequence came from a dropped/picked file (not a restored session)
+  const fileRef = useRef<File | null>(null);
+  const tableTopRowRef = useRef(0);
+  const pendingTableRowRef = useRef<number | null>(null);
+  const parseWorker = useParseFileWorker();
+  const { parse: parseFile } = parseWorker;
+  // Table edits of the shown sequence; they live until another sequence is shown
+  const edits = useEditHistory(data, setData);
+  const { reset: resetEdits } = edits;
+
+  // Show a sequence with the given view (fresh, or restored from a session)
+  const showSequence = useCallback(
+    (name: string, seq: SequenceData, view: SessionView) => {
+      setData(seq);
+      setLoadRevision((n) => n + 1);
+      setFileName(name);
+      setInputLayout(null);
+      setXRange(view.xRange);
+      setYRanges(view.yRanges);
+      tableTopRowRef.current = view.tableTopRow;
+      pendingTableRowRef.current = view.tableTopRow;
+      setSelectedRow(null);
+      setReferenceRow(null);
+      setHoveredRow(null);
+      setSelection(null);
+      resetEdits();
+      // Thresholds are remembered per file name; drop any for columns this file lacks
+      setThresholds(
+        loadThresholds(name).filter((t) => t.series < seq.series.length)
+      );
+      setOutlierSeries((prev) =>
+        prev !== null && prev < seq.series.length ? prev : null
+      );
+      setLabels(loadLabels(name));
+      setSelectedLabelId(null);
+    },
+    [resetEdits]
+  );
+
+  // Live rows: the first ones of a feed become the sequence, later ones are appended
+  const onLiveRows = useCallback(
+    (rows: SequenceData, first: boolean, source: string) => {
+      if (first) {
+        fileRef.current = null;
+        showSequence(source, rows, emptyView);
+      } else {
+        setData((prev) => prev && appendRows(prev, rows));
+      }
+    },
+    [showSequence]
+  );
+  const live = useLiveTail(onLiveRows);
+  const { stop: stopLive } = live;
+
+  // Showing another sequence drops the edits of this one: ask first
+  const confirmDiscardEdits = useCallback(
+    () =>
+      !edits.dirty ||
+      confirm(`Discard your unsaved edits to ${fileName ?? "the data"}?`),
+    [edits.dirty, fileName]
+  );
+
+  // Resolves with the format entered in the raw format form, or null when cancelled
+  const askRawFormat = useCallback(
+    (file: File, initial?: RawSampleFormat) =>
+      new Promise<RawSampleFormat | null>((resolve) =>
+        setRawFormatRequest({
+          file,
+          initial: initial ?? guessRawFormat(file.name),
+          resolve,
+        })
+      ),
+    []
+  );
+
+  // Options for a newly opened file: raw dumps need their sample format first
+  const withRawFormat = useCallback(
+    async (file: File, options: ParseOptions): Promise<ParseOptions | null> => {
+      if (binarySampleKind(file.name) !== "raw") return options;
+      const rawFormat = await askRawFormat(file, options.rawFormat);
+      return rawFormat && { ...options, rawFormat };
+    },
+    [askRawFormat]
+  );
+
+  // Resolves with the options chosen in the import dialog, or null when cancelled
+  const askImportOptions = useCallback(
+    async (file: File, initial: ParseOptions) => {
+      const head = await readTextHead(file);
+      return new Promise<ParseOptions | null>((resolve) =>
+        setImportRequest({ file, head, initial, resolve })
+      );
+    },
+    []
+  );
 
-  const handleFile = useCallback((file: File) => {
-    const reader = new FileReader();
-    reader.onload = () => {
+  // Options for the new reference file: text files go through the import preview
+  const withImportOptions = useCallback(
+    async (file: File, options: ParseOptions): Promise<ParseOptions | null> => {
+      if (binarySampleKind(file.name)) return withRawFormat(file, options);
+      const chosen = await askImportOptions(file, options);
+      if (chosen) setParseOptions(chosen);
+      return chosen;
+    },
+    [askImportOptions, withRawFormat]
+  );
+
+  // Load `file` as the reference sequence; what was shown and the options it was read
+  // with, or null when parsing failed or was cancelled
+  const handleFile = useCallback(
+    async (
+      file: File,
+      options: ParseOptions
+    ): Promise<{ seq: SequenceData; options: ParseOptions } | null> => {
+      // Live rows belong to the sequence on screen, not to the one replacing it
+      stopLive();
+      fileRef.current = file;
       try {
-        const text = reader.result as string;
-        const seq = parseDataText(text);
-        setData(seq);
-      } catch (err: any) {
+        let seq = await parseFile(file, options);
+        // Numbers that all look like Unix timestamps may or may not be: ask
+        const epochUnit =
+          (options.xFormat ?? "auto") === "auto" && seq.xKind === "number"
+            ? detectEpochUnit(seq.xValues)
+            : null;
+        if (epochUnit) {
+          const asDates = confirm(
+            `The ${seq.timeAxisName} column looks like Unix timestamps in ${epochUnit}. Show it as dates?`
+          );
+          const epochFormat: XFormat = epochUnit === "seconds" ? "epochSeconds" : "epochMillis";
+          const xFormat: XFormat = asDates ? epochFormat : "number";
+          if (asDates) {
+            const scale = epochUnit === "seconds" ? 1000 : 1;
+            seq = { ...seq, xKind: "date", xValues: seq.xValues.map((x) => x * scale) };
+          }
+          options = { ...options, xFormat };
+          // Kept either way, so that re-parsing the file does not ask again
+          setParseOptions((prev) => ({ ...prev, xFormat }));
+        }
+        if (options.rawFormat && binarySampleKind(file.name) === "raw") {
+          // The sample format is kept for the same reason
+          const { rawFormat } = options;
+          setParseOptions((prev) => ({ ...prev, rawFormat }));
+        }
+        // Edited cells are read like the file, e.g. with its delimiter's decimal rule
+        const layout = binarySampleKind(file.name)
+          ? null
+          : previewImport(await readTextHead(file), options).layout;
+        showSequence(file.name, seq, emptyView);
+        setInputLayout(layout);
+        saveSession(file.name, seq, options)
+          .catch((err) => console.warn("Could not save session", err))
+          .then(() => setSessionsRevision((n) => n + 1));
+        return { seq, options };
+      } catch (err) {
+        if (err instanceof ParseCancelledError) return null;
         console.error(err);
-        alert(err?.message || "Error parsing data");
+        if (err instanceof ParseError) {
+          setDiagnosticsReport({
+            fileName: file.name,
+            file,
+            diagnostics: err.diagnostics,
+            totalCount: err.totalCount,
+            retry: err.recoverable ? { as: "reference", options } : undefined,
+          });
+        } else {
+          alert((err instanceof Error && err.message) || "Error parsing data");
+        }
+        return null;
       }
-    };
-    reader.readAsText(file);
-  }, []);
+    },
+    [parseFile, showSequence, stopLive]
+  );
+
+  // Parse `files` one after another and add them to the compared datasets
+  const addComparisonFiles = useCallback(
+    async (files: File[], options: ParseOptions) => {
+      for (const file of files) {
+        const fileOptions = await withRawFormat(file, options);
+        if (!fileOptions) continue;
+        try {
+          const seq = await parseFile(file, fileOptions);
+          setComparisons((prev) => [
+            ...prev,
+            {
+              id: crypto.randomUUID(),
+              name: file.name,
+              data: seq,
+              visible: true,
+              alignment: identityAlignment,
+            },
+          ]);
+        } catch (err) {
+          if (err instanceof ParseCancelledError) return;
+          console.error(err);
+          if (err instanceof ParseError) {
+            setDiagnosticsReport({
+              fileName: file.name,
+              file,
+              diagnostics: err.diagnostics,
+              totalCount: err.totalCount,
+              retry: err.recoverable
+                ? { as: "comparison", options: fileOptions }
+                : undefined,
+            });
+          } else {
+            alert(
+              `${file.name}: ${err instanceof Error ? err.message : "Error parsing data"}`
+            );
+          }
+        }
+      }
+    },
+    [parseFile, withRawFormat]
+  );
+
+  // The first file becomes the reference, the others are compared against it
+  const handleFiles = useCallback(
+    async (files: File[], options: ParseOptions) => {
+      const [first, ...rest] = files;
+      if (!first || !confirmDiscardEdits()) return;
+      // Columns and header chosen for the previous file say nothing about these
+      const fileOptions = withoutLayoutOptions(options);
+      const firstOptions = await withImportOptions(first, fileOptions);
+      if (!firstOptions || !(await handleFile(first, firstOptions))) return;
+      if (rest.length > 0) {
+        await addComparisonFiles(rest, fileOptions);
+        setDockPanel("datasets");
+      }
+    },
+    [handleFile, addComparisonFiles, withImportOptions, confirmDiscardEdits]
+  );
+
+  // Re-run the failed parse of the reported file without its bad rows
+  const skipReportedRows = useCallback(() => {
+    const report = diagnosticsReport;
+    if (!report?.file || !report.retry) return;
+    setDiagnosticsReport(null);
+    // Row skipping was chosen for this file only, so the parse options stay as they are
+    const options: ParseOptions = { ...report.retry.options, skipInvalidRows: true };
+    if (report.retry.as === "reference") handleFile(report.file, options);
+    else addComparisonFiles([report.file], options);
+  }, [diagnosticsReport, handleFile, addComparisonFiles]);
+
+  const openRecent = useCallback(
+    async (name: string) => {
+      try {
+        const session = await openSession(name);
+        if (!session) {
+          alert(`${name} is no longer stored; please open the file again.`);
+          setSessionsRevision((n) => n + 1);
+          return;
+        }
+        stopLive();
+        fileRef.current = null;
+        setParseOptions(session.summary.parseOptions);
+        showSequence(name, session.data, session.summary.view);
+      } catch (err) {
+        console.error(err);
+        alert(
+          err instanceof Error ? err.message : "Error opening stored session"
+        );
+      }
+    },
+    [showSequence, stopLive]
+  );
+
+  // Reopen the most recent session after a page reload
+  useEffect(() => {
+    listSessions()
+      .then((sessions) => {
+        if (sessions.length > 0) openRecent(sessions[0].fileName);
+      })
+      .catch((err) => console.warn("Could not read saved sessions", err));
+  }, [openRecent]);
+
+  // Zoom and table position are written back shortly after they settle
+  const persistView = useMemo(
+    () =>
+      debounce((name: string, view: SessionView) => {
+        saveSessionView(name, view).catch((err) =>
+          console.warn("Could not save view", err)
+        );
+      }, 500),
+    []
+  );
+
+  useEffect(() => {
+    if (fileName) {
+      persistView(fileName, {
+        xRange,
+        yRanges,
+        tableTopRow: tableTopRowRef.current,
+      });
+    }
+  }, [fileName, xRange, yRanges, persistView]);
+
+  const onTableTopRowChange = useCallback(
+    (row: number) => {
+      tableTopRowRef.current = row;
+      if (fileName) persistView(fileName, { xRange, yRanges, tableTopRow: row });
+    },
+    [fileName, xRange, yRanges, persistView]
+  );
+
+  // Restore the table scroll position once a restored sequence is rendered
+  useEffect(() => {
+    const row = pendingTableRowRef.current;
+    if (data && row !== null) {
+      pendingTableRowRef.current = null;
+      tableRef.current?.scrollToRow(row);
+    }
+  }, [data]);
+
+  // Changing parse options re-parses the current file, if any
+  const updateParseOptions = useCallback(
+    (next: ParseOptions) => {
+      if (fileRef.current && !confirmDiscardEdits()) return;
+      setParseOptions(next);
+      if (fileRef.current) handleFile(fileRef.current, next);
+    },
+    [handleFile, confirmDiscardEdits]
+  );
+
+  // Key paths only matter for JSON records
+  const jsonInput =
+    parseOptions.format === "json" ||
+    parseOptions.format === "ndjson" ||
+    /\.(?:json|ndjson|jsonl)$/i.test(fileName ?? "");
+
+  // Ask again for the sample format of the raw file on screen and re-decode it
+  const editRawFormat = async () => {
+    const file = fileRef.current;
+    if (!file) return;
+    const rawFormat = await askRawFormat(file, parseOptions.rawFormat);
+    if (rawFormat) updateParseOptions({ ...parseOptions, rawFormat });
+  };
+
+  // Reopen the import preview for the text file on screen and re-parse with its choices
+  const editImportOptions = async () => {
+    const file = fileRef.current;
+    if (!file) return;
+    const options = await askImportOptions(file, parseOptions);
+    if (options) updateParseOptions(options);
+  };
+
+  // Rolling window in X units (ms on date axes)
+  const liveWindowWidth = liveWindow * (data?.xKind === "date" ? 1000 : 1);
+  const following = live.status?.state === "following";
+  const lastX = data && data.xValues.length > 0 ? data.xValues[data.xValues.length - 1] : NaN;
+  // The X range on screen: the rolling window while following, so the panels describing
+  // the visible range match the chart
+  const shownXRange = useMemo(
+    (): AxisRange | null =>
+      following && Number.isFinite(lastX) ? [lastX - liveWindowWidth, lastX] : xRange,
+    [following, lastX, liveWindowWidth, xRange]
+  );
+
+  // Load a file up to its last complete line, then keep appending what is written to it
+  const followLiveFile = async () => {
+    if (!confirmDiscardEdits()) return;
+    try {
+      const handle = await pickFollowFile();
+      if (!handle) return;
+      const file = await handle.getFile();
+      if (binarySampleKind(file.name)) {
+        alert("Only text files can be followed.");
+        return;
+      }
+      // A row still being written is read once its line is complete
+      const end = await completeLinesEnd(file);
+      const loadedPart = new File([file.slice(0, end)], file.name, {
+        lastModified: file.lastModified,
+      });
+      const options = await withImportOptions(loadedPart, withoutLayoutOptions(parseOptions));
+      if (!options) return;
+      const loaded = await handleFile(loadedPart, options);
+      if (!loaded) return;
+      const { layout } = previewImport(await readTextHead(loadedPart), loaded.options);
+      if (!layout) throw new Error(`Could not read the layout of ${file.name}`);
+      live.start(
+        fileSession(
+          handle,
+          end,
+          loaded.seq,
+          layout.xColumn === null,
+          continuationOptions(loaded.options, layout, loaded.seq.xKind)
+        )
+      );
+    } catch (err) {
+      console.error(err);
+      alert(err instanceof Error ? err.message : "Could not follow the file");
+    }
+  };
+
+  // Rows of a local feed start a new sequence, read with the current parse options
+  const connectLive = (url: string) => {
+    if (!confirmDiscardEdits()) return;
+    live.start(streamSession(url, withoutLayoutOptions(parseOptions)));
+  };
+
+  // Leaving the rolling window keeps the chart where it was
+  const holdLiveView = () => {
+    if (following) setXRange(shownXRange);
+  };
+
+  const parseOptionControls = (
+    <>
+      {fileName && !binarySampleKind(fileName) && (
+        <button onClick={editImportOptions}>Import options…</button>
+      )}
+      {binarySampleKind(fileName ?? "") === "raw" && (
+        <button onClick={editRawFormat}>Sample format…</button>
+      )}
+      <label onClick={(e) => e.stopPropagation()}>
+        Format{" "}
+        <select
+          value={parseOptions.format ?? "auto"}
+          onChange={(e) =>
+            updateParseOptions({
+              ...parseOptions,
+              format: e.target.value as InputFormat,
+            })
+          }
+        >
+          <option value="auto">Auto</option>
+          <option value="delimited">CSV/TSV</option>
+          <option value="json">JSON array</option>
+          <option value="ndjson">NDJSON</option>
+        </select>
+      </label>
+      {jsonInput && (
+        <>
+          <input
+            key={`x:${parseOptions.xKeyPath}`}
+            defaultValue={parseOptions.xKeyPath ?? ""}
+            placeholder="X key (first key)"
+            title="Key path of X in JSON objects, e.g. time or meta.t"
+            style={{ width: "120px" }}
+            onClick={(e) => e.stopPropagation()}
+            onBlur={(e) => {
+              const xKeyPath = e.target.value.trim() || undefined;
+              if (xKeyPath !== parseOptions.xKeyPath) {
+                updateParseOptions({ ...parseOptions, xKeyPath });
+              }
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+          />
+          <input
+            key={`y:${parseOptions.yKeyPaths?.join(",")}`}
+            defaultValue={parseOptions.yKeyPaths?.join(", ") ?? ""}
+            placeholder="Y keys (other keys)"
+            title="Comma-separated key paths of the series in JSON objects"
+            style={{ width: "160px" }}
+            onClick={(e) => e.stopPropagation()}
+            onBlur={(e) => {
+              const paths = e.target.value
+                .split(",")
+                .map((p) => p.trim())
+                .filter((p) => p !== "");
+              const yKeyPaths = paths.length > 0 ? paths : undefined;
+              if (yKeyPaths?.join(",") !== parseOptions.yKeyPaths?.join(",")) {
+                updateParseOptions({ ...parseOptions, yKeyPaths });
+              }
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+          />
+        </>
+      )}
+      <label onClick={(e) => e.stopPropagation()}>
+        Decimal separator{" "}
+        <select
+          value={parseOptions.decimalSeparator ?? "auto"}
+          onChange={(e) =>
+            updateParseOptions({
+              ...parseOptions,
+              decimalSeparator: e.target
+                .value as ParseOptions["decimalSeparator"],
+            })
+          }
+        >
+          <option value="auto">Auto</option>
+          <option value=".">Dot (1.5)</option>
+          <option value=",">Comma (1,5)</option>
+        </select>
+      </label>
+      <label onClick={(e) => e.stopPropagation()}>
+        <input
+          type="checkbox"
+          checked={parseOptions.allowMissing ?? false}
+          onChange={(e) =>
+            updateParseOptions({
+              ...parseOptions,
+              allowMissing: e.target.checked,
+            })
+          }
+        />{" "}
+        Allow missing values
+      </label>
+      <label onClick={(e) => e.stopPropagation()}>
+        X column{" "}
+        <select
+          value={parseOptions.xFormat ?? "auto"}
+          onChange={(e) =>
+            updateParseOptions({
+              ...parseOptions,
+              xFormat: e.target.value as XFormat,
+            })
+          }
+        >
+          <option value="auto">Auto</option>
+          <option value="number">Numbers</option>
+          <option value="iso">ISO dates</option>
+          <option value="epochSeconds">Unix seconds</option>
+          <option value="epochMillis">Unix milliseconds</option>
+          <option value="pattern">Custom format</option>
+        </select>
+      </label>
+      {parseOptions.xFormat === "pattern" && (
+        <input
+          key={parseOptions.xPattern}
+          defaultValue={parseOptions.xPattern ?? ""}
+          placeholder="MM/DD/YYYY HH:mm:ss"
+          title="Tokens: YYYY YY MMM MM M DD D HH H hh h mm m ss s SSS A Z; [text] is literal"
+          style={{ width: "160px" }}
+          onClick={(e) => e.stopPropagation()}
+          onBlur={(e) => {
+            const xPattern = e.target.value.trim();
+            if (xPattern && xPattern !== parseOptions.xPattern) {
+              updateParseOptions({ ...parseOptions, xPattern });
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+          }}
+        />
+      )}
+      <label
+        onClick={(e) => e.stopPropagation()}
+        title="Zone of timestamps written without an offset"
+      >
+        Source timezone{" "}
+        <TimeZoneInput
+          value={parseOptions.sourceTimeZone ?? UTC}
+          onChange={(sourceTimeZone) =>
+            updateParseOptions({ ...parseOptions, sourceTimeZone })
+          }
+        />
+      </label>
+    </>
+  );
+
+  const updateThresholds = useCallback((next: Threshold[]) => {
+    setThresholds(next);
+    if (fileName) saveThresholds(fileName, next);
+  }, [fileName]);
+
+  const thresholdEvents = useMemo(
+    () => (data ? detectAllExcursions(data, thresholds) : []),
+    [data, thresholds]
+  );
+
+  const outliers = useMemo(
+    () =>
+      data && outlierDetector
+        ? detectAllOutliers(data, outlierSeries, outlierDetector)
+        : [],
+    [data, outlierDetector, outlierSeries]
+  );
+  const flaggedRows = useMemo(() => outlierRows(outliers), [outliers]);
+  const flaggedRowSet = useMemo(() => new Set(flaggedRows), [flaggedRows]);
+
+  const qualityReport = useMemo(
+    () => data && analyzeQuality(data, qualityOptions),
+    [data, qualityOptions]
+  );
+  // Problems that make the chart or the table misleading, flagged on the dock button
+  const qualityWarning =
+    !!qualityReport &&
+    (qualityReport.orderViolations.length > 0 ||
+      qualityReport.duplicateRows > 0 ||
+      qualityReport.gaps.length > 0);
 
   const onClick = useCallback(() => {
     fileInputRef.current?.click();
@@ -42,11 +817,11 @@ export default function App() {
     (e: DragEvent) => {
       e.preventDefault();
       if (e.dataTransfer?.files && e.dataTransfer.files.length > 0) {
-        handleFile(e.dataTransfer.files[0]);
+        handleFiles(Array.from(e.dataTransfer.files), parseOptions);
         e.dataTransfer.clearData();
       }
     },
-    [handleFile]
+    [handleFiles, parseOptions]
   );
 
   const onDragOver = useCallback((e: DragEvent) => {
@@ -56,128 +831,744 @@ export default function App() {
   useEffect(() => {
     const div = dropRef.current;
     if (!div) return;
-    div.addEventListener("dragover", onDragOver as any);
-    div.addEventListener("drop", onDrop as any);
+    div.addEventListener("dragover", onDragOver);
+    div.addEventListener("drop", onDrop);
     return () => {
-      div.removeEventListener("dragover", onDragOver as any);
-      div.removeEventListener("drop", onDrop as any);
+      div.removeEventListener("dragover", onDragOver);
+      div.removeEventListener("drop", onDrop);
     };
   }, [onDragOver, onDrop]);
 
-  const rowHeight = 30;
+  const xAscending = useMemo(
+    () => (data ? isAscending(data.xValues) : false),
+    [data]
+  );
+
+  // Data rows inside the visible X range (only meaningful for ascending X)
+  const visibleRows = useMemo((): [number, number] | null => {
+    if (!data || !shownXRange || !xAscending) return null;
+    return [
+      lowerBound(data.xValues, shownXRange[0]),
+      upperBound(data.xValues, shownXRange[1]),
+    ];
+  }, [data, shownXRange, xAscending]);
+
+  useEffect(() => {
+    if (tableFollow === "scroll" && visibleRows) {
+      tableRef.current?.scrollToRow(visibleRows[0]);
+    }
+  }, [tableFollow, visibleRows]);
+
+  // Table → chart: select the row and center the chart on it, keeping the zoom width
+  const onRowClick = useCallback(
+    (row: number) => {
+      if (!data) return;
+      setSelectedRow(row);
+      const xs = data.xValues;
+      const x = xs[row];
+      let width = xRange ? xRange[1] - xRange[0] : 0;
+      if (!width) {
+        let lo = Infinity;
+        let hi = -Infinity;
+        for (const v of xs) {
+          if (v < lo) lo = v;
+          if (v > hi) hi = v;
+        }
+        width = hi - lo || 1;
+      }
+      setXRange([x - width / 2, x + width / 2]);
+    },
+    [data, xRange]
+  );
+
+  // Chart → table: highlight and scroll to the row under the pointer / clicked
+  const onPointHover = useCallback((row: number | null) => {
+    setHoveredRow(row);
+    if (row !== null) tableRef.current?.scrollToRow(row, "center");
+  }, []);
+
+  const onPointClick = useCallback((row: number) => {
+    setSelectedRow(row);
+    tableRef.current?.scrollToRow(row, "center");
+  }, []);
+
+  // Zoom to an excursion with some context on either side, and select its peak
+  const onThresholdEventClick = useCallback(
+    (ev: ThresholdEvent) => {
+      if (!data) return;
+      const xs = data.xValues;
+      const before = xs[Math.max(0, ev.start - 1)];
+      const after = xs[Math.min(xs.length - 1, ev.end + 1)];
+      const pad = Math.max((after - before) * 0.25, Number.EPSILON);
+      setXRange([before - pad, after + pad]);
+      setSelectedRow(ev.peakRow);
+      tableRef.current?.scrollToRow(ev.peakRow, "center");
+    },
+    [data]
+  );
+
+  // Select a row, center the chart on it and scroll the table there
+  const goToRow = useCallback(
+    (row: number) => {
+      onRowClick(row);
+      tableRef.current?.scrollToRow(row, "center");
+    },
+    [onRowClick]
+  );
+
+  const updateLabels = useCallback(
+    (next: RangeLabel[]) => {
+      setLabels(next);
+      if (fileName) saveLabels(fileName, next);
+    },
+    [fileName]
+  );
+
+  const updateLabelClasses = useCallback((next: LabelClass[]) => {
+    setLabelClasses(next);
+    saveLabelClasses(next);
+  }, []);
+
+  // A range dragged out on the chart gets the active class (a first class is made if needed)
+  const onLabelDraw = useCallback(
+    (x0: number, x1: number) => {
+      if (!data) return;
+      let classes = labelClasses;
+      let cls = classes.find((c) => c.id === activeClassId) ?? classes[0];
+      if (!cls) {
+        cls = newLabelClass("Class 1", classes);
+        classes = [cls];
+        updateLabelClasses(classes);
+      }
+      setActiveClassId(cls.id);
+      let label: RangeLabel = { id: crypto.randomUUID(), classId: cls.id, x0, x1 };
+      if (snapLabels) label = snapLabel(label, data.xValues, xAscending);
+      updateLabels([...labels, label]);
+      setSelectedLabelId(label.id);
+    },
+    [
+      data, labelClasses, activeClassId, snapLabels, xAscending, labels, updateLabels,
+      updateLabelClasses,
+    ]
+  );
+
+  const deleteLabel = useCallback(
+    (id: string) => {
+      updateLabels(labels.filter((l) => l.id !== id));
+      setSelectedLabelId(null);
+    },
+    [labels, updateLabels]
+  );
+
+  // Select a label from the list and zoom the chart to it
+  const onLabelClick = useCallback((label: RangeLabel) => {
+    setSelectedLabelId(label.id);
+    const pad = Math.max((label.x1 - label.x0) * 0.25, Number.EPSILON);
+    setXRange([label.x0 - pad, label.x1 + pad]);
+  }, []);
+
+  // Edited cells are read with the parse rules of the file; dates as the table shows them
+  const cellReader = useMemo(
+    () =>
+      data && createCellReader(parseOptions, data.xKind, inputLayout, displayTimeZone),
+    [data, parseOptions, inputLayout, displayTimeZone]
+  );
+
+  const onCellEdit = useCallback(
+    (row: number, column: number, text: string): string | null => {
+      if (!data || !cellReader) return null;
+      let value: number;
+      try {
+        value = column === 0 ? cellReader.readX(text) : cellReader.readY(text);
+      } catch (err) {
+        return err instanceof Error ? err.message : String(err);
+      }
+      const current =
+        column === 0 ? data.xValues[row] : data.series[column - 1].values[row];
+      // Confirming an unchanged cell adds no undo step
+      if (Object.is(value, current)) return null;
+      edits.apply(
+        column === 0
+          ? { kind: "set-x", row, value }
+          : { kind: "set-y", row, series: column - 1, value }
+      );
+      return null;
+    },
+    [data, cellReader, edits]
+  );
+
+  // Rows move after inserts and deletes, so cursors pointing into the data are dropped
+  const clearRowState = useCallback(() => {
+    setReferenceRow(null);
+    setHoveredRow(null);
+    setSelection(null);
+  }, []);
+
+  const deleteRow = useCallback(
+    (row: number) => {
+      if (!data || data.xValues.length <= 1) return;
+      edits.apply({ kind: "delete", rows: [row] });
+      clearRowState();
+      setSelectedRow(Math.min(row, data.xValues.length - 2));
+    },
+    [data, edits, clearRowState]
+  );
+
+  // Insert an interpolated row so that it becomes row `at`, and select it
+  const insertRow = useCallback(
+    (at: number) => {
+      if (!data) return;
+      const { xValue, values } = interpolatedRow(data, at);
+      edits.apply({
+        kind: "insert",
+        rows: [at],
+        xValues: [xValue],
+        values: values.map((v) => [v]),
+      });
+      clearRowState();
+      setSelectedRow(at);
+      tableRef.current?.scrollToRow(at, "center");
+    },
+    [data, edits, clearRowState]
+  );
+
+  // Quality fixes replace the whole sequence as one undoable step
+  const applyQualityFix = useCallback(
+    (fixed: SequenceData) => {
+      edits.apply({ kind: "replace", data: fixed });
+      clearRowState();
+      setSelectedRow(null);
+    },
+    [edits, clearRowState]
+  );
+
+  const { undo, redo } = edits;
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y redo; text fields keep their own
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target;
+      if (
+        target instanceof HTMLInputElement ||
+        target instanceof HTMLTextAreaElement ||
+        target instanceof HTMLSelectElement
+      ) {
+        return;
+      }
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) undo();
+      else if (key === "y" || (key === "z" && e.shiftKey)) redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo]);
+
+  // Edits are not stored anywhere, so leaving the page would lose them
+  useEffect(() => {
+    if (!edits.dirty) return;
+    const onBeforeUnload = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => window.removeEventListener("beforeunload", onBeforeUnload);
+  }, [edits.dirty]);
 
-  const onScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
-    setScrollTop(e.currentTarget.scrollTop);
+  const chartToImage = useCallback((options: ChartImageOptions) => {
+    const chart = chartRef.current;
+    return chart
+      ? chart.toImage(options)
+      : Promise.reject(new Error("The chart is not shown"));
   }, []);
 
+  const progressOverlay = parseWorker.progress && (
+    <ParseProgressOverlay
+      progress={parseWorker.progress}
+      onCancel={parseWorker.cancel}
+    />
+  );
+
+  const rawFormatDialog = rawFormatRequest && (
+    <RawFormatDialog
+      fileName={rawFormatRequest.file.name}
+      fileSize={rawFormatRequest.file.size}
+      initial={rawFormatRequest.initial}
+      onSubmit={(format) => {
+        setRawFormatRequest(null);
+        rawFormatRequest.resolve(format);
+      }}
+      onCancel={() => {
+        setRawFormatRequest(null);
+        rawFormatRequest.resolve(null);
+      }}
+    />
+  );
+
+  const importDialog = importRequest && (
+    <ImportDialog
+      fileName={importRequest.file.name}
+      head={importRequest.head}
+      initial={importRequest.initial}
+      onLoad={(options) => {
+        setImportRequest(null);
+        importRequest.resolve(options);
+      }}
+      onCancel={() => {
+        setImportRequest(null);
+        importRequest.resolve(null);
+      }}
+    />
+  );
+
+  const diagnosticsDialog = diagnosticsReport && (
+    <ParseDiagnosticsDialog
+      fileName={diagnosticsReport.fileName}
+      file={diagnosticsReport.file}
+      diagnostics={diagnosticsReport.diagnostics}
+      totalCount={diagnosticsReport.totalCount}
+      onSkipRows={diagnosticsReport.retry ? skipReportedRows : undefined}
+      onClose={() => setDiagnosticsReport(null)}
+    />
+  );
+
+  const livePanel = (
+    <LivePanel
+      status={live.status}
+      canFollowFiles={canFollowFiles()}
+      xKind={data?.xKind ?? null}
+      windowWidth={liveWindow}
+      onWindowWidthChange={setLiveWindow}
+      onFollowFile={followLiveFile}
+      onConnect={connectLive}
+      onPause={() => {
+        holdLiveView();
+        live.pause();
+      }}
+      onResume={live.resume}
+      onStop={() => {
+        holdLiveView();
+        live.stop();
+      }}
+    />
+  );
+
+  // The pipeline is kept across files; it is re-run on whatever is loaded
+  const derived = useMemo(
+    () => (data ? applyPipeline(data, pipeline) : null),
+    [data, pipeline]
+  );
+
+  // The spectrum view takes the right half of the chart pane when shown
+  const chartWidth = showSpectrum
+    ? Math.floor(rightPaneWidth / 2)
+    : rightPaneWidth;
+
+  const stacked = layoutMode === "stacked" && (data?.series.length ?? 0) > 1;
+
   // If no data yet, render the drop zone / file picker
   if (!data) {
     return (
-      <div
-        ref={dropRef}
-        onClick={onClick}
-        style={{
-          width: "100%",
-          height: "100%",
-          display: "flex",
-          justifyContent: "center",
-          alignItems: "center",
-          cursor: "pointer",
-        }}
-      >
-        <input
-          ref={fileInputRef}
-          type="file"
-          accept=".csv,.tsv,text/csv,text/tab-separated-values"
-          style={{ display: "none" }}
-          onChange={(e) => {
-            const f = e.target.files?.[0];
-            if (f) handleFile(f);
+      <>
+        <div
+          ref={dropRef}
+          onClick={onClick}
+          style={{
+            width: "100%",
+            height: "100%",
+            display: "flex",
+            flexDirection: "column",
+            gap: "12px",
+            justifyContent: "center",
+            alignItems: "center",
+            cursor: "pointer",
           }}
-        />
-        <p>
-          Please drag and drop a csv or tsv file, or click here to open file
-          picker.
-        </p>
-      </div>
+        >
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".csv,.tsv,.json,.ndjson,.jsonl,.wav,.raw,.pcm,.bin,.i16,.i32,.f32,.f64,text/csv,text/tab-separated-values,application/json,application/x-ndjson,audio/wav"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              handleFiles(Array.from(e.target.files ?? []), parseOptions);
+            }}
+          />
+          <p>
+            Please drag and drop one or more csv, tsv, json, ndjson, wav or raw
+            sample files, or click here to open file picker.
+          </p>
+          {parseOptionControls}
+          {livePanel}
+          <RecentFiles revision={sessionsRevision} onOpen={openRecent} />
+        </div>
+        {progressOverlay}
+        {diagnosticsDialog}
+        {rawFormatDialog}
+        {importDialog}
+      </>
     );
   }
 
-  // Virtualization math
-  const totalRows = data.dataPoints.length;
-  const totalHeight = totalRows * rowHeight;
-  const viewportHeight = listRef.current?.clientHeight ?? window.innerHeight;
-  const startIndex = Math.max(0, Math.floor(scrollTop / rowHeight) - 5);
-  const endIndex = Math.min(
-    totalRows,
-    Math.ceil((scrollTop + viewportHeight) / rowHeight) + 5
-  );
-
   return (
     <div style={{ display: "flex", height: "100vh" }}>
+      {progressOverlay}
+      {diagnosticsDialog}
+      {rawFormatDialog}
+      {importDialog}
       <div
-        ref={listRef}
         style={{
           width: "25%",
           height: "100%",
-          overflow: "auto",
           borderRight: "1px solid #ccc",
+          display: "flex",
+          flexDirection: "column",
         }}
-        onScroll={onScroll}
       >
         <div
-          style={{ position: "relative", height: totalHeight, width: "100%" }}
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            gap: "4px",
+            alignItems: "center",
+            padding: "4px",
+            borderBottom: "1px solid #ccc",
+          }}
+          title="Double-click a cell to edit it; Delete removes the selected row"
         >
-          <div
-            style={{
-              display: "flex",
-              position: "sticky",
-              top: 0,
-              background: "#f0f0f0",
-              fontWeight: "bold",
-              zIndex: 1,
-            }}
+          <button
+            disabled={selectedRow === null}
+            onClick={() => selectedRow !== null && insertRow(selectedRow)}
           >
-            <div style={{ flex: 1, padding: "4px" }}>{data.timeAxisName}</div>
-            <div style={{ flex: 1, padding: "4px" }}>{data.valueAxisName}</div>
-          </div>
-          {data.dataPoints.slice(startIndex, endIndex).map(([x, y], idx) => {
-            const rowIndex = startIndex + idx;
-            return (
-              <div
-                key={rowIndex}
-                style={{
-                  display: "flex",
-                  position: "absolute",
-                  top: rowIndex * rowHeight,
-                  height: rowHeight,
-                  width: "100%",
+            Insert above
+          </button>
+          <button
+            disabled={selectedRow === null}
+            onClick={() => selectedRow !== null && insertRow(selectedRow + 1)}
+          >
+            Insert below
+          </button>
+          <button
+            disabled={selectedRow === null || data.xValues.length <= 1}
+            onClick={() => selectedRow !== null && deleteRow(selectedRow)}
+          >
+            Delete row
+          </button>
+          <button disabled={!edits.canUndo} title="Ctrl+Z" onClick={undo}>
+            Undo
+          </button>
+          <button disabled={!edits.canRedo} title="Ctrl+Shift+Z" onClick={redo}>
+            Redo
+          </button>
+          {edits.dirty && (
+            <span
+              style={{ color: "#8a6d00" }}
+              title="Edits are kept until another file is opened; use Export to save them"
+            >
+              ● Modified
+            </span>
+          )}
+        </div>
+        <div style={{ flex: 1, minHeight: 0 }}>
+          <SequenceTable
+            ref={tableRef}
+            data={data}
+            rowRange={tableFollow === "filter" ? visibleRows : null}
+            selectedRow={selectedRow}
+            hoveredRow={hoveredRow}
+            flaggedRows={flaggedRowSet}
+            timeZone={displayTimeZone}
+            onRowClick={onRowClick}
+            onTopRowChange={onTableTopRowChange}
+            onCellEdit={onCellEdit}
+            onDeleteRow={deleteRow}
+          />
+        </div>
+      </div>
+      <div style={{ flex: 1, display: "flex", flexDirection: "column" }}>
+        <div
+          style={{
+            display: "flex",
+            flexWrap: "wrap",
+            gap: "8px",
+            alignItems: "center",
+            padding: "4px 8px",
+            borderBottom: "1px solid #ccc",
+          }}
+        >
+          {parseOptionControls}
+          {data.missingRows.length > 0 && (
+            <span
+              style={{ cursor: "pointer", color: "#8a6d00" }}
+              title={`Rows: ${data.missingRows
+                .slice(0, 20)
+                .map((r) => r + 1)
+                .join(", ")}${data.missingRows.length > 20 ? ", …" : ""}`}
+              onClick={() => {
+                // Jump the table to the first affected row
+                tableRef.current?.scrollToRow(data.missingRows[0]);
+              }}
+            >
+              {data.missingRows.length} row
+              {data.missingRows.length === 1 ? "" : "s"} with missing values
+              (first at row {data.missingRows[0] + 1})
+            </span>
+          )}
+          {data.skippedRows && (
+            <span
+              style={{ cursor: "pointer", color: "#8a6d00" }}
+              title="Show the skipped rows"
+              onClick={() =>
+                data.skippedRows &&
+                setDiagnosticsReport({
+                  fileName: fileName ?? "(unnamed)",
+                  file: fileRef.current,
+                  diagnostics: data.skippedRows.diagnostics,
+                  totalCount: data.skippedRows.count,
+                })
+              }
+            >
+              {data.skippedRows.count} invalid row
+              {data.skippedRows.count === 1 ? "" : "s"} skipped
+            </span>
+          )}
+          {data.xKind === "date" && (
+            <label title="Zone for dates in the table and chart tooltips">
+              Show times in{" "}
+              <TimeZoneInput
+                value={displayTimeZone}
+                onChange={setDisplayTimeZone}
+              />
+            </label>
+          )}
+          <label>
+            Table follows zoom{" "}
+            <select
+              value={tableFollow}
+              onChange={(e) =>
+                setTableFollow(e.target.value as TableFollowMode)
+              }
+            >
+              <option value="off">Off</option>
+              <option value="scroll">Scroll</option>
+              <option value="filter" disabled={!xAscending}>
+                Filter
+              </option>
+            </select>
+          </label>
+          {dockPanels.map(({ id, label }) => (
+            <button
+              key={id}
+              style={{ fontWeight: dockPanel === id ? "bold" : undefined }}
+              onClick={() => setDockPanel(dockPanel === id ? null : id)}
+            >
+              {label}
+              {id === "quality" && qualityWarning && (
+                <span style={{ color: "#8a6d00" }} title="Problems found">
+                  {" "}
+                  ⚠
+                </span>
+              )}
+              {id === "live" && following && (
+                <span style={{ color: "#2ca02c" }} title="Following">
+                  {" "}
+                  ●
+                </span>
+              )}
+            </button>
+          ))}
+          <button
+            style={{ fontWeight: showSpectrum ? "bold" : undefined }}
+            onClick={() => setShowSpectrum(!showSpectrum)}
+          >
+            Spectrum
+          </button>
+          {data.series.length > 1 && (
+            <label>
+              Series layout{" "}
+              <select
+                value={layoutMode}
+                onChange={(e) => {
+                  setLayoutMode(e.target.value as SeriesLayoutMode);
+                  // Y axes are renumbered by the layout change
+                  setYRanges({});
+                  // Selections are per subplot, which the layout change replaces
+                  setSelection(null);
                 }}
               >
-                <div style={{ flex: 1, padding: "4px" }}>
-                  {x instanceof Date ? x.toISOString() : x}
+                <option value="overlay">Overlaid</option>
+                <option value="stacked">Stacked subplots</option>
+              </select>
+            </label>
+          )}
+        </div>
+        <div style={{ flex: 1, minHeight: 0 }} ref={rightPaneRef}>
+          {rightPaneWidth && rightPaneHeight && (
+            <div style={{ display: "flex" }}>
+              <Div
+                width={`${chartWidth}px`}
+                height={`${rightPaneHeight}px`}
+                overflow="auto"
+              >
+                <YourChart
+                  ref={chartRef}
+                  data={data}
+                  revision={loadRevision}
+                  rightPaneWidth={chartWidth}
+                  rightPaneHeight={rightPaneHeight}
+                  layoutMode={layoutMode}
+                  derived={derived}
+                  comparisons={comparisons}
+                  comparisonLayout={comparisonLayout}
+                  xRange={xRange}
+                  follow={following ? liveWindowWidth : null}
+                  onXRangeChange={setXRange}
+                  yRanges={yRanges}
+                  onYRangesChange={setYRanges}
+                  displayTimeZone={displayTimeZone}
+                  highlightIndex={hoveredRow ?? selectedRow}
+                  cursorIndex={selectedRow}
+                  referenceIndex={referenceRow}
+                  thresholds={thresholds}
+                  thresholdEvents={thresholdEvents}
+                  outliers={outliers}
+                  onPointHover={onPointHover}
+                  onPointClick={onPointClick}
+                  onSelectionChange={setSelection}
+                  onCursorChange={onPointClick}
+                  onReferenceChange={setReferenceRow}
+                  labels={labels}
+                  labelClasses={labelClasses}
+                  selectedLabelId={selectedLabelId}
+                  labelMode={labelMode}
+                  onLabelDraw={onLabelDraw}
+                  onLabelSelect={setSelectedLabelId}
+                  onLabelDelete={deleteLabel}
+                />
+              </Div>
+              {showSpectrum && (
+                <div style={{ borderLeft: "1px solid #ccc" }}>
+                  <SpectrumView
+                    data={data}
+                    xRange={shownXRange}
+                    width={rightPaneWidth - chartWidth - 1}
+                    height={rightPaneHeight}
+                  />
                 </div>
-                <div style={{ flex: 1, padding: "4px" }}>{y}</div>
-              </div>
-            );
-          })}
+              )}
+            </div>
+          )}
         </div>
-      </div>
-      <div style={{ flex: 1 }} ref={rightPaneRef}>
-        {rightPaneWidth && rightPaneHeight && (
-          <>
-            <Div
-              width={`${rightPaneWidth}px`}
-              height={`${rightPaneHeight}px`}
-              overflow="auto"
-            >
-              <YourChart
+        {dockPanel && (
+          <div
+            style={{
+              height: "240px",
+              overflow: "auto",
+              borderTop: "1px solid #ccc",
+            }}
+          >
+            {dockPanel === "datasets" && (
+              <DatasetsPanel
+                data={data}
+                fileName={fileName}
+                comparisons={comparisons}
+                layout={comparisonLayout}
+                onChange={setComparisons}
+                onLayoutChange={(next) => {
+                  setComparisonLayout(next);
+                  // Y axes are renumbered by the layout change
+                  setYRanges({});
+                }}
+                onAddFiles={(files) => addComparisonFiles(files, parseOptions)}
+              />
+            )}
+            {dockPanel === "stats" && (
+              <StatsPanel
+                data={data}
+                xRange={shownXRange}
+                selection={selection}
+                stacked={stacked}
+              />
+            )}
+            {dockPanel === "quality" && qualityReport && (
+              <QualityPanel
+                data={data}
+                report={qualityReport}
+                options={qualityOptions}
+                onOptionsChange={setQualityOptions}
+                onGoTo={goToRow}
+                onFix={applyQualityFix}
+              />
+            )}
+            {dockPanel === "thresholds" && (
+              <ThresholdsPanel
+                data={data}
+                thresholds={thresholds}
+                events={thresholdEvents}
+                onChange={updateThresholds}
+                onEventClick={onThresholdEventClick}
+              />
+            )}
+            {dockPanel === "outliers" && (
+              <OutliersPanel
+                data={data}
+                fileName={fileName}
+                detector={outlierDetector}
+                series={outlierSeries}
+                outliers={outliers}
+                rows={flaggedRows}
+                currentRow={selectedRow}
+                onDetectorChange={setOutlierDetector}
+                onSeriesChange={setOutlierSeries}
+                onGoTo={goToRow}
+              />
+            )}
+            {dockPanel === "labels" && (
+              <LabelsPanel
                 data={data}
-                rightPaneWidth={rightPaneWidth}
-                rightPaneHeight={rightPaneHeight}
+                fileName={fileName}
+                classes={labelClasses}
+                labels={labels}
+                activeClassId={
+                  labelClasses.some((c) => c.id === activeClassId)
+                    ? activeClassId
+                    : (labelClasses[0]?.id ?? null)
+                }
+                selectedLabelId={selectedLabelId}
+                labelMode={labelMode}
+                snap={snapLabels}
+                xAscending={xAscending}
+                onClassesChange={updateLabelClasses}
+                onLabelsChange={updateLabels}
+                onActiveClassChange={setActiveClassId}
+                onLabelClick={onLabelClick}
+                onLabelModeChange={setLabelMode}
+                onSnapChange={setSnapLabels}
               />
-            </Div>
-          </>
+            )}
+            {dockPanel === "live" && livePanel}
+            {dockPanel === "export" && (
+              <ExportPanel
+                data={data}
+                fileName={fileName}
+                xRange={shownXRange}
+                selection={selection}
+                stacked={stacked}
+                chartWidth={chartWidth}
+                chartHeight={rightPaneHeight}
+                toImage={chartToImage}
+              />
+            )}
+            {dockPanel === "recent" && (
+              <RecentFiles
+                currentFile={fileName}
+                revision={sessionsRevision}
+                onOpen={(name) => confirmDiscardEdits() && openRecent(name)}
+              />
+            )}
+            {dockPanel === "transforms" && (
+              <TransformsPanel steps={pipeline} onChange={setPipeline} />
+            )}
+          </div>
         )}
       </div>
     </div>
@@ -0,0 +1,63 @@
+// Keys handled by the chart while it has keyboard focus, as shown in the overlay
+const shortcuts: [keys: string, action: string][] = [
+  ["← / →", "Move the cursor one point"],
+  ["Shift+← / →, PgUp / PgDn", "Move the cursor one page (the visible points)"],
+  ["Home / End", "Cursor to the first / last point"],
+  ["M", "Set the reference cursor here (again to clear) for ΔX, ΔY and slope"],
+  ["+ / −", "Zoom X in / out around the cursor"],
+  ["↑ / ↓", "Zoom Y in / out"],
+  ["A", "Autoscale Y to the visible X range"],
+  ["0", "Reset the view"],
+  ["Delete", "Delete the selected label (label mode)"],
+  ["Esc", "Clear the reference cursor, close this help"],
+  ["?", "Show / hide this help"],
+  ["Shift+wheel / Ctrl+wheel", "Zoom X / the Y axis under the pointer"],
+];
+
+/** List of the chart's keyboard shortcuts, shown over the chart. */
+export default function ChartHelpOverlay({ onClose }: { onClose: () => void }) {
+  return (
+    <div
+      style={{
+        position: "absolute",
+        inset: 0,
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        background: "rgba(255, 255, 255, 0.7)",
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "8px",
+          padding: "16px",
+          background: "white",
+          border: "1px solid #ccc",
+          borderRadius: "4px",
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div style={{ fontWeight: "bold" }}>Keyboard shortcuts</div>
+        <div style={{ color: "#666" }}>Click the chart first so it has keyboard focus.</div>
+        <table style={{ borderCollapse: "collapse" }}>
+          <tbody>
+            {shortcuts.map(([keys, action]) => (
+              <tr key={keys}>
+                <td style={{ padding: "2px 12px 2px 0", whiteSpace: "nowrap" }}>
+                  <kbd>{keys}</kbd>
+                </td>
+                <td style={{ padding: "2px 0" }}>{action}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button style={{ alignSelf: "flex-end" }} onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
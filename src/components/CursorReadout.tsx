@@ -0,0 +1,88 @@
+import { cursorDelta, formatDuration } from "../utils/chartCursor";
+import formatNumber from "../utils/formatNumber";
+import type { SequenceData } from "../utils/parseDataText";
+import { formatTimestamp } from "../utils/timestamps";
+
+const cellStyle = { padding: "0 6px", textAlign: "right" } as const;
+
+/**
+ * X/Y values at the keyboard cursor and, once a reference cursor is set, the ΔX, ΔY and
+ * slope between the two.
+ */
+export default function CursorReadout({
+  data,
+  cursor,
+  reference,
+  timeZone,
+}: {
+  data: SequenceData;
+  cursor: number;
+  reference: number | null;
+  timeZone: string;
+}) {
+  const isDate = data.xKind === "date";
+  const formatX = (row: number) =>
+    isDate ? formatTimestamp(data.xValues[row], timeZone) : formatNumber(data.xValues[row]);
+  const delta = reference !== null ? cursorDelta(data, reference, cursor) : null;
+
+  return (
+    <div
+      style={{
+        background: "rgba(255, 255, 255, 0.9)",
+        border: "1px solid #ccc",
+        borderRadius: "4px",
+        padding: "4px",
+        fontSize: "12px",
+        fontVariantNumeric: "tabular-nums",
+      }}
+    >
+      <table style={{ borderCollapse: "collapse" }}>
+        <thead>
+          <tr>
+            <th style={cellStyle} />
+            <th style={cellStyle}>Cursor</th>
+            {delta && (
+              <>
+                <th style={cellStyle}>Δ from ref.</th>
+                <th style={cellStyle}>Slope{isDate ? " (/s)" : ""}</th>
+              </>
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          <tr>
+            <td style={{ ...cellStyle, textAlign: "left" }}>
+              {data.timeAxisName} (row {cursor + 1})
+            </td>
+            <td style={cellStyle}>{formatX(cursor)}</td>
+            {delta && (
+              <>
+                <td style={cellStyle}>
+                  {isDate ? formatDuration(delta.dx) : formatNumber(delta.dx)}
+                </td>
+                <td style={cellStyle} />
+              </>
+            )}
+          </tr>
+          {data.series.map((s, k) => (
+            <tr key={k}>
+              <td style={{ ...cellStyle, textAlign: "left" }}>{s.name}</td>
+              <td style={cellStyle}>{formatNumber(s.values[cursor])}</td>
+              {delta && (
+                <>
+                  <td style={cellStyle}>{formatNumber(delta.series[k].dy)}</td>
+                  <td style={cellStyle}>{formatNumber(delta.series[k].slope)}</td>
+                </>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {reference !== null && (
+        <div style={{ color: "#666", padding: "0 6px" }}>
+          Reference: row {reference + 1}, {formatX(reference)}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useRef, useState } from "react";
+import {
+  alignAt,
+  alignByCrossCorrelation,
+  alignFirstSample,
+  parseXInput,
+  type ComparisonDataset,
+  type XAlignment,
+} from "../utils/alignDatasets";
+import type { SequenceData } from "../utils/parseDataText";
+import type { SeriesLayoutMode } from "./YourChart";
+
+/** Inputs for "align this X of the file with that X of the reference". */
+function AlignAtForm({
+  xKind,
+  onAlign,
+}: {
+  xKind: SequenceData["xKind"];
+  onAlign: (targetX: number, referenceX: number) => void;
+}) {
+  const [targetText, setTargetText] = useState("");
+  const [referenceText, setReferenceText] = useState("");
+  const targetX = parseXInput(targetText, xKind);
+  const referenceX = parseXInput(referenceText, xKind);
+  const placeholder = xKind === "date" ? "2024-01-01T00:00:00Z" : "X";
+  return (
+    <span style={{ display: "inline-flex", gap: "4px", alignItems: "center" }}>
+      Put its X
+      <input
+        value={targetText}
+        placeholder={placeholder}
+        style={{ width: "160px" }}
+        onChange={(e) => setTargetText(e.target.value)}
+      />
+      at reference X
+      <input
+        value={referenceText}
+        placeholder={placeholder}
+        style={{ width: "160px" }}
+        onChange={(e) => setReferenceText(e.target.value)}
+      />
+      <button
+        disabled={!Number.isFinite(targetX) || !Number.isFinite(referenceX)}
+        onClick={() => onAlign(targetX, referenceX)}
+      >
+        Align
+      </button>
+    </span>
+  );
+}
+
+/**
+ * The reference file plus the files compared against it: visibility, X offset/scale and
+ * the alignment helpers (first sample, a chosen X, cross-correlation).
+ */
+export default function DatasetsPanel({
+  data,
+  fileName,
+  comparisons,
+  layout,
+  onChange,
+  onLayoutChange,
+  onAddFiles,
+}: {
+  /** The reference sequence, which the table, statistics etc. work on */
+  data: SequenceData;
+  fileName: string | null;
+  comparisons: ComparisonDataset[];
+  layout: SeriesLayoutMode;
+  onChange: (comparisons: ComparisonDataset[]) => void;
+  onLayoutChange: (layout: SeriesLayoutMode) => void;
+  onAddFiles: (files: File[]) => void;
+}) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isDate = data.xKind === "date";
+  // Offsets are edited in seconds on date axes
+  const offsetUnit = isDate ? 1000 : 1;
+
+  const update = (id: string, patch: Partial<ComparisonDataset>) =>
+    onChange(comparisons.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+
+  const align = (c: ComparisonDataset, compute: () => XAlignment) => {
+    try {
+      update(c.id, { alignment: compute() });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Could not align the datasets");
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "6px",
+        padding: "4px 8px",
+      }}
+    >
+      <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+        <span style={{ fontWeight: "bold" }}>Datasets</span>
+        <span>Reference: {fileName ?? "(unnamed)"}</span>
+        <button onClick={() => fileInputRef.current?.click()}>
+          Add files…
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept=".csv,.tsv,.json,.ndjson,.jsonl,.wav,.raw,.pcm,.bin,.i16,.i32,.f32,.f64,text/csv,text/tab-separated-values,application/json,application/x-ndjson,audio/wav"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            e.target.value = "";
+            if (files.length > 0) onAddFiles(files);
+          }}
+        />
+        {comparisons.length > 0 && (
+          <label>
+            Compared files{" "}
+            <select
+              value={layout}
+              onChange={(e) => onLayoutChange(e.target.value as SeriesLayoutMode)}
+            >
+              <option value="overlay">Overlaid</option>
+              <option value="stacked">Own subplots</option>
+            </select>
+          </label>
+        )}
+      </div>
+      {comparisons.length === 0 && (
+        <div style={{ color: "#666" }}>
+          Add files (or drop several at once) to compare them with the reference.
+        </div>
+      )}
+      {comparisons.map((c) => {
+        const mismatch = c.data.xKind !== data.xKind;
+        return (
+          <div
+            key={c.id}
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              gap: "2px",
+              paddingTop: "4px",
+              borderTop: "1px solid #eee",
+            }}
+          >
+            <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={c.visible}
+                title="Show on the chart"
+                onChange={(e) => update(c.id, { visible: e.target.checked })}
+              />
+              <span style={{ minWidth: "160px" }}>{c.name}</span>
+              <label>
+                Offset{isDate ? " (s)" : ""}{" "}
+                <input
+                  type="number"
+                  value={c.alignment.offset / offsetUnit}
+                  style={{ width: "120px" }}
+                  onChange={(e) => {
+                    const offset = Number(e.target.value) * offsetUnit;
+                    if (Number.isFinite(offset)) {
+                      update(c.id, { alignment: { ...c.alignment, offset } });
+                    }
+                  }}
+                />
+              </label>
+              <label>
+                Scale{" "}
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={c.alignment.scale}
+                  style={{ width: "72px" }}
+                  onChange={(e) => {
+                    const scale = Number(e.target.value);
+                    if (scale > 0) {
+                      update(c.id, { alignment: { ...c.alignment, scale } });
+                    }
+                  }}
+                />
+              </label>
+              <button
+                onClick={() => onChange(comparisons.filter((o) => o.id !== c.id))}
+              >
+                Remove
+              </button>
+              {mismatch && (
+                <span style={{ color: "#8a6d00" }}>
+                  X is {c.data.xKind === "date" ? "dates" : "numbers"} here but{" "}
+                  {isDate ? "dates" : "numbers"} in the reference
+                </span>
+              )}
+            </div>
+            <div
+              style={{
+                display: "flex",
+                gap: "8px",
+                alignItems: "center",
+                paddingLeft: "24px",
+              }}
+            >
+              Align:
+              <button
+                onClick={() =>
+                  align(c, () => alignFirstSample(data, c.data, c.alignment.scale))
+                }
+              >
+                First sample
+              </button>
+              <button
+                onClick={() =>
+                  align(c, () =>
+                    alignByCrossCorrelation(data, c.data, c.alignment.scale)
+                  )
+                }
+              >
+                Cross-correlation
+              </button>
+              <AlignAtForm
+                xKind={data.xKind}
+                onAlign={(targetX, referenceX) =>
+                  align(c, () =>
+                    alignAt(c.data, targetX, referenceX, c.alignment.scale)
+                  )
+                }
+              />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
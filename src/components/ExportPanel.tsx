@@ -0,0 +1,161 @@
+import { useState } from "react";
+import {
+  selectionRowFilter,
+  xRangeRowFilter,
+  type ChartSelection,
+  type RowFilter,
+} from "../utils/chartSelection";
+import downloadBlob from "../utils/downloadBlob";
+import exportSequence, {
+  exportMimeTypes,
+  unionRowFilter,
+  type ExportFormat,
+} from "../utils/exportSequence";
+import type { SequenceData } from "../utils/parseDataText";
+import type { AxisRange } from "../utils/plotlyAxis";
+import type { ChartImageOptions } from "./YourChart";
+
+type ExportScope = "all" | "visible" | "selection";
+
+// File name of the export: the source name with a new extension
+function exportName(fileName: string | null, extension: string): string {
+  const base = (fileName ?? "sequence").replace(/\.[^.]*$/, "");
+  return `${base}.${extension}`;
+}
+
+/** Download the sequence as CSV/TSV/JSON and the chart view as PNG/SVG. */
+export default function ExportPanel({
+  data,
+  fileName,
+  xRange,
+  selection,
+  stacked,
+  chartWidth,
+  chartHeight,
+  toImage,
+}: {
+  data: SequenceData;
+  fileName: string | null;
+  xRange: AxisRange | null;
+  selection: ChartSelection | null;
+  stacked: boolean;
+  chartWidth: number;
+  chartHeight: number;
+  /** Renders the chart's current view to a data URL */
+  toImage: (options: ChartImageOptions) => Promise<string>;
+}) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [scope, setScope] = useState<ExportScope>("all");
+  const [imageFormat, setImageFormat] = useState<ChartImageOptions["format"]>("png");
+  const [imageWidth, setImageWidth] = useState<number | null>(null);
+  const [imageHeight, setImageHeight] = useState<number | null>(null);
+  const [scale, setScale] = useState(2);
+
+  const effectiveScope = scope === "selection" && !selection ? "all" : scope;
+
+  const exportData = () => {
+    let filter: RowFilter | null = null;
+    if (effectiveScope === "visible") filter = xRangeRowFilter(data, xRange);
+    else if (effectiveScope === "selection" && selection) {
+      // A row is exported when any series has its point inside the selection
+      filter = unionRowFilter(
+        data.series.map((_, k) => selectionRowFilter(data, selection, k, stacked))
+      ) ?? { start: 0, end: 0 };
+    }
+    const text = exportSequence(data, format, filter ?? undefined);
+    downloadBlob(
+      new Blob([text], { type: exportMimeTypes[format] }),
+      exportName(fileName, format)
+    );
+  };
+
+  const exportImage = () => {
+    toImage({
+      format: imageFormat,
+      width: imageWidth ?? chartWidth,
+      height: imageHeight ?? chartHeight,
+      scale: imageFormat === "png" ? scale : 1,
+    })
+      .then((url) => downloadBlob(url, exportName(fileName, imageFormat)))
+      .catch((err) => {
+        console.error(err);
+        alert(err?.message || "Error exporting the chart");
+      });
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "8px",
+        padding: "4px 8px",
+      }}
+    >
+      <div style={{ fontWeight: "bold" }}>Export</div>
+      <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+        <span style={{ minWidth: "48px" }}>Data</span>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        >
+          <option value="csv">CSV</option>
+          <option value="tsv">TSV</option>
+          <option value="json">JSON</option>
+        </select>
+        <select
+          value={effectiveScope}
+          onChange={(e) => setScope(e.target.value as ExportScope)}
+        >
+          <option value="all">Whole sequence</option>
+          <option value="visible">Visible range</option>
+          <option value="selection" disabled={!selection}>
+            Box/Lasso selection
+          </option>
+        </select>
+        <button onClick={exportData}>Download</button>
+      </div>
+      <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+        <span style={{ minWidth: "48px" }}>Chart</span>
+        <select
+          value={imageFormat}
+          onChange={(e) =>
+            setImageFormat(e.target.value as ChartImageOptions["format"])
+          }
+        >
+          <option value="png">PNG</option>
+          <option value="svg">SVG</option>
+        </select>
+        <input
+          type="number"
+          min={100}
+          value={imageWidth ?? Math.round(chartWidth)}
+          style={{ width: "72px" }}
+          onChange={(e) => setImageWidth(Number(e.target.value) || null)}
+        />
+        ×
+        <input
+          type="number"
+          min={100}
+          value={imageHeight ?? Math.round(chartHeight)}
+          style={{ width: "72px" }}
+          onChange={(e) => setImageHeight(Number(e.target.value) || null)}
+        />
+        px
+        {imageFormat === "png" && (
+          <select
+            value={scale}
+            title="Pixel density"
+            onChange={(e) => setScale(Number(e.target.value))}
+          >
+            <option value={1}>1×</option>
+            <option value={2}>2×</option>
+            <option value={3}>3×</option>
+            <option value={4}>4×</option>
+          </select>
+        )}
+        <button onClick={exportImage}>Download</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,355 @@
+import { useMemo, useState } from "react";
+import formatNumber from "../utils/formatNumber";
+import { previewImport, type TextHead } from "../utils/importPreview";
+import type {
+  InputFormat,
+  InputLayout,
+  ParseOptions,
+  XFormat,
+} from "../utils/parseDataText";
+import { formatTimestamp } from "../utils/timestamps";
+import type { Delimiter } from "../utils/tokenizeDelimitedText";
+
+// Source lines and parsed rows shown in the preview
+const SHOWN_LINES = 12;
+const SHOWN_ROWS = 20;
+
+const delimiterNames: Record<Delimiter, string> = {
+  ",": "Comma",
+  "\t": "Tab",
+  ";": "Semicolon",
+  "|": "Pipe",
+};
+
+const rowStyle = { display: "flex", gap: "8px", alignItems: "center" } as const;
+const labelStyle = { minWidth: "110px" } as const;
+const cellStyle = {
+  padding: "2px 8px",
+  textAlign: "right",
+  whiteSpace: "nowrap",
+} as const;
+
+// One line summary of what the parser found
+function describeLayout(layout: InputLayout): string {
+  const format =
+    layout.format === "json"
+      ? "JSON array"
+      : layout.format === "ndjson"
+        ? "NDJSON"
+        : layout.delimiter
+          ? `${delimiterNames[layout.delimiter]}-separated`
+          : "One value per line";
+  const x =
+    layout.xColumn === null
+      ? "X = row number"
+      : `X = "${layout.columnNames[layout.xColumn]}"${
+          layout.xKind ? ` (${layout.xKind === "date" ? "dates" : "numbers"})` : ""
+        }`;
+  const series = `${layout.yColumns.length} series`;
+  return [format, layout.hasHeader ? "header row" : "no header", x, series].join(" · ");
+}
+
+/**
+ * Shows the start of a text file with what the parser detects, lets every guess be
+ * overridden, and previews the parsed rows before the file is loaded.
+ */
+export default function ImportDialog({
+  fileName,
+  head,
+  initial,
+  onLoad,
+  onCancel,
+}: {
+  fileName: string;
+  head: TextHead;
+  initial: ParseOptions;
+  onLoad: (options: ParseOptions) => void;
+  onCancel: () => void;
+}) {
+  const [options, setOptions] = useState(initial);
+  const update = (patch: Partial<ParseOptions>) => setOptions({ ...options, ...patch });
+
+  const preview = useMemo(() => previewImport(head, options), [head, options]);
+  const { layout, data } = preview;
+  const lines = useMemo(
+    () => head.text.split(/\r\n|\r|\n/).slice(0, SHOWN_LINES),
+    [head]
+  );
+  const columnNames = layout?.columnNames ?? [];
+  const isJson = layout ? layout.format !== "delimited" : false;
+  const xValue = options.xColumn ?? "auto";
+
+  const toggleY = (column: number, on: boolean) => {
+    const current = layout?.yColumns ?? [];
+    const yColumns = on
+      ? [...current, column].sort((a, b) => a - b)
+      : current.filter((c) => c !== column);
+    if (yColumns.length > 0) update({ yColumns });
+  };
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        background: "rgba(255, 255, 255, 0.7)",
+        zIndex: 10,
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "8px",
+          width: "min(960px, 90vw)",
+          maxHeight: "90vh",
+          overflow: "auto",
+          padding: "16px",
+          background: "white",
+          border: "1px solid #ccc",
+          borderRadius: "4px",
+        }}
+      >
+        <div style={{ fontWeight: "bold" }}>Import: {fileName}</div>
+        <div style={{ display: "flex", gap: "24px", flexWrap: "wrap" }}>
+          <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+            <label style={rowStyle}>
+              <span style={labelStyle}>Format</span>
+              <select
+                value={options.format ?? "auto"}
+                onChange={(e) => update({ format: e.target.value as InputFormat })}
+              >
+                <option value="auto">Auto</option>
+                <option value="delimited">CSV/TSV</option>
+                <option value="json">JSON array</option>
+                <option value="ndjson">NDJSON</option>
+              </select>
+            </label>
+            <label style={rowStyle}>
+              <span style={labelStyle}>Delimiter</span>
+              <select
+                value={options.delimiter ?? "auto"}
+                disabled={isJson}
+                onChange={(e) =>
+                  update({ delimiter: e.target.value as ParseOptions["delimiter"] })
+                }
+              >
+                <option value="auto">Auto</option>
+                {Object.entries(delimiterNames).map(([d, name]) => (
+                  <option key={d} value={d}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={rowStyle}>
+              <span style={labelStyle}>Header row</span>
+              <select
+                value={options.header ?? "auto"}
+                onChange={(e) => update({ header: e.target.value as ParseOptions["header"] })}
+              >
+                <option value="auto">Auto</option>
+                <option value="yes">Yes</option>
+                <option value="no">No</option>
+              </select>
+            </label>
+            <label style={rowStyle}>
+              <span style={labelStyle}>Skip lines</span>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={options.skipLines ?? 0}
+                style={{ width: "72px" }}
+                onChange={(e) =>
+                  update({ skipLines: Math.max(0, Math.floor(Number(e.target.value) || 0)) })
+                }
+              />
+            </label>
+            <label style={rowStyle} title="Lines starting with this are ignored">
+              <span style={labelStyle}>Comment prefix</span>
+              <input
+                value={options.commentPrefix ?? ""}
+                placeholder="none"
+                style={{ width: "72px" }}
+                onChange={(e) => update({ commentPrefix: e.target.value || undefined })}
+              />
+            </label>
+          </div>
+          <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+            <label style={rowStyle}>
+              <span style={labelStyle}>X column</span>
+              <select
+                value={String(xValue)}
+                onChange={(e) => {
+                  const v = e.target.value;
+                  // Other columns become the series again
+                  update({
+                    xColumn: v === "auto" ? undefined : v === "index" ? "index" : Number(v),
+                    yColumns: undefined,
+                  });
+                }}
+              >
+                <option value="auto">Auto</option>
+                <option value="index">Row number</option>
+                {columnNames.map((name, c) => (
+                  <option key={c} value={c}>
+                    {name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={rowStyle}>
+              <span style={labelStyle}>X values</span>
+              <select
+                value={options.xFormat ?? "auto"}
+                disabled={layout?.xColumn === null}
+                onChange={(e) => update({ xFormat: e.target.value as XFormat })}
+              >
+                <option value="auto">Auto</option>
+                <option value="number">Numbers</option>
+                <option value="iso">ISO dates</option>
+                <option value="epochSeconds">Unix seconds</option>
+                <option value="epochMillis">Unix milliseconds</option>
+                <option value="pattern">Custom format</option>
+              </select>
+            </label>
+            {options.xFormat === "pattern" && (
+              <label style={rowStyle}>
+                <span style={labelStyle}>Date format</span>
+                <input
+                  value={options.xPattern ?? ""}
+                  placeholder="MM/DD/YYYY HH:mm:ss"
+                  title="Tokens: YYYY YY MMM MM M DD D HH H hh h mm m ss s SSS A Z; [text] is literal"
+                  style={{ width: "160px" }}
+                  onChange={(e) => update({ xPattern: e.target.value })}
+                />
+              </label>
+            )}
+            <label style={rowStyle}>
+              <span style={labelStyle}>Decimal separator</span>
+              <select
+                value={options.decimalSeparator ?? "auto"}
+                onChange={(e) =>
+                  update({
+                    decimalSeparator: e.target.value as ParseOptions["decimalSeparator"],
+                  })
+                }
+              >
+                <option value="auto">Auto</option>
+                <option value=".">Dot (1.5)</option>
+                <option value=",">Comma (1,5)</option>
+              </select>
+            </label>
+            <label style={rowStyle}>
+              <input
+                type="checkbox"
+                checked={options.allowMissing ?? false}
+                onChange={(e) => update({ allowMissing: e.target.checked })}
+              />
+              Allow missing values
+            </label>
+          </div>
+          {layout && columnNames.length > 1 && (
+            <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+              <span>Y columns</span>
+              {columnNames.map((name, c) =>
+                c === layout.xColumn ? null : (
+                  <label key={c} style={rowStyle}>
+                    <input
+                      type="checkbox"
+                      checked={layout.yColumns.includes(c)}
+                      onChange={(e) => toggleY(c, e.target.checked)}
+                    />
+                    {name}
+                  </label>
+                )
+              )}
+            </div>
+          )}
+        </div>
+
+        <div style={{ color: "#666" }}>
+          {layout ? `Detected: ${describeLayout(layout)}` : "Nothing detected yet"}
+        </div>
+        {preview.error && <div style={{ color: "#d62728" }}>{preview.error}</div>}
+        {preview.skipped > 0 && (
+          <div style={{ color: "#8a6d00" }}>
+            {preview.skipped} row{preview.skipped === 1 ? "" : "s"} of the preview would
+            fail to parse
+            {preview.firstProblem && `, e.g. ${preview.firstProblem}`}
+          </div>
+        )}
+
+        <div style={{ fontWeight: "bold" }}>File start</div>
+        <pre
+          style={{
+            margin: 0,
+            padding: "4px",
+            background: "#f7f7f7",
+            fontSize: "12px",
+            overflowX: "auto",
+          }}
+        >
+          {lines.map((text, i) => (
+            <div key={i}>
+              <span style={{ color: "#999", userSelect: "none" }}>
+                {String(i + 1).padStart(3)}{" "}
+              </span>
+              {text}
+            </div>
+          ))}
+        </pre>
+
+        {data && (
+          <>
+            <div style={{ fontWeight: "bold" }}>
+              Preview{head.complete ? "" : " (start of the file)"}
+            </div>
+            <table style={{ borderCollapse: "collapse", fontSize: "13px" }}>
+              <thead>
+                <tr style={{ background: "#f0f0f0" }}>
+                  <th style={cellStyle}>{data.timeAxisName}</th>
+                  {data.series.map((s, k) => (
+                    <th key={k} style={cellStyle}>
+                      {s.name}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {Array.from(
+                  { length: Math.min(SHOWN_ROWS, data.xValues.length) },
+                  (_, row) => (
+                    <tr key={row}>
+                      <td style={cellStyle}>
+                        {data.xKind === "date"
+                          ? formatTimestamp(data.xValues[row])
+                          : formatNumber(data.xValues[row])}
+                      </td>
+                      {data.series.map((s, k) => (
+                        <td key={k} style={cellStyle}>
+                          {formatNumber(s.values[row])}
+                        </td>
+                      ))}
+                    </tr>
+                  )
+                )}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        <div style={{ display: "flex", gap: "8px", justifyContent: "flex-end" }}>
+          <button onClick={onCancel}>Cancel</button>
+          <button disabled={!data} onClick={() => onLoad(options)}>
+            Load
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useRef, type CSSProperties } from "react";
+import { parseXInput } from "../utils/alignDatasets";
+import downloadBlob from "../utils/downloadBlob";
+import type { SequenceData, XKind } from "../utils/parseDataText";
+import {
+  exportLabels,
+  importLabels,
+  newLabelClass,
+  snapLabel,
+  type LabelClass,
+  type RangeLabel,
+} from "../utils/rangeLabels";
+
+// Rendering more rows than this stalls the dock
+const MAX_LISTED_LABELS = 1000;
+
+const cellStyle: CSSProperties = {
+  padding: "2px 8px",
+  textAlign: "right",
+  whiteSpace: "nowrap",
+};
+
+const formatX = (x: number, xKind: XKind) =>
+  xKind === "date" ? new Date(x).toISOString() : String(x);
+
+// An X value typed as text; unreadable input falls back to the current value on blur
+function XField({
+  value,
+  xKind,
+  onChange,
+}: {
+  value: number;
+  xKind: XKind;
+  onChange: (value: number) => void;
+}) {
+  const text = formatX(value, xKind);
+  return (
+    <input
+      // Remounts when the value changes elsewhere, e.g. by snapping
+      key={text}
+      defaultValue={text}
+      style={{ width: xKind === "date" ? "190px" : "90px" }}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+      onBlur={(e) => {
+        const next = parseXInput(e.target.value, xKind);
+        if (Number.isFinite(next) && next !== value) onChange(next);
+        else e.target.value = text;
+      }}
+    />
+  );
+}
+
+/**
+ * Label classes and the labeled X ranges of the sequence: label mode, editing, snapping
+ * to samples, and CSV/JSON export and import keyed by X value.
+ */
+export default function LabelsPanel({
+  data,
+  fileName,
+  classes,
+  labels,
+  activeClassId,
+  selectedLabelId,
+  labelMode,
+  snap,
+  xAscending,
+  onClassesChange,
+  onLabelsChange,
+  onActiveClassChange,
+  onLabelClick,
+  onLabelModeChange,
+  onSnapChange,
+}: {
+  data: SequenceData;
+  fileName: string | null;
+  classes: LabelClass[];
+  labels: RangeLabel[];
+  /** Class given to ranges drawn on the chart */
+  activeClassId: string | null;
+  selectedLabelId: string | null;
+  labelMode: boolean;
+  /** Move the ends of drawn ranges onto the nearest samples */
+  snap: boolean;
+  xAscending: boolean;
+  onClassesChange: (classes: LabelClass[]) => void;
+  onLabelsChange: (labels: RangeLabel[]) => void;
+  onActiveClassChange: (id: string) => void;
+  onLabelClick: (label: RangeLabel) => void;
+  onLabelModeChange: (on: boolean) => void;
+  onSnapChange: (on: boolean) => void;
+}) {
+  const importRef = useRef<HTMLInputElement>(null);
+  const xKind = data.xKind;
+  const sorted = [...labels].sort((a, b) => a.x0 - b.x0 || a.x1 - b.x1);
+
+  const updateClass = (id: string, patch: Partial<LabelClass>) =>
+    onClassesChange(classes.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+
+  const removeClass = (cls: LabelClass) => {
+    const used = labels.filter((l) => l.classId === cls.id).length;
+    if (used > 0 && !confirm(`Delete "${cls.name}" and its ${used} label(s)?`)) return;
+    onClassesChange(classes.filter((c) => c.id !== cls.id));
+    if (used > 0) onLabelsChange(labels.filter((l) => l.classId !== cls.id));
+  };
+
+  const updateLabel = (id: string, patch: Partial<RangeLabel>) =>
+    onLabelsChange(
+      labels.map((l) => {
+        if (l.id !== id) return l;
+        const next = { ...l, ...patch };
+        return { ...next, x0: Math.min(next.x0, next.x1), x1: Math.max(next.x0, next.x1) };
+      })
+    );
+
+  const snapAll = (only?: string) =>
+    onLabelsChange(
+      labels.map((l) =>
+        only === undefined || l.id === only ? snapLabel(l, data.xValues, xAscending) : l
+      )
+    );
+
+  const download = (format: "csv" | "json") => {
+    const base = (fileName ?? "sequence").replace(/\.[^.]*$/, "");
+    downloadBlob(
+      new Blob([exportLabels(labels, classes, xKind, format)], {
+        type: format === "csv" ? "text/csv" : "application/json",
+      }),
+      `${base}-labels.${format}`
+    );
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const result = importLabels(await file.text(), xKind, classes);
+      if (labels.length > 0 && !confirm(`Replace the ${labels.length} current label(s)?`)) {
+        return;
+      }
+      onClassesChange(result.classes);
+      onLabelsChange(result.labels);
+    } catch (err) {
+      alert(`${file.name}: ${err instanceof Error ? err.message : "Could not read labels"}`);
+    }
+  };
+
+  return (
+    <div style={{ padding: "4px 8px", display: "flex", gap: "24px", alignItems: "flex-start" }}>
+      <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+        <div style={{ fontWeight: "bold" }}>Labeling</div>
+        <label title="Drag across the chart to label a range; click a range to select it">
+          <input
+            type="checkbox"
+            checked={labelMode}
+            onChange={(e) => onLabelModeChange(e.target.checked)}
+          />{" "}
+          Label mode
+        </label>
+        <label>
+          <input
+            type="checkbox"
+            checked={snap}
+            onChange={(e) => onSnapChange(e.target.checked)}
+          />{" "}
+          Snap new ranges to samples
+        </label>
+        <div style={{ fontWeight: "bold", marginTop: "8px" }}>Classes</div>
+        {classes.map((c) => (
+          <div key={c.id} style={{ display: "flex", gap: "4px", alignItems: "center" }}>
+            <input
+              type="radio"
+              name="activeLabelClass"
+              title="Label drawn ranges with this class"
+              checked={c.id === activeClassId}
+              onChange={() => onActiveClassChange(c.id)}
+            />
+            <input
+              type="color"
+              value={c.color}
+              onChange={(e) => updateClass(c.id, { color: e.target.value })}
+            />
+            <input
+              value={c.name}
+              style={{ width: "120px" }}
+              onChange={(e) => updateClass(c.id, { name: e.target.value })}
+            />
+            <button title="Delete class" onClick={() => removeClass(c)}>
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          style={{ alignSelf: "flex-start" }}
+          onClick={() => {
+            const cls = newLabelClass(`Class ${classes.length + 1}`, classes);
+            onClassesChange([...classes, cls]);
+            onActiveClassChange(cls.id);
+          }}
+        >
+          Add class
+        </button>
+      </div>
+      <div>
+        <div style={{ display: "flex", gap: "8px", alignItems: "center", marginBottom: "4px" }}>
+          <span style={{ fontWeight: "bold" }}>
+            {labels.length.toLocaleString()} label{labels.length === 1 ? "" : "s"}
+          </span>
+          <button disabled={labels.length === 0} onClick={() => snapAll()}>
+            Snap all to samples
+          </button>
+          <button disabled={labels.length === 0} onClick={() => download("csv")}>
+            Export CSV
+          </button>
+          <button disabled={labels.length === 0} onClick={() => download("json")}>
+            Export JSON
+          </button>
+          <button onClick={() => importRef.current?.click()}>Import…</button>
+          <input
+            ref={importRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) importFile(file);
+            }}
+          />
+        </div>
+        {labels.length > 0 && (
+          <table style={{ borderCollapse: "collapse", fontSize: "13px" }}>
+            <thead>
+              <tr style={{ background: "#f0f0f0" }}>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Class</th>
+                <th style={cellStyle}>Start</th>
+                <th style={cellStyle}>End</th>
+                <th style={cellStyle} />
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.slice(0, MAX_LISTED_LABELS).map((l) => (
+                <tr
+                  key={l.id}
+                  style={{
+                    cursor: "pointer",
+                    background: l.id === selectedLabelId ? "#cfe2ff" : undefined,
+                  }}
+                  onClick={() => onLabelClick(l)}
+                >
+                  <td style={{ ...cellStyle, textAlign: "left" }}>
+                    <select
+                      value={l.classId}
+                      onClick={(e) => e.stopPropagation()}
+                      onChange={(e) => updateLabel(l.id, { classId: e.target.value })}
+                    >
+                      {classes.map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.name}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td style={cellStyle}>
+                    <XField
+                      value={l.x0}
+                      xKind={xKind}
+                      onChange={(x0) => updateLabel(l.id, { x0 })}
+                    />
+                  </td>
+                  <td style={cellStyle}>
+                    <XField
+                      value={l.x1}
+                      xKind={xKind}
+                      onChange={(x1) => updateLabel(l.id, { x1 })}
+                    />
+                  </td>
+                  <td style={cellStyle}>
+                    <button
+                      title="Move both ends onto the nearest samples"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        snapAll(l.id);
+                      }}
+                    >
+                      Snap
+                    </button>{" "}
+                    <button
+                      title="Delete label"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onLabelsChange(labels.filter((x) => x.id !== l.id));
+                      }}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {labels.length > MAX_LISTED_LABELS && (
+          <div style={{ color: "#666" }}>
+            First {MAX_LISTED_LABELS.toLocaleString()} listed
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState, type CSSProperties } from "react";
+import type { LiveStatus } from "../hooks/useLiveTail";
+import type { XKind } from "../utils/parseDataText";
+
+const stateStyles: Record<LiveStatus["state"], CSSProperties> = {
+  following: { color: "#2ca02c" },
+  paused: { color: "#8a6d00" },
+  stopped: { color: "#666" },
+  failed: { color: "#d62728" },
+};
+
+const stateLabels: Record<LiveStatus["state"], string> = {
+  following: "Following",
+  paused: "Paused",
+  stopped: "Stopped",
+  failed: "Failed",
+};
+
+/**
+ * Live mode: follow a file that keeps growing or a local WebSocket/SSE feed, with the
+ * rolling window the chart scrolls in and pause/resume.
+ */
+export default function LivePanel({
+  status,
+  canFollowFiles,
+  xKind,
+  windowWidth,
+  onWindowWidthChange,
+  onFollowFile,
+  onConnect,
+  onPause,
+  onResume,
+  onStop,
+}: {
+  status: LiveStatus | null;
+  /** The browser has the File System Access API */
+  canFollowFiles: boolean;
+  /** X kind of the shown sequence, for the window unit; null before any data */
+  xKind: XKind | null;
+  /** Rolling window width, in seconds on date axes */
+  windowWidth: number;
+  onWindowWidthChange: (width: number) => void;
+  onFollowFile: () => void;
+  onConnect: (url: string) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+}) {
+  const [url, setUrl] = useState("http://localhost:8787/");
+  const active = status?.state === "following" || status?.state === "paused";
+
+  return (
+    <div
+      style={{ padding: "4px 8px", display: "flex", flexDirection: "column", gap: "4px" }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div style={{ display: "flex", gap: "8px", alignItems: "center", flexWrap: "wrap" }}>
+        <span style={{ fontWeight: "bold" }}>Live</span>
+        <button
+          disabled={!canFollowFiles}
+          title={
+            canFollowFiles
+              ? "Open a text file and keep reading the lines appended to it"
+              : "Needs the File System Access API (Chrome, Edge)"
+          }
+          onClick={onFollowFile}
+        >
+          Follow a file…
+        </button>
+        <span>or</span>
+        <input
+          value={url}
+          placeholder="ws://… or http://… (Server-Sent Events)"
+          style={{ width: "220px" }}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && url.trim()) onConnect(url.trim());
+          }}
+        />
+        <button disabled={!url.trim()} onClick={() => onConnect(url.trim())}>
+          Connect
+        </button>
+      </div>
+      <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+        <label title="Width of the X range the chart scrolls along with while following">
+          Window{" "}
+          <input
+            type="number"
+            min={0}
+            value={windowWidth}
+            style={{ width: "80px" }}
+            onChange={(e) => {
+              const width = Number(e.target.value);
+              if (width > 0) onWindowWidthChange(width);
+            }}
+          />
+          {xKind === "date" ? " s" : xKind ? " X units" : " (s for dates, X units otherwise)"}
+        </label>
+        {status?.state === "following" && <button onClick={onPause}>Pause</button>}
+        {status?.state === "paused" && <button onClick={onResume}>Resume</button>}
+        {active && <button onClick={onStop}>Stop</button>}
+      </div>
+      {status && (
+        <div style={{ display: "flex", flexDirection: "column", gap: "2px" }}>
+          <span>
+            <span style={stateStyles[status.state]}>{stateLabels[status.state]}</span>{" "}
+            {status.source}
+          </span>
+          <span style={{ color: "#666" }}>
+            {status.rows.toLocaleString()} row{status.rows === 1 ? "" : "s"} added
+            {status.held > 0 && `, ${status.held.toLocaleString()} held until resumed`}
+            {status.updatedAt !== null &&
+              ` · last at ${new Date(status.updatedAt).toLocaleTimeString()}`}
+          </span>
+          {status.skipped > 0 && (
+            <span style={{ color: "#8a6d00" }} title={status.lastProblem ?? undefined}>
+              {status.skipped.toLocaleString()} invalid row
+              {status.skipped === 1 ? "" : "s"} skipped
+              {status.lastProblem && ` (last: ${status.lastProblem})`}
+            </span>
+          )}
+          {status.error && <span style={{ color: "#d62728" }}>{status.error}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
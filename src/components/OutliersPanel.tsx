@@ -0,0 +1,297 @@
+import { type CSSProperties } from "react";
+import downloadBlob from "../utils/downloadBlob";
+import formatNumber from "../utils/formatNumber";
+import {
+  adjacentOutlierRow,
+  defaultDetectors,
+  exportOutliers,
+  MAX_HAMPEL_WINDOW,
+  type Outlier,
+  type OutlierDetector,
+  type OutlierMethod,
+} from "../utils/outliers";
+import type { SequenceData } from "../utils/parseDataText";
+
+// Rendering more rows than this stalls the dock; navigation still covers every point
+const MAX_LISTED_OUTLIERS = 1000;
+
+const methods: { id: OutlierMethod; label: string; title: string }[] = [
+  { id: "zscore", label: "Z-score", title: "Distance from the series mean in standard deviations" },
+  {
+    id: "hampel",
+    label: "Hampel (rolling MAD)",
+    title: "Distance from the rolling median in scaled median absolute deviations",
+  },
+  { id: "iqr", label: "IQR fences", title: "Outside Q1 − k·IQR … Q3 + k·IQR" },
+  {
+    id: "step",
+    label: "Steps / spikes",
+    title: "Jumps between consecutive points, against the typical jump size",
+  },
+];
+
+const cellStyle: CSSProperties = {
+  padding: "2px 8px",
+  textAlign: "right",
+  whiteSpace: "nowrap",
+};
+
+function NumberField({
+  label,
+  title,
+  value,
+  min,
+  step,
+  onChange,
+}: {
+  label: string;
+  title?: string;
+  value: number;
+  min: number;
+  step: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label title={title}>
+      {label}{" "}
+      <input
+        type="number"
+        min={min}
+        step={step}
+        value={value}
+        style={{ width: "72px" }}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          if (Number.isFinite(next) && next >= min) onChange(next);
+        }}
+      />
+    </label>
+  );
+}
+
+/**
+ * Outlier detector settings, the flagged points with previous/next navigation, and export
+ * of their row indices.
+ */
+export default function OutliersPanel({
+  data,
+  fileName,
+  detector,
+  series,
+  outliers,
+  rows,
+  currentRow,
+  onDetectorChange,
+  onSeriesChange,
+  onGoTo,
+}: {
+  data: SequenceData;
+  fileName: string | null;
+  /** null = detection off */
+  detector: OutlierDetector | null;
+  /** Series scanned; null = all */
+  series: number | null;
+  outliers: Outlier[];
+  /** Distinct flagged rows, ascending */
+  rows: number[];
+  /** Row navigation starts from (the selected row) */
+  currentRow: number | null;
+  onDetectorChange: (detector: OutlierDetector | null) => void;
+  onSeriesChange: (series: number | null) => void;
+  onGoTo: (row: number) => void;
+}) {
+  const isDate = data.xKind === "date";
+  const formatX = (row: number) =>
+    isDate ? new Date(data.xValues[row]).toISOString() : formatNumber(data.xValues[row]);
+
+  const go = (step: 1 | -1) => {
+    const row = adjacentOutlierRow(rows, currentRow, step);
+    if (row !== null) onGoTo(row);
+  };
+
+  const download = (format: "csv" | "json") => {
+    const base = (fileName ?? "sequence").replace(/\.[^.]*$/, "");
+    downloadBlob(
+      new Blob([exportOutliers(data, outliers, format)], {
+        type: format === "csv" ? "text/csv" : "application/json",
+      }),
+      `${base}-outliers.${format}`
+    );
+  };
+
+  // Position of the current row among the flagged ones, for the "n of N" readout
+  const position = currentRow === null ? -1 : rows.indexOf(currentRow);
+
+  return (
+    <div style={{ padding: "4px 8px", display: "flex", gap: "24px" }}>
+      <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+        <div style={{ fontWeight: "bold" }}>Outlier detection</div>
+        <label>
+          Method{" "}
+          <select
+            value={detector?.method ?? "off"}
+            onChange={(e) =>
+              onDetectorChange(
+                e.target.value === "off"
+                  ? null
+                  : defaultDetectors[e.target.value as OutlierMethod]
+              )
+            }
+          >
+            <option value="off">Off</option>
+            {methods.map(({ id, label, title }) => (
+              <option key={id} value={id} title={title}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {data.series.length > 1 && (
+          <label>
+            Series{" "}
+            <select
+              value={series ?? "all"}
+              onChange={(e) =>
+                onSeriesChange(e.target.value === "all" ? null : Number(e.target.value))
+              }
+            >
+              <option value="all">All</option>
+              {data.series.map((s, k) => (
+                <option key={k} value={k}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        {detector?.method === "zscore" && (
+          <NumberField
+            label="Threshold (σ)"
+            value={detector.threshold}
+            min={0}
+            step={0.5}
+            onChange={(threshold) => onDetectorChange({ ...detector, threshold })}
+          />
+        )}
+        {detector?.method === "hampel" && (
+          <>
+            <NumberField
+              label="Half-window (points)"
+              title={`Points on each side of the tested one (at most ${MAX_HAMPEL_WINDOW})`}
+              value={detector.window}
+              min={1}
+              step={1}
+              onChange={(window) =>
+                onDetectorChange({
+                  ...detector,
+                  window: Math.min(MAX_HAMPEL_WINDOW, Math.round(window)),
+                })
+              }
+            />
+            <NumberField
+              label="Threshold (MADs)"
+              value={detector.threshold}
+              min={0}
+              step={0.5}
+              onChange={(threshold) => onDetectorChange({ ...detector, threshold })}
+            />
+          </>
+        )}
+        {detector?.method === "iqr" && (
+          <NumberField
+            label="Fence factor k"
+            title="1.5 flags mild outliers, 3 only extreme ones"
+            value={detector.k}
+            min={0}
+            step={0.5}
+            onChange={(k) => onDetectorChange({ ...detector, k })}
+          />
+        )}
+        {detector?.method === "step" && (
+          <NumberField
+            label="Threshold (jump MADs)"
+            title="How many times larger than a typical jump a jump must be"
+            value={detector.threshold}
+            min={0}
+            step={1}
+            onChange={(threshold) => onDetectorChange({ ...detector, threshold })}
+          />
+        )}
+      </div>
+      {detector && (
+        <div>
+          <div
+            style={{
+              display: "flex",
+              gap: "8px",
+              alignItems: "center",
+              marginBottom: "4px",
+            }}
+          >
+            <span style={{ fontWeight: "bold" }}>
+              {outliers.length.toLocaleString()} flagged point
+              {outliers.length === 1 ? "" : "s"}
+              {rows.length !== outliers.length &&
+                ` in ${rows.length.toLocaleString()} rows`}
+            </span>
+            <button disabled={rows.length === 0} onClick={() => go(-1)}>
+              ◀ Previous
+            </button>
+            <button disabled={rows.length === 0} onClick={() => go(1)}>
+              Next ▶
+            </button>
+            {position >= 0 && (
+              <span style={{ color: "#666" }}>
+                {(position + 1).toLocaleString()} of {rows.length.toLocaleString()}
+              </span>
+            )}
+            <button disabled={outliers.length === 0} onClick={() => download("csv")}>
+              Export CSV
+            </button>
+            <button disabled={outliers.length === 0} onClick={() => download("json")}>
+              Export JSON
+            </button>
+          </div>
+          {outliers.length > 0 && (
+            <table style={{ borderCollapse: "collapse", fontSize: "13px" }}>
+              <thead>
+                <tr style={{ background: "#f0f0f0" }}>
+                  <th style={cellStyle}>Row</th>
+                  <th style={cellStyle}>{data.timeAxisName}</th>
+                  <th style={{ ...cellStyle, textAlign: "left" }}>Series</th>
+                  <th style={cellStyle}>Value</th>
+                  <th style={cellStyle}>Score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {outliers.slice(0, MAX_LISTED_OUTLIERS).map((o) => (
+                  <tr
+                    key={`${o.row}-${o.series}`}
+                    style={{
+                      cursor: "pointer",
+                      background: o.row === currentRow ? "#cfe2ff" : undefined,
+                    }}
+                    onClick={() => onGoTo(o.row)}
+                  >
+                    <td style={cellStyle}>{o.row + 1}</td>
+                    <td style={cellStyle}>{formatX(o.row)}</td>
+                    <td style={{ ...cellStyle, textAlign: "left" }}>
+                      {data.series[o.series]?.name}
+                    </td>
+                    <td style={cellStyle}>{formatNumber(o.value)}</td>
+                    <td style={cellStyle}>{formatNumber(o.score)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {outliers.length > MAX_LISTED_OUTLIERS && (
+            <div style={{ color: "#666" }}>
+              First {MAX_LISTED_OUTLIERS.toLocaleString()} listed
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
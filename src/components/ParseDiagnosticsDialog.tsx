@@ -0,0 +1,174 @@
+import { useEffect, useState } from "react";
+import type { ParseDiagnostic } from "../utils/parseDiagnostics";
+import readSourceLines from "../utils/readSourceLines";
+
+// Lines shown above and below each problem
+const CONTEXT_LINES = 2;
+
+const severityColors: Record<ParseDiagnostic["severity"], string> = {
+  error: "#d62728",
+  warning: "#8a6d00",
+};
+
+/** One problem with its location and the surrounding source lines. */
+function DiagnosticEntry({
+  diagnostic,
+  sourceLines,
+}: {
+  diagnostic: ParseDiagnostic;
+  sourceLines: Map<number, string> | null;
+}) {
+  const { line, column } = diagnostic;
+  const context: [number, string][] = [];
+  if (line !== undefined && sourceLines) {
+    for (let l = line - CONTEXT_LINES; l <= line + CONTEXT_LINES; l++) {
+      const text = sourceLines.get(l);
+      if (text !== undefined) context.push([l, text]);
+    }
+  }
+  // Without the file (e.g. a restored session) only the row itself is known
+  if (context.length === 0 && diagnostic.raw !== undefined) {
+    context.push([line ?? 0, diagnostic.raw]);
+  }
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "4px",
+        paddingTop: "6px",
+        borderTop: "1px solid #eee",
+      }}
+    >
+      <div style={{ display: "flex", gap: "8px", alignItems: "baseline" }}>
+        <span style={{ color: severityColors[diagnostic.severity], fontWeight: "bold" }}>
+          {diagnostic.severity}
+        </span>
+        <code style={{ color: "#666" }}>{diagnostic.code}</code>
+        <span>{diagnostic.message}</span>
+        {line !== undefined && (
+          <span style={{ color: "#666", marginLeft: "auto", whiteSpace: "nowrap" }}>
+            line {line}
+            {column !== undefined && `, column ${column}`}
+          </span>
+        )}
+      </div>
+      {context.length > 0 && (
+        <pre
+          style={{
+            margin: 0,
+            padding: "4px",
+            background: "#f7f7f7",
+            overflowX: "auto",
+            fontSize: "12px",
+          }}
+        >
+          {context.map(([l, text]) => (
+            <div
+              key={l}
+              style={{ background: l === line ? "#fff3cd" : undefined }}
+            >
+              <span style={{ color: "#999", userSelect: "none" }}>
+                {String(l || "").padStart(6)}{" "}
+              </span>
+              {text}
+            </div>
+          ))}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The problems a parse ran into, each with its source lines. When every problem is a bad
+ * row (a warning), `onSkipRows` offers to load the file without those rows.
+ */
+export default function ParseDiagnosticsDialog({
+  fileName,
+  file,
+  diagnostics,
+  totalCount,
+  onSkipRows,
+  onClose,
+}: {
+  fileName: string;
+  /** Source of the context lines; without it only the offending rows are shown */
+  file: Blob | null;
+  diagnostics: ParseDiagnostic[];
+  /** Problems found in total; `diagnostics` may hold only the first ones */
+  totalCount: number;
+  onSkipRows?: () => void;
+  onClose: () => void;
+}) {
+  const [sourceLines, setSourceLines] = useState<Map<number, string> | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    const lines = diagnostics.flatMap((d) => (d.line !== undefined ? [d.line] : []));
+    readSourceLines(file, lines, CONTEXT_LINES)
+      .then((result) => {
+        if (!cancelled) setSourceLines(result);
+      })
+      .catch((err) => console.warn("Could not read source lines", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [file, diagnostics]);
+
+  // Only bad rows can be skipped; any error means the file cannot be read as it is
+  const canSkip = onSkipRows && diagnostics.every((d) => d.severity === "warning");
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        background: "rgba(255, 255, 255, 0.7)",
+        zIndex: 10,
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "8px",
+          width: "min(900px, 90vw)",
+          maxHeight: "80vh",
+          padding: "16px",
+          background: "white",
+          border: "1px solid #ccc",
+          borderRadius: "4px",
+        }}
+      >
+        <div style={{ fontWeight: "bold" }}>Problems in {fileName}</div>
+        <div>
+          {totalCount.toLocaleString()} problem{totalCount === 1 ? "" : "s"}
+          {totalCount > diagnostics.length &&
+            ` (showing the first ${diagnostics.length})`}
+          {canSkip &&
+            ". Each one is confined to a single row, so the file can be loaded without those rows."}
+        </div>
+        <div style={{ overflow: "auto", display: "flex", flexDirection: "column", gap: "6px" }}>
+          {diagnostics.map((d, i) => (
+            <DiagnosticEntry key={i} diagnostic={d} sourceLines={sourceLines} />
+          ))}
+        </div>
+        <div style={{ display: "flex", gap: "8px", justifyContent: "flex-end" }}>
+          {canSkip && (
+            <button onClick={onSkipRows}>
+              Skip {totalCount.toLocaleString()} row{totalCount === 1 ? "" : "s"} and
+              continue
+            </button>
+          )}
+          <button onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
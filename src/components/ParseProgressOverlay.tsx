@@ -0,0 +1,56 @@
+import type { ParseFileWorker } from "../hooks/useParseFileWorker";
+
+function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 ** 2) return `${(n / 1024).toFixed(1)} KB`;
+  if (n < 1024 ** 3) return `${(n / 1024 ** 2).toFixed(1)} MB`;
+  return `${(n / 1024 ** 3).toFixed(2)} GB`;
+}
+
+export default function ParseProgressOverlay({
+  progress,
+  onCancel,
+}: {
+  progress: NonNullable<ParseFileWorker["progress"]>;
+  onCancel: () => void;
+}) {
+  const fraction =
+    progress.totalBytes > 0 ? progress.bytesRead / progress.totalBytes : 0;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        background: "rgba(255, 255, 255, 0.7)",
+        zIndex: 10,
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "8px",
+          width: "360px",
+          padding: "16px",
+          background: "white",
+          border: "1px solid #ccc",
+          borderRadius: "4px",
+        }}
+      >
+        <div style={{ fontWeight: "bold" }}>Parsing {progress.fileName}</div>
+        <progress value={fraction} max={1} style={{ width: "100%" }} />
+        <div>
+          {formatBytes(progress.bytesRead)} / {formatBytes(progress.totalBytes)}{" "}
+          ({Math.round(fraction * 100)}%) · {progress.rows.toLocaleString()} rows
+        </div>
+        <button style={{ alignSelf: "flex-end" }} onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
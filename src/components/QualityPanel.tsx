@@ -0,0 +1,308 @@
+import { useState, type CSSProperties } from "react";
+import { formatDuration } from "../utils/chartCursor";
+import {
+  dedupeX,
+  resampleToGrid,
+  sortByX,
+  type DuplicateMerge,
+  type QualityOptions,
+  type QualityReport,
+  type ResampleMethod,
+} from "../utils/dataQuality";
+import formatNumber from "../utils/formatNumber";
+import type { SequenceData } from "../utils/parseDataText";
+
+// Rendering more rows than this stalls the dock
+const MAX_LISTED_ITEMS = 500;
+const HISTOGRAM_HEIGHT = 60;
+
+const cellStyle: CSSProperties = {
+  padding: "2px 8px",
+  textAlign: "right",
+  whiteSpace: "nowrap",
+};
+const sectionStyle: CSSProperties = { display: "flex", flexDirection: "column", gap: "4px" };
+const okStyle: CSSProperties = { color: "#2ca02c" };
+const warnStyle: CSSProperties = { color: "#8a6d00" };
+
+/**
+ * Sampling report of the loaded sequence (order, duplicate X, intervals, gaps, flatlines)
+ * with fixes that replace the sequence; clicking a listed problem selects its row.
+ */
+export default function QualityPanel({
+  data,
+  report,
+  options,
+  onOptionsChange,
+  onGoTo,
+  onFix,
+}: {
+  data: SequenceData;
+  report: QualityReport;
+  options: QualityOptions;
+  onOptionsChange: (options: QualityOptions) => void;
+  onGoTo: (row: number) => void;
+  /** Show the fixed sequence in place of `data` */
+  onFix: (fixed: SequenceData) => void;
+}) {
+  const [merge, setMerge] = useState<DuplicateMerge>("first");
+  const [method, setMethod] = useState<ResampleMethod>("linear");
+  // Empty: the dominant interval
+  const [stepText, setStepText] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const isDate = data.xKind === "date";
+  const xs = data.xValues;
+  const formatX = (x: number) => (isDate ? new Date(x).toISOString() : formatNumber(x));
+  const formatInterval = (d: number) => (isDate ? formatDuration(d) : formatNumber(d));
+  const { intervals } = report;
+  // Steps are typed in seconds on date axes
+  const stepUnit = isDate ? 1000 : 1;
+  const defaultStep = intervals ? intervals.dominant / stepUnit : NaN;
+  const step = stepText.trim() === "" ? defaultStep : Number(stepText);
+
+  const fix = (make: () => SequenceData) => {
+    try {
+      setError(null);
+      onFix(make());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const plural = (n: number, word: string) =>
+    `${n.toLocaleString()} ${word}${n === 1 ? "" : "s"}`;
+  const peak = intervals ? Math.max(1, ...intervals.histogram.map((b) => b.count)) : 1;
+
+  return (
+    <div style={{ padding: "4px 8px", display: "flex", gap: "24px", alignItems: "flex-start" }}>
+      <div style={sectionStyle}>
+        <div style={{ fontWeight: "bold" }}>Order</div>
+        {report.orderViolations.length === 0 ? (
+          <span style={okStyle}>X is in ascending order</span>
+        ) : (
+          <>
+            <span style={warnStyle}>
+              {plural(report.orderViolations.length, "row")} with X below the row before
+            </span>
+            <span>
+              First at{" "}
+              <button onClick={() => onGoTo(report.orderViolations[0])}>
+                row {report.orderViolations[0] + 1}
+              </button>
+            </span>
+            <button onClick={() => fix(() => sortByX(data))}>Sort by X</button>
+          </>
+        )}
+        <div style={{ fontWeight: "bold", marginTop: "8px" }}>Duplicate X</div>
+        {report.duplicateRows === 0 ? (
+          <span style={okStyle}>Every X is distinct</span>
+        ) : (
+          <>
+            <span style={warnStyle}>
+              {plural(report.duplicateRows, "extra row")} at{" "}
+              {plural(report.duplicateValues, "X value")}
+            </span>
+            <label>
+              Keep{" "}
+              <select
+                value={merge}
+                onChange={(e) => setMerge(e.target.value as DuplicateMerge)}
+              >
+                <option value="first">First row</option>
+                <option value="last">Last row</option>
+                <option value="mean">Mean of the rows</option>
+              </select>
+            </label>
+            <button onClick={() => fix(() => dedupeX(data, merge))}>Remove duplicates</button>
+          </>
+        )}
+      </div>
+
+      <div style={sectionStyle}>
+        <div style={{ fontWeight: "bold" }}>Sampling intervals</div>
+        {intervals ? (
+          <>
+            <span>
+              Dominant {formatInterval(intervals.dominant)} · median{" "}
+              {formatInterval(intervals.median)}
+            </span>
+            <span style={{ color: "#666" }}>
+              Shortest {formatInterval(intervals.min)} · longest{" "}
+              {formatInterval(intervals.max)}
+            </span>
+            <div
+              style={{
+                display: "flex",
+                alignItems: "flex-end",
+                gap: "1px",
+                height: `${HISTOGRAM_HEIGHT}px`,
+                borderBottom: "1px solid #ccc",
+              }}
+            >
+              {intervals.histogram.map((b, i) => (
+                <div
+                  key={i}
+                  title={`${formatInterval(b.from)} – ${formatInterval(b.to)}: ${b.count.toLocaleString()}`}
+                  style={{
+                    width: intervals.histogram.length === 1 ? "48px" : "8px",
+                    height: `${(b.count / peak) * HISTOGRAM_HEIGHT}px`,
+                    background: "#1f77b4",
+                  }}
+                />
+              ))}
+            </div>
+            {intervals.longer > 0 && (
+              <span style={{ color: "#666" }}>
+                {plural(intervals.longer, "longer interval")} (gaps) not shown
+              </span>
+            )}
+            <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+              <label>
+                Step{isDate ? " (s)" : ""}{" "}
+                <input
+                  type="number"
+                  min={0}
+                  value={stepText}
+                  placeholder={formatNumber(defaultStep)}
+                  style={{ width: "80px" }}
+                  onChange={(e) => setStepText(e.target.value)}
+                />
+              </label>
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value as ResampleMethod)}
+              >
+                <option value="linear">Linear</option>
+                <option value="previous">Previous value</option>
+                <option value="nearest">Nearest value</option>
+              </select>
+              <button
+                disabled={!(step > 0)}
+                onClick={() => fix(() => resampleToGrid(data, step * stepUnit, method))}
+              >
+                Resample
+              </button>
+            </div>
+          </>
+        ) : (
+          <span style={{ color: "#666" }}>Fewer than two distinct X values</span>
+        )}
+        {error && <span style={{ color: "#d62728" }}>{error}</span>}
+      </div>
+
+      <div style={sectionStyle}>
+        <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+          <span style={{ fontWeight: "bold" }}>Gaps</span>
+          <label title="Intervals longer than this many median intervals are gaps">
+            over{" "}
+            <input
+              type="number"
+              min={1}
+              step={0.5}
+              value={options.gapFactor}
+              style={{ width: "56px" }}
+              onChange={(e) => {
+                const gapFactor = Number(e.target.value);
+                if (gapFactor >= 1) onOptionsChange({ ...options, gapFactor });
+              }}
+            />
+            × median
+          </label>
+        </div>
+        {report.gaps.length === 0 ? (
+          <span style={okStyle}>No gaps</span>
+        ) : (
+          <>
+            <span style={warnStyle}>{plural(report.gaps.length, "gap")}</span>
+            <table style={{ borderCollapse: "collapse", fontSize: "13px" }}>
+              <thead>
+                <tr style={{ background: "#f0f0f0" }}>
+                  <th style={cellStyle}>From</th>
+                  <th style={cellStyle}>To</th>
+                  <th style={cellStyle}>Length</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.gaps.slice(0, MAX_LISTED_ITEMS).map((g) => (
+                  <tr key={g.row} style={{ cursor: "pointer" }} onClick={() => onGoTo(g.row)}>
+                    <td style={cellStyle}>{formatX(g.from)}</td>
+                    <td style={cellStyle}>{formatX(g.to)}</td>
+                    <td style={cellStyle}>{formatInterval(g.to - g.from)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.gaps.length > MAX_LISTED_ITEMS && (
+              <span style={{ color: "#666" }}>First {MAX_LISTED_ITEMS} listed</span>
+            )}
+          </>
+        )}
+      </div>
+
+      <div style={sectionStyle}>
+        <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+          <span style={{ fontWeight: "bold" }}>Flatlines</span>
+          <label title="Shortest run of one repeated value that is reported">
+            at least{" "}
+            <input
+              type="number"
+              min={2}
+              step={1}
+              value={options.minFlatRun}
+              style={{ width: "56px" }}
+              onChange={(e) => {
+                const minFlatRun = Math.round(Number(e.target.value));
+                if (minFlatRun >= 2) onOptionsChange({ ...options, minFlatRun });
+              }}
+            />
+            rows
+          </label>
+        </div>
+        {report.constantSeries.map((k) => (
+          <span key={k} style={warnStyle}>
+            {data.series[k].name} is constant
+          </span>
+        ))}
+        {report.flatRuns.length === 0 ? (
+          report.constantSeries.length === 0 && <span style={okStyle}>No flatlined runs</span>
+        ) : (
+          <>
+            <span style={warnStyle}>{plural(report.flatRuns.length, "flatlined run")}</span>
+            <table style={{ borderCollapse: "collapse", fontSize: "13px" }}>
+              <thead>
+                <tr style={{ background: "#f0f0f0" }}>
+                  <th style={{ ...cellStyle, textAlign: "left" }}>Series</th>
+                  <th style={cellStyle}>Rows</th>
+                  <th style={cellStyle}>Span</th>
+                  <th style={cellStyle}>Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.flatRuns.slice(0, MAX_LISTED_ITEMS).map((r) => (
+                  <tr
+                    key={`${r.series}-${r.start}`}
+                    style={{ cursor: "pointer" }}
+                    onClick={() => onGoTo(r.start)}
+                  >
+                    <td style={{ ...cellStyle, textAlign: "left" }}>
+                      {data.series[r.series].name}
+                    </td>
+                    <td style={cellStyle}>
+                      {r.start + 1}–{r.end + 1}
+                    </td>
+                    <td style={cellStyle}>{formatInterval(xs[r.end] - xs[r.start])}</td>
+                    <td style={cellStyle}>{formatNumber(r.value)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.flatRuns.length > MAX_LISTED_ITEMS && (
+              <span style={{ color: "#666" }}>First {MAX_LISTED_ITEMS} listed</span>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
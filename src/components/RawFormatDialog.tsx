@@ -0,0 +1,149 @@
+import { useState } from "react";
+import {
+  sampleTypeBytes,
+  type RawSampleFormat,
+  type SampleType,
+} from "../utils/decodeBinarySamples";
+
+const sampleTypes: { id: SampleType; label: string }[] = [
+  { id: "float32", label: "float32" },
+  { id: "float64", label: "float64" },
+  { id: "int16", label: "int16" },
+  { id: "int32", label: "int32" },
+  { id: "int8", label: "int8" },
+  { id: "uint8", label: "uint8" },
+];
+
+const rowStyle = { display: "flex", gap: "8px", alignItems: "center" } as const;
+const labelStyle = { minWidth: "120px" } as const;
+
+/** Asks how a raw binary dump is laid out before it is decoded. */
+export default function RawFormatDialog({
+  fileName,
+  fileSize,
+  initial,
+  onSubmit,
+  onCancel,
+}: {
+  fileName: string;
+  fileSize: number;
+  initial: RawSampleFormat;
+  onSubmit: (format: RawSampleFormat) => void;
+  onCancel: () => void;
+}) {
+  const [dtype, setDtype] = useState(initial.dtype);
+  const [littleEndian, setLittleEndian] = useState(initial.littleEndian);
+  const [channels, setChannels] = useState(initial.channels);
+  const [sampleRateText, setSampleRateText] = useState(
+    initial.sampleRate ? String(initial.sampleRate) : ""
+  );
+  const [byteOffset, setByteOffset] = useState(initial.byteOffset ?? 0);
+
+  const sampleRate = sampleRateText.trim() === "" ? undefined : Number(sampleRateText);
+  const valid =
+    Number.isInteger(channels) &&
+    channels >= 1 &&
+    Number.isInteger(byteOffset) &&
+    byteOffset >= 0 &&
+    (sampleRate === undefined || sampleRate > 0);
+  const frames = valid
+    ? Math.floor(Math.max(0, fileSize - byteOffset) / (sampleTypeBytes[dtype] * channels))
+    : 0;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        inset: 0,
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        background: "rgba(255, 255, 255, 0.7)",
+        zIndex: 10,
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          gap: "8px",
+          width: "360px",
+          padding: "16px",
+          background: "white",
+          border: "1px solid #ccc",
+          borderRadius: "4px",
+        }}
+      >
+        <div style={{ fontWeight: "bold" }}>Raw samples: {fileName}</div>
+        <label style={rowStyle}>
+          <span style={labelStyle}>Sample type</span>
+          <select value={dtype} onChange={(e) => setDtype(e.target.value as SampleType)}>
+            {sampleTypes.map(({ id, label }) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label style={rowStyle}>
+          <span style={labelStyle}>Byte order</span>
+          <select
+            value={littleEndian ? "little" : "big"}
+            disabled={sampleTypeBytes[dtype] === 1}
+            onChange={(e) => setLittleEndian(e.target.value === "little")}
+          >
+            <option value="little">Little-endian</option>
+            <option value="big">Big-endian</option>
+          </select>
+        </label>
+        <label style={rowStyle}>
+          <span style={labelStyle}>Channels</span>
+          <input
+            type="number"
+            min={1}
+            step={1}
+            value={channels}
+            style={{ width: "80px" }}
+            onChange={(e) => setChannels(Number(e.target.value))}
+          />
+        </label>
+        <label style={rowStyle} title="Leave empty to use the sample index as X">
+          <span style={labelStyle}>Sample rate (Hz)</span>
+          <input
+            type="number"
+            min={0}
+            value={sampleRateText}
+            placeholder="index"
+            style={{ width: "120px" }}
+            onChange={(e) => setSampleRateText(e.target.value)}
+          />
+        </label>
+        <label style={rowStyle} title="Bytes to skip before the first sample">
+          <span style={labelStyle}>Byte offset</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={byteOffset}
+            style={{ width: "120px" }}
+            onChange={(e) => setByteOffset(Number(e.target.value))}
+          />
+        </label>
+        <div style={{ color: "#666" }}>
+          {valid ? `${frames.toLocaleString()} samples per channel` : "Invalid settings"}
+        </div>
+        <div style={{ display: "flex", gap: "8px", justifyContent: "flex-end" }}>
+          <button onClick={onCancel}>Cancel</button>
+          <button
+            disabled={!valid || frames === 0}
+            onClick={() =>
+              onSubmit({ dtype, littleEndian, channels, sampleRate, byteOffset })
+            }
+          >
+            Load
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState, type CSSProperties } from "react";
+import {
+  deleteSession,
+  evictSessions,
+  listSessions,
+  SESSION_BUDGET_BYTES,
+  storageEstimate,
+  type SessionSummary,
+} from "../utils/sessionStore";
+
+const cellStyle: CSSProperties = {
+  padding: "2px 8px",
+  textAlign: "right",
+  whiteSpace: "nowrap",
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+}
+
+/**
+ * Sequences kept in IndexedDB: reopen one with a click, see how much space they take and
+ * remove them one by one or down to a size.
+ */
+export default function RecentFiles({
+  currentFile = null,
+  revision = 0,
+  onOpen,
+}: {
+  /** File name of the loaded sequence, marked in the list */
+  currentFile?: string | null;
+  /** Bump to reload the list after a session was saved elsewhere */
+  revision?: number;
+  onOpen: (fileName: string) => void;
+}) {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [estimate, setEstimate] = useState<{ usage: number; quota: number } | null>(
+    null
+  );
+  const [reloads, setReloads] = useState(0);
+  const reload = useCallback(() => setReloads((n) => n + 1), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listSessions(), storageEstimate()])
+      .then(([list, est]) => {
+        if (cancelled) return;
+        setSessions(list);
+        setEstimate(est);
+      })
+      .catch((err) => console.warn("Could not read saved sessions", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [revision, reloads]);
+
+  const remove = (fileName: string) =>
+    deleteSession(fileName)
+      .catch((err) => console.warn("Could not remove session", err))
+      .then(reload);
+
+  // Keep only the most recently opened sessions that fit in half the budget
+  const trim = () =>
+    evictSessions(SESSION_BUDGET_BYTES / 2, currentFile ?? undefined)
+      .catch((err) => console.warn("Could not evict sessions", err))
+      .then(reload);
+
+  const storedBytes = sessions.reduce((sum, s) => sum + s.bytes, 0);
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div
+      style={{ padding: "4px 8px", cursor: "default" }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div style={{ fontWeight: "bold", marginBottom: "4px" }}>Recent files</div>
+      <table style={{ borderCollapse: "collapse", fontSize: "13px" }}>
+        <thead>
+          <tr style={{ background: "#f0f0f0" }}>
+            <th style={{ ...cellStyle, textAlign: "left" }}>File</th>
+            <th style={cellStyle}>Rows</th>
+            <th style={cellStyle}>Series</th>
+            <th style={cellStyle}>Size</th>
+            <th style={cellStyle}>Last opened</th>
+            <th style={cellStyle} />
+          </tr>
+        </thead>
+        <tbody>
+          {sessions.map((s) => (
+            <tr key={s.fileName}>
+              <td style={{ ...cellStyle, textAlign: "left" }}>
+                {s.fileName === currentFile ? (
+                  <b>{s.fileName}</b>
+                ) : (
+                  <a
+                    href="#"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      onOpen(s.fileName);
+                    }}
+                  >
+                    {s.fileName}
+                  </a>
+                )}
+              </td>
+              <td style={cellStyle}>{s.rows.toLocaleString()}</td>
+              <td style={cellStyle}>{s.seriesCount}</td>
+              <td style={cellStyle}>{formatBytes(s.bytes)}</td>
+              <td style={cellStyle}>{new Date(s.openedAt).toLocaleString()}</td>
+              <td style={cellStyle}>
+                <button
+                  disabled={s.fileName === currentFile}
+                  onClick={() => remove(s.fileName)}
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div
+        style={{
+          display: "flex",
+          gap: "8px",
+          alignItems: "center",
+          marginTop: "4px",
+          fontSize: "13px",
+        }}
+      >
+        <span>
+          Sequences: {formatBytes(storedBytes)} of {formatBytes(SESSION_BUDGET_BYTES)}{" "}
+          (older ones are evicted automatically)
+          {estimate &&
+            ` · Site storage: ${formatBytes(estimate.usage)} of ${formatBytes(
+              estimate.quota
+            )}`}
+        </span>
+        <button onClick={trim}>Free up space</button>
+      </div>
+    </div>
+  );
+}
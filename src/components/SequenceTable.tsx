@@ -0,0 +1,318 @@
+import React, {
+  useCallback,
+  useImperativeHandle,
+  useRef,
+  useState,
+  type Ref,
+} from "react";
+import type { SequenceData } from "../utils/parseDataText";
+import { formatTimestamp, UTC } from "../utils/timestamps";
+
+export type SequenceTableHandle = {
+  /** Scroll so that data row `row` is at the top of the viewport or centered in it. */
+  scrollToRow: (row: number, align?: "start" | "center") => void;
+};
+
+// Cell being edited: `column` 0 is X, k + 1 is series k
+type CellEditor = {
+  row: number;
+  column: number;
+  text: string;
+  error: string | null;
+};
+
+const rowHeight = 30;
+const cellStyle: React.CSSProperties = {
+  flex: "1 0 96px",
+  padding: "4px",
+  overflow: "hidden",
+  textOverflow: "ellipsis",
+  whiteSpace: "nowrap",
+};
+
+/**
+ * Virtualized table of a sequence: only the rows in (and a few around) the viewport are
+ * rendered, each absolutely positioned `rowHeight` apart below the sticky header.
+ */
+export default function SequenceTable({
+  data,
+  rowRange,
+  selectedRow = null,
+  hoveredRow = null,
+  flaggedRows,
+  timeZone = UTC,
+  onRowClick,
+  onTopRowChange,
+  onCellEdit,
+  onDeleteRow,
+  ref,
+}: {
+  data: SequenceData;
+  /** Only show data rows in `[start, end)` (e.g. the chart's visible X range). */
+  rowRange?: [number, number] | null;
+  selectedRow?: number | null;
+  hoveredRow?: number | null;
+  /** Rows marked as outliers */
+  flaggedRows?: ReadonlySet<number>;
+  /** Zone that date X values are shown in */
+  timeZone?: string;
+  onRowClick?: (row: number) => void;
+  /** Called on scroll with the first data row in view */
+  onTopRowChange?: (row: number) => void;
+  /**
+   * Makes cells editable (double-click, Enter to apply, Esc to cancel). `column` is 0 for
+   * X, k + 1 for series k; return an error message to reject the text.
+   */
+  onCellEdit?: (row: number, column: number, text: string) => string | null;
+  /** Delete key on the selected row */
+  onDeleteRow?: (row: number) => void;
+  ref?: Ref<SequenceTableHandle>;
+}) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [editing, setEditing] = useState<CellEditor | null>(null);
+  // Set once Enter/Esc settled the edit, so the blur that follows does not apply it again
+  const editDoneRef = useRef(false);
+
+  const [firstRow, lastRow] = rowRange ?? [0, data.xValues.length];
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      scrollToRow(row, align = "start") {
+        const list = listRef.current;
+        if (!list) return;
+        const offset = (row - firstRow) * rowHeight;
+        const top =
+          align === "center"
+            ? offset - (list.clientHeight - rowHeight) / 2
+            : offset;
+        list.scrollTo({ top: Math.max(0, top) });
+      },
+    }),
+    [firstRow]
+  );
+
+  const cellText = (row: number, column: number): string => {
+    if (column === 0) {
+      const x = data.xValues[row];
+      return data.xKind === "date" ? formatTimestamp(x, timeZone) : String(x);
+    }
+    const v = data.series[column - 1].values[row];
+    return Number.isNaN(v) ? "" : String(v);
+  };
+
+  const startEditing = (row: number, column: number) => {
+    if (!onCellEdit) return;
+    editDoneRef.current = false;
+    setEditing({ row, column, text: cellText(row, column), error: null });
+  };
+
+  // Apply the edited text; false (with the error shown) when it was rejected
+  const commitEdit = (): boolean => {
+    if (!editing || !onCellEdit) return true;
+    const error = onCellEdit(editing.row, editing.column, editing.text);
+    if (error) {
+      setEditing({ ...editing, error });
+      return false;
+    }
+    setEditing(null);
+    return true;
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (editing || e.target !== e.currentTarget) return;
+    if ((e.key === "Delete" || e.key === "Backspace") && selectedRow !== null) {
+      e.preventDefault();
+      onDeleteRow?.(selectedRow);
+    } else if ((e.key === "Enter" || e.key === "F2") && selectedRow !== null) {
+      e.preventDefault();
+      startEditing(selectedRow, data.series.length > 0 ? 1 : 0);
+    }
+  };
+
+  const renderCell = (row: number, column: number, content: React.ReactNode) => {
+    if (editing?.row !== row || editing.column !== column) {
+      return (
+        <div
+          key={column}
+          style={cellStyle}
+          onDoubleClick={onCellEdit && (() => startEditing(row, column))}
+        >
+          {content}
+        </div>
+      );
+    }
+    return (
+      <div key={column} style={{ ...cellStyle, padding: "1px" }}>
+        <input
+          autoFocus
+          value={editing.text}
+          title={editing.error ?? undefined}
+          style={{
+            width: "100%",
+            boxSizing: "border-box",
+            border: `1px solid ${editing.error ? "#d62728" : "#888"}`,
+          }}
+          onClick={(e) => e.stopPropagation()}
+          onChange={(e) => setEditing({ ...editing, text: e.target.value, error: null })}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              if (commitEdit()) {
+                editDoneRef.current = true;
+                listRef.current?.focus({ preventScroll: true });
+              }
+            } else if (e.key === "Escape") {
+              e.preventDefault();
+              editDoneRef.current = true;
+              setEditing(null);
+              listRef.current?.focus({ preventScroll: true });
+            }
+          }}
+          // Leaving the cell applies valid text and drops invalid text
+          onBlur={() => {
+            if (editDoneRef.current) return;
+            editDoneRef.current = true;
+            if (!commitEdit()) setEditing(null);
+          }}
+        />
+      </div>
+    );
+  };
+
+  const onScroll = useCallback(
+    (e: React.UIEvent<HTMLDivElement>) => {
+      const top = e.currentTarget.scrollTop;
+      setScrollTop(top);
+      onTopRowChange?.(firstRow + Math.floor(top / rowHeight));
+    },
+    [onTopRowChange, firstRow]
+  );
+
+  // Virtualization math
+  const totalRows = Math.max(0, lastRow - firstRow);
+  // One extra row of height for the sticky header
+  const totalHeight = (totalRows + 1) * rowHeight;
+  const viewportHeight = listRef.current?.clientHeight ?? window.innerHeight;
+  const startIndex = Math.max(0, Math.floor(scrollTop / rowHeight) - 5);
+  const endIndex = Math.min(
+    totalRows,
+    Math.ceil((scrollTop + viewportHeight) / rowHeight) + 5
+  );
+  const missingRowSet = new Set(data.missingRows);
+  const rowIndices = Array.from(
+    { length: Math.max(0, endIndex - startIndex) },
+    (_, idx) => firstRow + startIndex + idx
+  );
+
+  return (
+    <div
+      ref={listRef}
+      tabIndex={onCellEdit ? 0 : undefined}
+      style={{
+        width: "100%",
+        height: "100%",
+        overflow: "auto",
+        outline: "none",
+      }}
+      onScroll={onScroll}
+      onKeyDown={onKeyDown}
+    >
+      <div
+        style={{
+          position: "relative",
+          height: totalHeight,
+          minWidth: "100%",
+          width: "max-content",
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            position: "sticky",
+            top: 0,
+            height: rowHeight,
+            background: "#f0f0f0",
+            fontWeight: "bold",
+            zIndex: 1,
+          }}
+        >
+          <div style={cellStyle}>{data.timeAxisName}</div>
+          {data.series.map((s, k) => (
+            <div key={k} style={cellStyle}>
+              {s.name}
+            </div>
+          ))}
+        </div>
+        {rowIndices.map((rowIndex) => {
+          const x = data.xValues[rowIndex];
+          const hasMissing = missingRowSet.has(rowIndex);
+          const flagged = flaggedRows?.has(rowIndex) ?? false;
+          const background =
+            rowIndex === selectedRow
+              ? "#cfe2ff"
+              : rowIndex === hoveredRow
+                ? "#e7f1ff"
+                : flagged
+                  ? "#f8d7da"
+                  : hasMissing
+                    ? "#fff3cd"
+                    : undefined;
+          return (
+            <div
+              key={rowIndex}
+              style={{
+                display: "flex",
+                position: "absolute",
+                top: (rowIndex - firstRow + 1) * rowHeight,
+                height: rowHeight,
+                width: "100%",
+                background,
+                cursor: onRowClick ? "pointer" : undefined,
+              }}
+              title={
+                flagged
+                  ? "Flagged as an outlier"
+                  : hasMissing
+                    ? "Row has missing values"
+                    : undefined
+              }
+              onClick={onRowClick && (() => onRowClick(rowIndex))}
+            >
+              {renderCell(
+                rowIndex,
+                0,
+                data.xKind === "date" ? formatTimestamp(x, timeZone) : x
+              )}
+              {data.series.map((s, k) =>
+                renderCell(
+                  rowIndex,
+                  k + 1,
+                  Number.isNaN(s.values[rowIndex]) ? "—" : s.values[rowIndex]
+                )
+              )}
+            </div>
+          );
+        })}
+        {editing?.error && (
+          <div
+            style={{
+              position: "absolute",
+              top: (editing.row - firstRow + 2) * rowHeight,
+              left: 4,
+              zIndex: 2,
+              padding: "2px 6px",
+              background: "#f8d7da",
+              border: "1px solid #d62728",
+              borderRadius: "4px",
+              fontSize: "12px",
+            }}
+          >
+            {editing.error}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
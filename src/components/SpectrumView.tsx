@@ -0,0 +1,241 @@
+import Plot from "react-plotly.js";
+import type { Data, Layout } from "plotly.js-dist-min";
+import { useMemo, useState } from "react";
+import { xRangeRowFilter } from "../utils/chartSelection";
+import type { SequenceData } from "../utils/parseDataText";
+import { isAscending, type AxisRange } from "../utils/plotlyAxis";
+import {
+  computeSpectrogram,
+  computeSpectrum,
+  toDecibels,
+  toUniformSignal,
+  type WindowKind,
+} from "../utils/spectrum";
+
+const controlsHeight = 32;
+const spectrogramSegments = [128, 256, 512, 1024, 2048, 4096];
+
+/**
+ * Frequency-domain view of one series: an amplitude or power spectrum and an optional
+ * spectrogram, over the whole sequence or the chart's visible range.
+ */
+export default function SpectrumView({
+  data,
+  xRange,
+  width,
+  height,
+}: {
+  data: SequenceData;
+  /** Visible X range of the time chart; null = the whole sequence */
+  xRange: AxisRange | null;
+  width: number;
+  height: number;
+}) {
+  const [seriesIndex, setSeriesIndex] = useState(0);
+  const [windowKind, setWindowKind] = useState<WindowKind>("hann");
+  const [power, setPower] = useState(false);
+  const [decibels, setDecibels] = useState(false);
+  const [visibleOnly, setVisibleOnly] = useState(true);
+  const [showSpectrogram, setShowSpectrogram] = useState(false);
+  const [segmentLength, setSegmentLength] = useState(512);
+
+  const isDate = data.xKind === "date";
+  const ascending = useMemo(() => isAscending(data.xValues), [data]);
+  const k = Math.min(seriesIndex, data.series.length - 1);
+
+  const signal = useMemo(() => {
+    if (!ascending) return null;
+    const { start, end } = xRangeRowFilter(data, visibleOnly ? xRange : null, true);
+    return toUniformSignal(data.xValues, data.series[k].values, start, end, isDate);
+  }, [data, k, xRange, visibleOnly, ascending, isDate]);
+
+  const spectrum = useMemo(
+    () => signal && computeSpectrum(signal, windowKind, { power }),
+    [signal, windowKind, power]
+  );
+
+  const spectrogram = useMemo(
+    () =>
+      signal && showSpectrogram
+        ? computeSpectrogram(signal, windowKind, segmentLength)
+        : null,
+    [signal, windowKind, segmentLength, showSpectrogram]
+  );
+
+  const frequencyTitle = isDate
+    ? "Frequency (Hz)"
+    : `Frequency (cycles per ${data.timeAxisName})`;
+  const plotHeight = Math.max(0, height - controlsHeight);
+  const spectrumHeight = showSpectrogram ? Math.round(plotHeight / 2) : plotHeight;
+
+  const spectrumTraces = useMemo((): Data[] => {
+    if (!spectrum) return [];
+    return [
+      {
+        x: Array.from(spectrum.frequencies),
+        y: Array.from(spectrum.values, (v) =>
+          decibels ? toDecibels(v, power) : v
+        ),
+        type: "scatter",
+        mode: "lines",
+        name: data.series[k].name,
+        hovertemplate: "%{x}: %{y}<extra></extra>",
+      },
+    ];
+  }, [spectrum, decibels, power, data, k]);
+
+  const spectrumLayout = useMemo(
+    (): Partial<Layout> => ({
+      width,
+      height: spectrumHeight,
+      margin: { l: 56, r: 20, t: 10, b: 40 },
+      xaxis: { title: { text: frequencyTitle } },
+      yaxis: {
+        title: {
+          text: `${power ? "Power" : "Amplitude"}${decibels ? " (dB)" : ""}`,
+        },
+      },
+      uirevision: `${k}-${power}-${decibels}`,
+    }),
+    [width, spectrumHeight, frequencyTitle, power, decibels, k]
+  );
+
+  const spectrogramTraces = useMemo(
+    (): Data[] =>
+      spectrogram
+        ? [
+            {
+              x: spectrogram.times,
+              y: spectrogram.frequencies,
+              z: spectrogram.z,
+              type: "heatmap",
+              colorscale: "Viridis",
+              colorbar: { title: { text: "dB" } },
+            },
+          ]
+        : [],
+    [spectrogram]
+  );
+
+  const spectrogramLayout = useMemo(
+    (): Partial<Layout> => ({
+      width,
+      height: plotHeight - spectrumHeight,
+      margin: { l: 56, r: 20, t: 10, b: 40 },
+      xaxis: { type: isDate ? "date" : "linear", title: { text: data.timeAxisName } },
+      yaxis: { title: { text: frequencyTitle } },
+    }),
+    [width, plotHeight, spectrumHeight, isDate, data, frequencyTitle]
+  );
+
+  let notice: string | null = null;
+  if (!ascending) notice = "The spectrum needs X values in ascending order.";
+  else if (!signal) notice = "Not enough samples in range.";
+  else if (signal.coarsened)
+    notice = `Unevenly sampled with long gaps: linearly resampled onto ${signal.values.length.toLocaleString()} samples, coarser than the median interval.`;
+  else if (signal.resampled)
+    notice = "Unevenly sampled or gappy: linearly resampled at the median interval.";
+  else if (spectrum && spectrum.segments > 1)
+    notice = `Averaged over ${spectrum.segments} segments of ${spectrum.segmentLength.toLocaleString()} samples.`;
+  if (showSpectrogram && signal && !spectrogram)
+    notice = "Too few samples for the spectrogram segment length.";
+
+  return (
+    <div style={{ width, height, overflow: "hidden" }}>
+      <div
+        style={{
+          display: "flex",
+          flexWrap: "nowrap",
+          gap: "8px",
+          alignItems: "center",
+          height: controlsHeight,
+          padding: "0 8px",
+          fontSize: "13px",
+          overflowX: "auto",
+          whiteSpace: "nowrap",
+        }}
+      >
+        {data.series.length > 1 && (
+          <select
+            value={k}
+            onChange={(e) => setSeriesIndex(Number(e.target.value))}
+          >
+            {data.series.map((s, i) => (
+              <option key={i} value={i}>
+                {s.name}
+              </option>
+            ))}
+          </select>
+        )}
+        <label>
+          Window{" "}
+          <select
+            value={windowKind}
+            onChange={(e) => setWindowKind(e.target.value as WindowKind)}
+          >
+            <option value="hann">Hann</option>
+            <option value="hamming">Hamming</option>
+            <option value="none">None</option>
+          </select>
+        </label>
+        <select
+          value={power ? "power" : "amplitude"}
+          onChange={(e) => setPower(e.target.value === "power")}
+        >
+          <option value="amplitude">Amplitude</option>
+          <option value="power">Power</option>
+        </select>
+        <select
+          value={decibels ? "db" : "linear"}
+          onChange={(e) => setDecibels(e.target.value === "db")}
+        >
+          <option value="linear">Linear</option>
+          <option value="db">dB</option>
+        </select>
+        <select
+          value={visibleOnly ? "visible" : "whole"}
+          onChange={(e) => setVisibleOnly(e.target.value === "visible")}
+        >
+          <option value="visible">Visible range</option>
+          <option value="whole">Whole sequence</option>
+        </select>
+        <label>
+          <input
+            type="checkbox"
+            checked={showSpectrogram}
+            onChange={(e) => setShowSpectrogram(e.target.checked)}
+          />{" "}
+          Spectrogram
+        </label>
+        {showSpectrogram && (
+          <select
+            value={segmentLength}
+            title="Spectrogram segment length (samples)"
+            onChange={(e) => setSegmentLength(Number(e.target.value))}
+          >
+            {spectrogramSegments.map((n) => (
+              <option key={n} value={n}>
+                {n}
+              </option>
+            ))}
+          </select>
+        )}
+        {notice && <span style={{ color: "#8a6d00" }}>{notice}</span>}
+      </div>
+      {spectrum && (
+        <Plot
+          data={spectrumTraces}
+          layout={spectrumLayout}
+          config={{ displaylogo: false }}
+        />
+      )}
+      {spectrogram && (
+        <Plot
+          data={spectrogramTraces}
+          layout={spectrogramLayout}
+          config={{ displaylogo: false }}
+        />
+      )}
+    </div>
+  );
+}
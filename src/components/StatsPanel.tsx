@@ -0,0 +1,111 @@
+import { useMemo, type CSSProperties } from "react";
+import computeStats from "../utils/computeStats";
+import formatNumber from "../utils/formatNumber";
+import {
+  selectionRowFilter,
+  xRangeRowFilter,
+  type ChartSelection,
+} from "../utils/chartSelection";
+import type { SequenceData } from "../utils/parseDataText";
+import type { AxisRange } from "../utils/plotlyAxis";
+
+const cellStyle: CSSProperties = {
+  padding: "2px 8px",
+  textAlign: "right",
+  whiteSpace: "nowrap",
+};
+
+export default function StatsPanel({
+  data,
+  xRange,
+  selection,
+  stacked,
+}: {
+  data: SequenceData;
+  /** Visible X range of the chart; null = the whole sequence */
+  xRange: AxisRange | null;
+  /** Box/lasso selection; takes precedence over the visible range */
+  selection: ChartSelection | null;
+  stacked: boolean;
+}) {
+  const isDate = data.xKind === "date";
+
+  const rows = useMemo(() => {
+    const visible = xRangeRowFilter(data, xRange);
+    return data.series.map((s, k) => {
+      const filter = selection
+        ? selectionRowFilter(data, selection, k, stacked)
+        : visible;
+      const stats = filter
+        ? computeStats(data.xValues, s.values, filter.start, filter.end, filter.include)
+        : null;
+      return { name: s.name, stats };
+    });
+  }, [data, xRange, selection, stacked]);
+
+  const formatX = (i: number) =>
+    i < 0
+      ? "—"
+      : isDate
+        ? new Date(data.xValues[i]).toISOString()
+        : formatNumber(data.xValues[i]);
+
+  const scope = selection
+    ? `${selection.kind === "box" ? "Box" : "Lasso"} selection`
+    : xRange
+      ? "Visible range"
+      : "Whole sequence";
+
+  return (
+    <div style={{ padding: "4px 8px" }}>
+      <div style={{ fontWeight: "bold", marginBottom: "4px" }}>
+        Statistics · {scope}
+      </div>
+      <table style={{ borderCollapse: "collapse", fontSize: "13px" }}>
+        <thead>
+          <tr style={{ background: "#f0f0f0" }}>
+            <th style={{ ...cellStyle, textAlign: "left" }}>Series</th>
+            <th style={cellStyle}>Count</th>
+            <th style={cellStyle}>Min</th>
+            <th style={cellStyle}>at {data.timeAxisName}</th>
+            <th style={cellStyle}>Max</th>
+            <th style={cellStyle}>at {data.timeAxisName}</th>
+            <th style={cellStyle}>Mean</th>
+            <th style={cellStyle}>Median</th>
+            <th style={cellStyle}>Std dev</th>
+            <th style={cellStyle}>RMS</th>
+            <th style={cellStyle}>Slope{isDate ? " (/s)" : ""}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ name, stats }, k) => (
+            <tr key={k}>
+              <td style={{ ...cellStyle, textAlign: "left" }}>{name}</td>
+              {stats ? (
+                <>
+                  <td style={cellStyle}>{stats.count.toLocaleString()}</td>
+                  <td style={cellStyle}>{formatNumber(stats.min)}</td>
+                  <td style={cellStyle}>{formatX(stats.minIndex)}</td>
+                  <td style={cellStyle}>{formatNumber(stats.max)}</td>
+                  <td style={cellStyle}>{formatX(stats.maxIndex)}</td>
+                  <td style={cellStyle}>{formatNumber(stats.mean)}</td>
+                  <td style={cellStyle}>{formatNumber(stats.median)}</td>
+                  <td style={cellStyle}>{formatNumber(stats.std)}</td>
+                  <td style={cellStyle}>{formatNumber(stats.rms)}</td>
+                  <td style={cellStyle}>
+                    {/* Date X is in ms; report the slope per second */}
+                    {formatNumber(isDate ? stats.slope * 1000 : stats.slope)}
+                  </td>
+                </>
+              ) : (
+                <td style={{ ...cellStyle, textAlign: "left" }} colSpan={10}>
+                  Not in selection
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { type CSSProperties } from "react";
+import formatNumber from "../utils/formatNumber";
+import type { SequenceData } from "../utils/parseDataText";
+import type { Threshold, ThresholdEvent } from "../utils/thresholds";
+
+// Rendering more rows than this stalls the dock; the chart still shades the first ones
+const MAX_LISTED_EVENTS = 1000;
+
+const cellStyle: CSSProperties = {
+  padding: "2px 8px",
+  textAlign: "right",
+  whiteSpace: "nowrap",
+};
+
+/** Threshold editor plus the list of detected excursions; clicking an event zooms to it. */
+export default function ThresholdsPanel({
+  data,
+  thresholds,
+  events,
+  onChange,
+  onEventClick,
+}: {
+  data: SequenceData;
+  thresholds: Threshold[];
+  events: ThresholdEvent[];
+  onChange: (thresholds: Threshold[]) => void;
+  onEventClick?: (event: ThresholdEvent) => void;
+}) {
+  const isDate = data.xKind === "date";
+  const xs = data.xValues;
+
+  const update = (id: string, patch: Partial<Threshold>) =>
+    onChange(thresholds.map((t) => (t.id === id ? { ...t, ...patch } : t)));
+
+  const addThreshold = () => {
+    const first = data.series[0].values;
+    let max = -Infinity;
+    for (const v of first) if (v > max) max = v;
+    onChange([
+      ...thresholds,
+      {
+        id: crypto.randomUUID(),
+        series: 0,
+        kind: "upper",
+        value: Number.isFinite(max) ? Number(max.toPrecision(3)) : 0,
+        hysteresis: 0,
+      },
+    ]);
+  };
+
+  const formatX = (row: number) =>
+    isDate ? new Date(xs[row]).toISOString() : formatNumber(xs[row]);
+  const formatDuration = (ev: ThresholdEvent) => {
+    const d = xs[ev.end] - xs[ev.start];
+    return isDate ? `${formatNumber(d / 1000)} s` : formatNumber(d);
+  };
+
+  return (
+    <div style={{ padding: "4px 8px", display: "flex", gap: "24px" }}>
+      <div style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+        <div style={{ fontWeight: "bold" }}>Thresholds</div>
+        {thresholds.map((t) => (
+          <div
+            key={t.id}
+            style={{ display: "flex", gap: "8px", alignItems: "center" }}
+          >
+            {data.series.length > 1 && (
+              <select
+                value={t.series}
+                onChange={(e) =>
+                  update(t.id, { series: Number(e.target.value) })
+                }
+              >
+                {data.series.map((s, k) => (
+                  <option key={k} value={k}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={t.kind}
+              onChange={(e) =>
+                update(t.id, { kind: e.target.value as Threshold["kind"] })
+              }
+            >
+              <option value="upper">Upper</option>
+              <option value="lower">Lower</option>
+            </select>
+            <input
+              type="number"
+              value={t.value}
+              style={{ width: "96px" }}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (Number.isFinite(value)) update(t.id, { value });
+              }}
+            />
+            <label title="The value must come back by this much to end an excursion">
+              Hysteresis{" "}
+              <input
+                type="number"
+                min={0}
+                value={t.hysteresis}
+                style={{ width: "72px" }}
+                onChange={(e) =>
+                  update(t.id, {
+                    hysteresis: Math.max(0, Number(e.target.value) || 0),
+                  })
+                }
+              />
+            </label>
+            <button
+              onClick={() => onChange(thresholds.filter((o) => o.id !== t.id))}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <div>
+          <button onClick={addThreshold}>Add threshold</button>
+        </div>
+      </div>
+      <div>
+        <div style={{ fontWeight: "bold", marginBottom: "4px" }}>
+          {events.length.toLocaleString()} event
+          {events.length === 1 ? "" : "s"}
+          {events.length > MAX_LISTED_EVENTS &&
+            ` (first ${MAX_LISTED_EVENTS.toLocaleString()} listed)`}
+        </div>
+        {events.length > 0 && (
+          <table style={{ borderCollapse: "collapse", fontSize: "13px" }}>
+            <thead>
+              <tr style={{ background: "#f0f0f0" }}>
+                <th style={{ ...cellStyle, textAlign: "left" }}>Series</th>
+                <th style={cellStyle}>Limit</th>
+                <th style={cellStyle}>Start</th>
+                <th style={cellStyle}>End</th>
+                <th style={cellStyle}>Duration</th>
+                <th style={cellStyle}>Peak</th>
+              </tr>
+            </thead>
+            <tbody>
+              {events.slice(0, MAX_LISTED_EVENTS).map((ev) => (
+                <tr
+                  key={`${ev.thresholdId}-${ev.start}`}
+                  style={{ cursor: onEventClick ? "pointer" : undefined }}
+                  onClick={onEventClick && (() => onEventClick(ev))}
+                >
+                  <td style={{ ...cellStyle, textAlign: "left" }}>
+                    {data.series[ev.series]?.name}
+                  </td>
+                  <td style={cellStyle}>
+                    {ev.kind === "upper" ? "Upper" : "Lower"}
+                  </td>
+                  <td style={cellStyle}>{formatX(ev.start)}</td>
+                  <td style={cellStyle}>{formatX(ev.end)}</td>
+                  <td style={cellStyle}>{formatDuration(ev)}</td>
+                  <td style={cellStyle}>{formatNumber(ev.peak)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
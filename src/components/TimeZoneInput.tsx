@@ -0,0 +1,46 @@
+import { useId, useMemo, useState } from "react";
+import { isValidTimeZone, timeZoneNames } from "../utils/timestamps";
+
+/**
+ * Free-text timezone field with suggestions; the value is only committed (on blur or
+ * Enter) when it names a zone the browser knows.
+ */
+export default function TimeZoneInput({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (timeZone: string) => void;
+}) {
+  const [text, setText] = useState<string | null>(null);
+  const listId = useId();
+  const names = useMemo(() => timeZoneNames(), []);
+  const shown = text ?? value;
+  const valid = isValidTimeZone(shown);
+
+  const commit = () => {
+    if (text !== null && valid && text !== value) onChange(text);
+    setText(null);
+  };
+
+  return (
+    <>
+      <input
+        list={listId}
+        value={shown}
+        style={{ width: "160px", borderColor: valid ? undefined : "#d62728" }}
+        onClick={(e) => e.stopPropagation()}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commit();
+        }}
+      />
+      <datalist id={listId}>
+        {names.map((name) => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+    </>
+  );
+}
@@ -0,0 +1,138 @@
+import {
+  defaultTransform,
+  transformLabels,
+  type PipelineStep,
+  type TransformKind,
+} from "../utils/transforms";
+
+let nextStepId = 0;
+
+const kinds = Object.keys(transformLabels) as TransformKind[];
+
+/** Editor for the derived-series pipeline: ordered steps, each with parameters and on/off. */
+export default function TransformsPanel({
+  steps,
+  onChange,
+}: {
+  steps: PipelineStep[];
+  onChange: (steps: PipelineStep[]) => void;
+}) {
+  const update = (id: string, patch: Partial<PipelineStep>) =>
+    onChange(
+      steps.map((s) => (s.id === id ? ({ ...s, ...patch } as PipelineStep) : s))
+    );
+
+  const move = (index: number, delta: number) => {
+    const next = steps.slice();
+    const [step] = next.splice(index, 1);
+    next.splice(index + delta, 0, step);
+    onChange(next);
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "4px",
+        padding: "4px 8px",
+      }}
+    >
+      <div style={{ fontWeight: "bold" }}>Derived series</div>
+      {steps.length === 0 && (
+        <div style={{ color: "#666" }}>
+          No transforms yet. Add a step to plot a derived series next to the
+          raw data.
+        </div>
+      )}
+      {steps.map((step, index) => (
+        <div
+          key={step.id}
+          style={{ display: "flex", gap: "8px", alignItems: "center" }}
+        >
+          <input
+            type="checkbox"
+            checked={step.enabled}
+            title="Enable this step"
+            onChange={(e) => update(step.id, { enabled: e.target.checked })}
+          />
+          <span style={{ minWidth: "180px" }}>
+            {index + 1}. {transformLabels[step.kind]}
+          </span>
+          {(step.kind === "movingAverage" || step.kind === "movingMedian") && (
+            <label>
+              Window{" "}
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={step.window}
+                style={{ width: "72px" }}
+                onChange={(e) =>
+                  update(step.id, {
+                    window: Math.max(1, Math.round(Number(e.target.value))),
+                  })
+                }
+              />
+            </label>
+          )}
+          {step.kind === "exponentialSmoothing" && (
+            <label>
+              α{" "}
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={step.alpha}
+                style={{ width: "72px" }}
+                onChange={(e) =>
+                  update(step.id, {
+                    alpha: Math.min(1, Math.max(0, Number(e.target.value))),
+                  })
+                }
+              />
+            </label>
+          )}
+          <button disabled={index === 0} onClick={() => move(index, -1)}>
+            ↑
+          </button>
+          <button
+            disabled={index === steps.length - 1}
+            onClick={() => move(index, 1)}
+          >
+            ↓
+          </button>
+          <button onClick={() => onChange(steps.filter((s) => s.id !== step.id))}>
+            Remove
+          </button>
+        </div>
+      ))}
+      <label>
+        Add step{" "}
+        <select
+          value=""
+          onChange={(e) => {
+            const kind = e.target.value as TransformKind;
+            if (!kind) return;
+            onChange([
+              ...steps,
+              {
+                ...defaultTransform(kind),
+                id: `step-${nextStepId++}`,
+                enabled: true,
+              },
+            ]);
+          }}
+        >
+          <option value="">Choose a transform…</option>
+          {kinds.map((kind) => (
+            <option key={kind} value={kind}>
+              {transformLabels[kind]}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -1,7 +1,157 @@
 import Plot from 'react-plotly.js';
-import type { PlotlyHTMLElement } from 'plotly.js-dist-min';
-import { useRef, useEffect, useCallback } from 'react';
-import type { SequenceData } from '../utils/parseDataText';
+import type {
+  Data,
+  Layout,
+  LayoutAxis,
+  PlotData,
+  Shape,
+  PlotMouseEvent,
+  PlotlyHTMLElement,
+} from 'plotly.js-dist-min';
+import {
+  useRef,
+  useEffect,
+  useCallback,
+  useImperativeHandle,
+  useMemo,
+  useState,
+  type KeyboardEvent,
+  type Ref,
+} from 'react';
+import { alignX, unalignX, type ComparisonDataset } from '../utils/alignDatasets';
+import { padRange, stepRow, valueExtent, zoomRange } from '../utils/chartCursor';
+import { editSource } from '../utils/editSequence';
+import {
+  readSelectionEvent,
+  seriesYAxisId,
+  type ChartSelection,
+} from '../utils/chartSelection';
+import {
+  buildMinMaxPyramid,
+  patchMinMaxPyramid,
+  queryMinMax,
+  type MinMaxPyramid,
+} from '../utils/minMaxPyramid';
+import type { SequenceData, SequenceSeries } from '../utils/parseDataText';
+import {
+  axisValueToNumber,
+  chartUiRevision,
+  isAscending,
+  lowerBound,
+  readRelayoutRange,
+  upperBound,
+  type AxisRange,
+} from '../utils/plotlyAxis';
+import type { Outlier } from '../utils/outliers';
+import { labelAt, type LabelClass, type RangeLabel } from '../utils/rangeLabels';
+import type { Threshold, ThresholdEvent } from '../utils/thresholds';
+import { formatTimestamp, UTC } from '../utils/timestamps';
+import ChartHelpOverlay from './ChartHelpOverlay';
+import CursorReadout from './CursorReadout';
+
+export type SeriesLayoutMode = 'overlay' | 'stacked';
+
+export type ChartImageOptions = {
+  format: 'png' | 'svg';
+  /** Output size in CSS pixels; defaults to the current chart size */
+  width?: number;
+  height?: number;
+  /** Pixel density multiplier for PNG */
+  scale?: number;
+};
+
+export type YourChartHandle = {
+  /** Render the current view (zoom included) to an image data URL. */
+  toImage: (options: ChartImageOptions) => Promise<string>;
+};
+
+// react-plotly.js loads the full Plotly bundle, which registers itself on window
+type PlotlyStatic = typeof import('plotly.js-dist-min');
+const windowPlotly = () => (window as unknown as { Plotly: PlotlyStatic }).Plotly;
+
+// Shading thousands of excursions makes every redraw crawl; the event list still has them all
+const MAX_EVENT_SHAPES = 500;
+
+// Markers past this many are left off the chart; the outliers panel still lists them all
+const MAX_OUTLIER_MARKERS = 5000;
+const outlierColor = '#ff7f0e';
+
+const thresholdColors = { upper: '#d62728', lower: '#1f77b4' };
+
+// Labeled ranges past this many are left off the chart; the labels panel still lists them
+const MAX_LABEL_SHAPES = 500;
+
+// Translucent fill of a "#rrggbb" class color; the shape's text label stays opaque
+function labelFill(color: string, alpha: number): string | null {
+  const m = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  return m && `rgba(${parseInt(m[1], 16)}, ${parseInt(m[2], 16)}, ${parseInt(m[3], 16)}, ${alpha})`;
+}
+
+const cursorColor = '#555';
+const referenceColor = '#1f77b4';
+
+// Keyboard zoom steps
+const ZOOM_IN = 0.8;
+const ZOOM_OUT = 1 / ZOOM_IN;
+
+// Plotly's resolved layout, read for the actual ranges of autoranged axes
+type FullLayout = Record<string, { range: [unknown, unknown]; domain?: [number, number] }>;
+const fullLayout = (gd: PlotlyHTMLElement) =>
+  (gd as unknown as { _fullLayout: FullLayout })._fullLayout;
+// Plot area inside the margins, in pixels
+const plotSize = (gd: PlotlyHTMLElement) =>
+  (gd as unknown as { _fullLayout: { _size: { t: number; h: number } } })._fullLayout._size;
+
+// The chart element keeps its wheel listener, so a re-attach can remove the old one
+type WheelTarget = PlotlyHTMLElement & { __wheelHandler?: ((e: WheelEvent) => void) | null };
+
+// Layout key of an axis id: "y" → "yaxis", "y3" → "yaxis3"
+const axisKeyOf = (axisId: string) => axisId.replace(/^y/, 'yaxis');
+
+// Rows of ascending `xs` inside [x0, x1]; everything when X is not sorted
+function rowsInRange(xs: Float64Array, ascending: boolean, x0: number, x1: number): [number, number] {
+  return ascending ? [lowerBound(xs, x0), upperBound(xs, x1)] : [0, xs.length];
+}
+
+const noYRanges: Readonly<Record<string, AxisRange>> = {};
+const noComparisons: readonly ComparisonDataset[] = [];
+const noOutliers: readonly Outlier[] = [];
+const noLabels: readonly RangeLabel[] = [];
+const noLabelClasses: readonly LabelClass[] = [];
+
+// Level-of-detail index per series array. A series copied by a cell edit patches the
+// index of the array it came from, so editing one value does not rebuild everything.
+const seriesPyramids = new WeakMap<Float64Array, MinMaxPyramid>();
+function seriesPyramid(values: Float64Array): MinMaxPyramid {
+  let pyramid = seriesPyramids.get(values);
+  if (!pyramid) {
+    const source = editSource(values);
+    const base = source && seriesPyramids.get(source.base);
+    pyramid =
+      source && base
+        ? patchMinMaxPyramid(base, values, source.rows)
+        : buildMinMaxPyramid(values);
+    seriesPyramids.set(values, pyramid);
+  }
+  return pyramid;
+}
+
+// Level-of-detail index per compared sequence, kept while only its alignment changes
+const comparisonIndexes = new WeakMap<
+  SequenceData,
+  { pyramids: MinMaxPyramid[]; ascending: boolean }
+>();
+function comparisonIndex(data: SequenceData) {
+  let index = comparisonIndexes.get(data);
+  if (!index) {
+    index = {
+      pyramids: data.series.map((s) => buildMinMaxPyramid(s.values)),
+      ascending: isAscending(data.xValues),
+    };
+    comparisonIndexes.set(data, index);
+  }
+  return index;
+}
 
 function scaleRange([r0, r1]: [number, number], factor: number): [number, number] {
   const c = (r0 + r1) / 2;
@@ -9,18 +159,146 @@ function scaleRange([r0, r1]: [number, number], factor: number): [number, number
   return [c - half, c + half];
 }
 
-export default function YourChart({ data, rightPaneWidth, rightPaneHeight }: {
-  data: SequenceData<number|Date>,
+// Plotly names the first y axis "yaxis", then "yaxis2", "yaxis3", ...
+function yAxisKey(k: number): string {
+  return k === 0 ? 'yaxis' : `yaxis${k + 1}`;
+}
+
+// Stacked subplots split the plot area evenly from top (first series) to bottom
+function stackedDomain(k: number, count: number, gap = 0.02): [number, number] {
+  const band = 1 / count;
+  const top = 1 - k * band;
+  const bottom = top - band;
+  return [k === count - 1 ? 0 : bottom + gap / 2, k === 0 ? 1 : top - gap / 2];
+}
+
+export default function YourChart({
+  data,
+  revision,
+  rightPaneWidth,
+  rightPaneHeight,
+  layoutMode = 'overlay',
+  derived = null,
+  comparisons = noComparisons,
+  comparisonLayout = 'overlay',
+  xRange: requestedXRange = null,
+  follow = null,
+  onXRangeChange,
+  yRanges = noYRanges,
+  onYRangesChange,
+  displayTimeZone = UTC,
+  highlightIndex = null,
+  cursorIndex = null,
+  referenceIndex = null,
+  thresholds = [],
+  thresholdEvents = [],
+  outliers = noOutliers,
+  labels = noLabels,
+  labelClasses = noLabelClasses,
+  selectedLabelId = null,
+  labelMode = false,
+  onPointHover,
+  onPointClick,
+  onSelectionChange,
+  onCursorChange,
+  onReferenceChange,
+  onLabelDraw,
+  onLabelSelect,
+  onLabelDelete,
+  ref,
+}: {
+  data: SequenceData,
+  /** Bumped when another sequence is loaded; the chart's UI state lives until then */
+  revision: number,
   rightPaneWidth: number,
-  rightPaneHeight: number
+  rightPaneHeight: number,
+  layoutMode?: SeriesLayoutMode,
+  /** Output of the transform pipeline (same X as `data`), drawn next to the raw series */
+  derived?: SequenceData | null,
+  /** Other files drawn against the same X axis, each through its X alignment */
+  comparisons?: readonly ComparisonDataset[],
+  /** Overlay compared series on the matching series' axis, or give each file a subplot */
+  comparisonLayout?: SeriesLayoutMode,
+  /** Visible X range (epoch ms on date axes); null = autorange over everything */
+  xRange?: AxisRange | null,
+  /**
+   * Rolling window width (X units, ms on date axes): the view shows the last `follow` of
+   * the data and scrolls along as rows are appended, in place of `xRange`. null: off.
+   */
+  follow?: number | null,
+  /** Called after pan/zoom/reset, including the modifier-wheel zoom */
+  onXRangeChange?: (range: AxisRange | null) => void,
+  /** Manual Y ranges by layout axis ("yaxis", "yaxis2", ...); axes not listed autorange */
+  yRanges?: Readonly<Record<string, AxisRange>>,
+  onYRangesChange?: (ranges: Record<string, AxisRange>) => void,
+  /** Zone of date X in tooltips; the axis ticks stay in UTC */
+  displayTimeZone?: string,
+  /** Data row to mark on every series */
+  highlightIndex?: number | null,
+  /** Row of the keyboard cursor, drawn as a vertical line with an X/Y readout */
+  cursorIndex?: number | null,
+  /** Row of the reference cursor that ΔX/ΔY/slope are measured from */
+  referenceIndex?: number | null,
+  /** Horizontal limit lines, drawn on their series' value axis */
+  thresholds?: readonly Threshold[],
+  /** Excursions past `thresholds`, shaded over their X span */
+  thresholdEvents?: readonly ThresholdEvent[],
+  /** Flagged points, marked on their series */
+  outliers?: readonly Outlier[],
+  /** Labeled X ranges, shaded in their class color across every subplot */
+  labels?: readonly RangeLabel[],
+  labelClasses?: readonly LabelClass[],
+  selectedLabelId?: string | null,
+  /** Dragging across the chart draws a label range instead of panning */
+  labelMode?: boolean,
+  onPointHover?: (index: number | null) => void,
+  onPointClick?: (index: number) => void,
+  /** Box/lasso selection (modebar select tools); null when cleared */
+  onSelectionChange?: (selection: ChartSelection | null) => void,
+  /** The keyboard cursor moved (arrow keys, Home/End, ...) */
+  onCursorChange?: (index: number) => void,
+  onReferenceChange?: (index: number | null) => void,
+  /** A range was dragged out in label mode (epoch ms on date axes), `x0 < x1` */
+  onLabelDraw?: (x0: number, x1: number) => void,
+  /** A click in label mode hit this label (null: none) */
+  onLabelSelect?: (id: string | null) => void,
+  /** Delete was pressed on the selected label in label mode */
+  onLabelDelete?: (id: string) => void,
+  ref?: Ref<YourChartHandle>,
 }) {
   const gdRef = useRef<PlotlyHTMLElement | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [showHelp, setShowHelp] = useState(false);
+
+  const lastX = data.xValues.length > 0 ? data.xValues[data.xValues.length - 1] : NaN;
+  const xRange = useMemo(
+    (): AxisRange | null =>
+      follow !== null && Number.isFinite(lastX) ? [lastX - follow, lastX] : requestedXRange,
+    [follow, lastX, requestedXRange]
+  );
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      toImage({ format, width, height, scale = 1 }) {
+        const gd = gdRef.current;
+        if (!gd) return Promise.reject(new Error('The chart is not ready yet'));
+        return windowPlotly().toImage(gd, {
+          format,
+          width: width ?? rightPaneWidth,
+          height: height ?? rightPaneHeight,
+          scale,
+        });
+      },
+    }),
+    [rightPaneWidth, rightPaneHeight]
+  );
 
-  const attachWheel = useCallback((gd: PlotlyHTMLElement | null) => {
+  const attachWheel = useCallback((gd: WheelTarget | null) => {
     if (!gd) return;
     // Clean up any previous listener
-    if ((gd as any).__wheelHandler) {
-      gd.removeEventListener('wheel', (gd as any).__wheelHandler, { capture: true } as any);
+    if (gd.__wheelHandler) {
+      gd.removeEventListener('wheel', gd.__wheelHandler, { capture: true });
     }
 
     const handler = (e: WheelEvent) => {
@@ -32,91 +310,619 @@ export default function YourChart({ data, rightPaneWidth, rightPaneHeight }: {
 
       e.preventDefault();
 
-      const full = (gd as any)._fullLayout;
+      const full = fullLayout(gd);
+      const size = plotSize(gd);
       const xa = full.xaxis;
-      const ya = full.yaxis;
 
-      // Current ranges are numbers for both numeric and date axes (dates = ms since epoch)
-      const xr: [number, number] = [xa.range[0], xa.range[1]];
-      const yr: [number, number] = [ya.range[0], ya.range[1]];
+      // In stacked mode, zoom the y axis of the subplot under the pointer
+      let yKey = 'yaxis';
+      const rect = gd.getBoundingClientRect();
+      const fy = 1 - (e.clientY - rect.top - size.t) / size.h;
+      for (const key of Object.keys(full)) {
+        if (!/^yaxis\d*$/.test(key)) continue;
+        const [d0, d1] = full[key].domain ?? [0, 1];
+        if (fy >= d0 && fy <= d1) {
+          yKey = key;
+          break;
+        }
+      }
+      const ya = full[yKey];
+
+      // Date axes report string ranges; work in numbers (dates = ms since epoch)
+      const xr: [number, number] = [axisValueToNumber(xa.range[0]), axisValueToNumber(xa.range[1])];
+      const yr: [number, number] = [Number(ya.range[0]), Number(ya.range[1])];
 
       // Zoom in on wheel-up, out on wheel-down
       const factor = e.deltaY < 0 ? 0.9 : 1.1;
 
-      const relayout: Record<string, number> = {};
+      const relayout: Record<string, number | boolean> = {};
       if (xOnly) {
         const [nx0, nx1] = scaleRange(xr, factor);
-        relayout['xaxis.autorange'] =  false as any;
+        relayout['xaxis.autorange'] = false;
         relayout['xaxis.range[0]'] = nx0;
         relayout['xaxis.range[1]'] = nx1;
       } else if (yOnly) {
         const [ny0, ny1] = scaleRange(yr, factor);
-        relayout['yaxis.autorange'] = false as any;
-        relayout['yaxis.range[0]'] = ny0;
-        relayout['yaxis.range[1]'] = ny1;
+        relayout[`${yKey}.autorange`] = false;
+        relayout[`${yKey}.range[0]`] = ny0;
+        relayout[`${yKey}.range[1]`] = ny1;
       }
 
-      (window as any).Plotly.relayout(gd, relayout);
+      windowPlotly().relayout(gd, relayout as Partial<Layout>);
     };
 
     // Capture phase helps ensure we intercept before Plotly’s own wheel logic
     gd.addEventListener('wheel', handler, { passive: false, capture: true });
-    (gd as any).__wheelHandler = handler;
+    gd.__wheelHandler = handler;
   }, []);
 
   useEffect(() => {
     if (gdRef.current) attachWheel(gdRef.current);
     return () => {
-      const gd = gdRef.current as any;
+      const gd: WheelTarget | null = gdRef.current;
       if (gd && gd.__wheelHandler) {
-        gd.removeEventListener('wheel', gd.__wheelHandler, { capture: true } as any);
+        gd.removeEventListener('wheel', gd.__wheelHandler, { capture: true });
         gd.__wheelHandler = null;
       }
     };
   }, [attachWheel, rightPaneWidth, rightPaneHeight]);
 
-  return (
-    <Plot
-      data={[
-        {
-          x: data.dataPoints.map(([x]):number|Date => x),
-          y: data.dataPoints.map(([, y]):number => y),
+  const stacked = layoutMode === 'stacked' && data.series.length > 1;
+
+  // plotly_relayout fires for drag-pan, double-click reset and the wheel handler's relayout alike
+  const onRelayout = useCallback((e: Readonly<Record<string, unknown>>) => {
+    const range = readRelayoutRange(e);
+    if (range !== undefined) onXRangeChange?.(range);
+
+    const yKeys = new Set(
+      Object.keys(e).flatMap((key) => /^(yaxis\d*)\./.exec(key)?.[1] ?? [])
+    );
+    if (yKeys.size === 0 || !onYRangesChange) return;
+    const next = { ...yRanges };
+    let changed = false;
+    for (const key of yKeys) {
+      const yRange = readRelayoutRange(e, key);
+      if (yRange === undefined) continue;
+      if (yRange) next[key] = yRange;
+      else delete next[key];
+      changed = true;
+    }
+    if (changed) onYRangesChange(next);
+  }, [onXRangeChange, onYRangesChange, yRanges]);
+
+  // Every drawn point carries its data row index, so events map back through the level of detail
+  const pointIndex = (e: Readonly<PlotMouseEvent>): number | null => {
+    const point = e.points.find((p) => typeof p.customdata === 'number');
+    return point ? (point.customdata as number) : null;
+  };
+
+  // Derived series get subplots below the raw ones when stacked, else a right-hand axis
+  const derivedAxisId = useCallback(
+    (k: number) => (stacked ? `y${data.series.length + k + 1}` : 'y2'),
+    [stacked, data.series.length]
+  );
+
+  const shownComparisons = useMemo(() => comparisons.filter((c) => c.visible), [comparisons]);
+
+  // Compared files get subplots after every raw/derived axis when stacked
+  const derivedCount = derived?.series.length ?? 0;
+  const axesBeforeComparisons = stacked
+    ? data.series.length + derivedCount
+    : derivedCount > 0 ? 2 : 1;
+  const comparisonAxisId = useCallback(
+    (j: number, k: number) =>
+      comparisonLayout === 'stacked'
+        ? `y${axesBeforeComparisons + j + 1}`
+        : seriesYAxisId(Math.min(k, data.series.length - 1), stacked),
+    [comparisonLayout, axesBeforeComparisons, stacked, data.series.length]
+  );
+
+  // Level of detail: one min/max pair per horizontal pixel of the visible range
+  const pyramids = useMemo(() => data.series.map((s) => seriesPyramid(s.values)), [data.series]);
+  const derivedPyramids = useMemo(
+    () => derived?.series.map((s) => buildMinMaxPyramid(s.values)) ?? [],
+    [derived]
+  );
+  const xAscending = useMemo(() => isAscending(data.xValues), [data.xValues]);
+  const buckets = Math.max(200, Math.round(rightPaneWidth));
+
+  const traces = useMemo((): Data[] => {
+    const xs = data.xValues;
+    let i0 = 0;
+    let i1 = xs.length;
+    if (xRange && xAscending) {
+      // One extra sample on each side so the line runs to the plot edges
+      i0 = Math.max(0, lowerBound(xs, xRange[0]) - 1);
+      i1 = Math.min(xs.length, upperBound(xs, xRange[1]) + 1);
+    }
+    // Plotly has no timezone support, so zoned tooltips get their X as preformatted text
+    const zonedHover = data.xKind === 'date' && displayTimeZone !== UTC;
+    const hover = (xs: number[], name: string): Partial<PlotData> =>
+      zonedHover
+        ? {
+            text: xs.map((x) => formatTimestamp(x, displayTimeZone)),
+            hovertemplate: `%{text}<br>${name}: %{y}<extra></extra>`,
+          }
+        : { hovertemplate: `%{x}<br>${name}: %{y}<extra></extra>` };
+
+    const seriesTrace = (
+      s: SequenceSeries,
+      pyramid: MinMaxPyramid,
+      yaxis: string,
+      extra: Partial<PlotData> = {}
+    ): Data => {
+      const indices = queryMinMax(pyramid, s.values, i0, i1, buckets);
+      // Date axes take epoch milliseconds directly
+      const x = indices.map((i) => xs[i]);
+      return {
+        x,
+        // Missing values break the line instead of being interpolated across
+        y: indices.map((i) => (Number.isNaN(s.values[i]) ? null : s.values[i])),
+        customdata: indices,
+        connectgaps: false,
+        name: s.name,
+        yaxis,
+        type: 'scatter',
+        mode: 'lines',
+        ...hover(x, s.name),
+        ...extra,
+      };
+    };
+    // Compared files: their own rows in view, drawn at aligned X. They carry no
+    // customdata, since their rows are not rows of `data`.
+    const comparisonTraces = shownComparisons.flatMap((c, j) => {
+      const cxs = c.data.xValues;
+      const { pyramids: cPyramids, ascending } = comparisonIndex(c.data);
+      let c0 = 0;
+      let c1 = cxs.length;
+      if (xRange && ascending && c.alignment.scale > 0) {
+        c0 = Math.max(0, lowerBound(cxs, unalignX(cxs, c.alignment, xRange[0])) - 1);
+        c1 = Math.min(cxs.length, upperBound(cxs, unalignX(cxs, c.alignment, xRange[1])) + 1);
+      }
+      return c.data.series.map((s, k): Data => {
+        const indices = queryMinMax(cPyramids[k], s.values, c0, c1, buckets);
+        const name = `${c.name}: ${s.name}`;
+        const x = indices.map((i) => alignX(cxs, c.alignment, cxs[i]));
+        return {
+          x,
+          y: indices.map((i) => (Number.isNaN(s.values[i]) ? null : s.values[i])),
+          connectgaps: false,
+          name,
+          yaxis: comparisonAxisId(j, k),
           type: 'scatter',
           mode: 'lines',
-          hovertemplate: `%{x}<br>${data.valueAxisName}: %{y}<extra></extra>`,
-        },
-      ]}
-      layout={{
-        width: rightPaneWidth,
-        height: rightPaneHeight,
-        margin: { l: 56, r: 20, t: 30, b: 40 },
-        showlegend: false,
-        dragmode: 'pan', // drag = pan
-        xaxis: {
-          type: data.dataPoints[0]?.[0] instanceof Date ? 'date' : 'linear',
-          title: { text: data.timeAxisName },
-          hoverformat: '%Y-%m-%d %H:%M:%S',
+          line: { dash: 'dash' },
+          ...hover(x, name),
+        };
+      });
+    });
+    return [
+      ...data.series.map((s, k) => seriesTrace(s, pyramids[k], seriesYAxisId(k, stacked))),
+      ...(derived?.series ?? []).map((s, k) =>
+        seriesTrace(s, derivedPyramids[k], derivedAxisId(k), { line: { dash: 'dot' } })
+      ),
+      ...comparisonTraces,
+    ];
+  }, [
+    data, derived, shownComparisons, stacked, pyramids, derivedPyramids, derivedAxisId,
+    comparisonAxisId, xAscending, xRange, buckets, displayTimeZone,
+  ]);
+
+  const highlightTraces = useMemo((): Data[] => {
+    const markers = (row: number | null, color: string): Data[] =>
+      row === null || row >= data.xValues.length
+        ? []
+        : data.series.map((s, k) => ({
+            x: [data.xValues[row]],
+            y: [Number.isNaN(s.values[row]) ? null : s.values[row]],
+            yaxis: seriesYAxisId(k, stacked),
+            type: 'scatter',
+            mode: 'markers',
+            marker: { size: 11, color: 'rgba(0, 0, 0, 0)', line: { width: 2, color } },
+            showlegend: false,
+            hoverinfo: 'skip',
+          }));
+    return [...markers(referenceIndex, referenceColor), ...markers(highlightIndex, '#d62728')];
+  }, [data, stacked, highlightIndex, referenceIndex]);
+
+  // One marker trace per series with flagged points, drawn over the lines
+  const outlierTraces = useMemo((): Data[] => {
+    const bySeries = new Map<number, Outlier[]>();
+    for (const o of outliers.slice(0, MAX_OUTLIER_MARKERS)) {
+      const list = bySeries.get(o.series);
+      if (list) list.push(o);
+      else bySeries.set(o.series, [o]);
+    }
+    return [...bySeries].map(([k, list]): Data => ({
+      x: list.map((o) => data.xValues[o.row]),
+      y: list.map((o) => o.value),
+      yaxis: seriesYAxisId(k, stacked),
+      type: 'scatter',
+      mode: 'markers',
+      marker: { size: 8, symbol: 'x', color: outlierColor },
+      showlegend: false,
+      hoverinfo: 'skip',
+    }));
+  }, [data, stacked, outliers]);
+
+  const shapes = useMemo((): Partial<Shape>[] => {
+    // Shapes on date axes take date strings rather than epoch ms
+    const shapeX = (row: number) =>
+      data.xKind === 'date' ? new Date(data.xValues[row]).toISOString() : data.xValues[row];
+    const lines = thresholds.flatMap((t): Partial<Shape>[] => {
+      const yref = seriesYAxisId(t.series, stacked) as Shape['yref'];
+      const line = { color: thresholdColors[t.kind], width: 1.5 };
+      const limit: Partial<Shape> = {
+        type: 'line', xref: 'paper', x0: 0, x1: 1, yref, y0: t.value, y1: t.value, line,
+      };
+      if (!(t.hysteresis > 0)) return [limit];
+      const release = t.kind === 'upper' ? t.value - t.hysteresis : t.value + t.hysteresis;
+      return [
+        limit,
+        { ...limit, y0: release, y1: release, line: { ...line, width: 1, dash: 'dot' } },
+      ];
+    });
+    const regions = thresholdEvents.slice(0, MAX_EVENT_SHAPES).map((ev): Partial<Shape> => ({
+      type: 'rect',
+      xref: 'x',
+      x0: shapeX(ev.start),
+      x1: shapeX(ev.end),
+      // Span the event's own subplot only
+      yref: `${seriesYAxisId(ev.series, stacked)} domain` as Shape['yref'],
+      y0: 0,
+      y1: 1,
+      fillcolor: thresholdColors[ev.kind],
+      opacity: 0.15,
+      line: { width: 0 },
+      layer: 'below',
+    }));
+    // Vertical lines through the keyboard cursor and the reference cursor
+    const cursors = [
+      { row: referenceIndex, line: { color: referenceColor, width: 1, dash: 'dash' as const } },
+      { row: cursorIndex, line: { color: cursorColor, width: 1 } },
+    ].flatMap(({ row, line }): Partial<Shape>[] =>
+      row === null || row >= data.xValues.length
+        ? []
+        : [{ type: 'line', xref: 'x', x0: shapeX(row), x1: shapeX(row), yref: 'paper', y0: 0, y1: 1, line }]
+    );
+    const classes = new Map(labelClasses.map((c) => [c.id, c]));
+    const labelRegions = labels.slice(0, MAX_LABEL_SHAPES).map((l): Partial<Shape> => {
+      const cls = classes.get(l.classId);
+      const color = cls?.color ?? '#888';
+      const selected = l.id === selectedLabelId;
+      const fill = labelFill(color, selected ? 0.35 : 0.18);
+      return {
+        type: 'rect',
+        xref: 'x',
+        x0: data.xKind === 'date' ? new Date(l.x0).toISOString() : l.x0,
+        x1: data.xKind === 'date' ? new Date(l.x1).toISOString() : l.x1,
+        yref: 'paper',
+        y0: 0,
+        y1: 1,
+        fillcolor: fill ?? color,
+        ...(fill ? {} : { opacity: selected ? 0.35 : 0.18 }),
+        line: selected ? { color, width: 2 } : { width: 0 },
+        layer: 'below',
+        label: { text: cls?.name ?? '', textposition: 'top left', font: { size: 11, color } },
+      };
+    });
+    return [...labelRegions, ...regions, ...lines, ...cursors];
+  }, [
+    data, stacked, thresholds, thresholdEvents, cursorIndex, referenceIndex, labels,
+    labelClasses, selectedLabelId,
+  ]);
+
+  const layout = useMemo((): Partial<Layout> => {
+    const yAxes: Record<string, Partial<LayoutAxis>> = {};
+    const derivedSeries = derived?.series ?? [];
+    // Subplots from top to bottom: raw (and derived, when stacked), then compared files
+    const subplots = stacked
+      ? [...data.series, ...derivedSeries].map((s, k) => ({ key: yAxisKey(k), title: s.name }))
+      : [{ key: 'yaxis', title: data.series.length === 1 ? data.series[0].name : '' }];
+    if (comparisonLayout === 'stacked') {
+      shownComparisons.forEach((c, j) =>
+        subplots.push({ key: yAxisKey(axesBeforeComparisons + j), title: c.name })
+      );
+    }
+    subplots.forEach(({ key, title }, i) => {
+      yAxes[key] = {
+        title: { text: title },
+        zeroline: false,
+        ...(subplots.length > 1 ? { domain: stackedDomain(i, subplots.length) } : {}),
+      };
+    });
+    if (!stacked && derivedSeries.length > 0) {
+      yAxes.yaxis2 = {
+        title: { text: derivedSeries.length === 1 ? derivedSeries[0].name : 'Derived' },
+        overlaying: 'y',
+        side: 'right',
+        zeroline: false,
+        domain: yAxes.yaxis.domain,
+      };
+    }
+    for (const [key, axis] of Object.entries(yAxes)) {
+      const range = yRanges[key];
+      Object.assign(axis, range ? { range: [...range], autorange: false } : { autorange: true });
+    }
+    const rightAxis = !stacked && derivedSeries.length > 0;
+    return {
+      width: rightPaneWidth,
+      height: rightPaneHeight,
+      margin: { l: 56, r: rightAxis ? 56 : 20, t: 30, b: 40 },
+      // Clicking a legend entry toggles that channel
+      showlegend: traces.length > 1,
+      legend: { orientation: 'h', x: 0, y: 1, yanchor: 'bottom' },
+      // drag = pan; in label mode a drag marks an X range
+      dragmode: labelMode ? 'select' : 'pan',
+      selectdirection: 'h',
+      xaxis: {
+        type: data.xKind === 'date' ? 'date' : 'linear',
+        title: {
+          text:
+            data.xKind === 'date' && displayTimeZone !== UTC
+              ? `${data.timeAxisName} (UTC)`
+              : data.timeAxisName,
         },
-        yaxis: { title: { text: data.valueAxisName }, zeroline: false },
-        uirevision: 'keep',
-      }}
-      config={{
-        responsive: true,
-        displaylogo: false,
-        // Let us decide when wheel zoom happens via modifiers:
-        scrollZoom: false,
-        // If you prefer default wheel-zoom when no modifiers are held, set this to true
-        // and remove the "return" early in the handler above.
-      }}
-      style={{ width: rightPaneWidth, height: rightPaneHeight }}
-      onInitialized={(_, graphDiv) => {
-        gdRef.current = graphDiv as PlotlyHTMLElement;
-        attachWheel(gdRef.current);
-      }}
-      onUpdate={(_, graphDiv) => {
-        gdRef.current = graphDiv as PlotlyHTMLElement;
-        attachWheel(gdRef.current);
-      }}
-    />
+        hoverformat: '%Y-%m-%d %H:%M:%S',
+        ...(xRange ? { range: [...xRange], autorange: false } : { autorange: true }),
+      },
+      ...yAxes,
+      shapes,
+      uirevision: chartUiRevision(revision, layoutMode),
+    };
+  }, [
+    data, revision, derived, shownComparisons, comparisonLayout, axesBeforeComparisons,
+    traces.length, displayTimeZone,
+    stacked, layoutMode, rightPaneWidth, rightPaneHeight, xRange, yRanges, shapes, labelMode,
+  ]);
+
+  // --- Keyboard navigation; changes go through relayout, like the wheel zoom ---
+
+  const relayout = (update: Record<string, unknown>) => {
+    const gd = gdRef.current;
+    if (gd) windowPlotly().relayout(gd, update as Partial<Layout>);
+  };
+
+  // The ranges on screen, autoranged axes included (numbers; epoch ms on date axes)
+  const currentView = (): { x: AxisRange; y: Record<string, AxisRange> } | null => {
+    const gd = gdRef.current;
+    if (!gd) return null;
+    const full = fullLayout(gd);
+    const y: Record<string, AxisRange> = {};
+    for (const key of Object.keys(full)) {
+      if (/^yaxis\d*$/.test(key)) y[key] = [Number(full[key].range[0]), Number(full[key].range[1])];
+    }
+    const [x0, x1] = full.xaxis.range;
+    return { x: [axisValueToNumber(x0), axisValueToNumber(x1)], y };
+  };
+
+  // Move the cursor, panning so it stays on screen
+  const moveCursor = (row: number) => {
+    onCursorChange?.(row);
+    const view = currentView();
+    const x = data.xValues[row];
+    if (view && !(x >= view.x[0] && x <= view.x[1])) {
+      const half = (view.x[1] - view.x[0]) / 2;
+      relayout({ 'xaxis.autorange': false, 'xaxis.range': [x - half, x + half] });
+    }
+  };
+
+  const stepCursor = (direction: 1 | -1, page: boolean) => {
+    const n = data.xValues.length;
+    const view = currentView();
+    const [v0, v1] = view ? rowsInRange(data.xValues, xAscending, view.x[0], view.x[1]) : [0, n];
+    if (cursorIndex === null || cursorIndex >= n) {
+      // Start from the edge of the visible points
+      moveCursor(direction > 0 ? Math.min(v0, n - 1) : Math.max(v1 - 1, 0));
+      return;
+    }
+    const pageRows = xAscending ? Math.max(1, v1 - v0) : Math.max(1, Math.round(n / 10));
+    moveCursor(stepRow(cursorIndex, direction * (page ? pageRows : 1), n));
+  };
+
+  const zoomX = (factor: number) => {
+    const view = currentView();
+    if (!view) return;
+    const center = cursorIndex !== null && cursorIndex < data.xValues.length
+      ? data.xValues[cursorIndex]
+      : undefined;
+    relayout({ 'xaxis.autorange': false, 'xaxis.range': zoomRange(view.x, factor, center) });
+  };
+
+  const zoomY = (factor: number) => {
+    const view = currentView();
+    if (!view) return;
+    const update: Record<string, unknown> = {};
+    for (const [key, range] of Object.entries(view.y)) {
+      update[`${key}.autorange`] = false;
+      update[`${key}.range`] = zoomRange(range, factor);
+    }
+    relayout(update);
+  };
+
+  // Fit every value axis to what its traces show inside the visible X range
+  const autoscaleY = () => {
+    const view = currentView();
+    if (!view) return;
+    const [x0, x1] = view.x;
+    const extents: Record<string, AxisRange> = {};
+    const add = (axisId: string, values: Float64Array, [start, end]: [number, number]) => {
+      const extent = valueExtent(values, start, end);
+      if (!extent) return;
+      const key = axisKeyOf(axisId);
+      const prev = extents[key];
+      extents[key] = prev ? [Math.min(prev[0], extent[0]), Math.max(prev[1], extent[1])] : extent;
+    };
+    const rows = rowsInRange(data.xValues, xAscending, x0, x1);
+    data.series.forEach((s, k) => add(seriesYAxisId(k, stacked), s.values, rows));
+    derived?.series.forEach((s, k) => add(derivedAxisId(k), s.values, rows));
+    shownComparisons.forEach((c, j) => {
+      const cxs = c.data.xValues;
+      const ascending = comparisonIndex(c.data).ascending && c.alignment.scale > 0;
+      const cRows = rowsInRange(
+        cxs, ascending, unalignX(cxs, c.alignment, x0), unalignX(cxs, c.alignment, x1)
+      );
+      c.data.series.forEach((s, k) => add(comparisonAxisId(j, k), s.values, cRows));
+    });
+    const update: Record<string, unknown> = {};
+    for (const [key, extent] of Object.entries(extents)) {
+      update[`${key}.autorange`] = false;
+      update[`${key}.range`] = padRange(extent);
+    }
+    relayout(update);
+  };
+
+  const resetView = () => {
+    const view = currentView();
+    if (!view) return;
+    const update: Record<string, unknown> = { 'xaxis.autorange': true };
+    for (const key of Object.keys(view.y)) update[`${key}.autorange`] = true;
+    relayout(update);
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const n = data.xValues.length;
+    switch (e.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight':
+        stepCursor(e.key === 'ArrowLeft' ? -1 : 1, e.shiftKey);
+        break;
+      case 'PageUp':
+      case 'PageDown':
+        stepCursor(e.key === 'PageUp' ? -1 : 1, true);
+        break;
+      case 'Home':
+        moveCursor(0);
+        break;
+      case 'End':
+        moveCursor(n - 1);
+        break;
+      case '+':
+      case '=':
+        zoomX(ZOOM_IN);
+        break;
+      case '-':
+      case '_':
+        zoomX(ZOOM_OUT);
+        break;
+      case 'ArrowUp':
+        zoomY(ZOOM_IN);
+        break;
+      case 'ArrowDown':
+        zoomY(ZOOM_OUT);
+        break;
+      case 'a':
+      case 'A':
+        autoscaleY();
+        break;
+      case '0':
+        resetView();
+        break;
+      case 'm':
+      case 'M':
+        if (cursorIndex !== null && cursorIndex < n) {
+          onReferenceChange?.(referenceIndex === cursorIndex ? null : cursorIndex);
+        }
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (!labelMode || selectedLabelId === null) return;
+        onLabelDelete?.(selectedLabelId);
+        break;
+      case 'Escape':
+        if (showHelp) setShowHelp(false);
+        else onReferenceChange?.(null);
+        break;
+      case '?':
+        setShowHelp(!showHelp);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const showReadout = cursorIndex !== null && cursorIndex < data.xValues.length;
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={0}
+      style={{ position: 'relative', width: rightPaneWidth, height: rightPaneHeight, outline: 'none' }}
+      onKeyDown={onKeyDown}
+      // Plotly's drag layer swallows the focusing mousedown
+      onPointerDownCapture={() => containerRef.current?.focus({ preventScroll: true })}
+    >
+      <Plot
+        data={[...traces, ...outlierTraces, ...highlightTraces]}
+        layout={layout}
+        config={{
+          responsive: true,
+          displaylogo: false,
+          // Let us decide when wheel zoom happens via modifiers:
+          scrollZoom: false,
+          // If you prefer default wheel-zoom when no modifiers are held, set this to true
+          // and remove the "return" early in the handler above.
+        }}
+        style={{ width: rightPaneWidth, height: rightPaneHeight }}
+        onRelayout={onRelayout}
+        onHover={(e) => onPointHover?.(pointIndex(e))}
+        onUnhover={() => onPointHover?.(null)}
+        onClick={(e) => {
+          const index = pointIndex(e);
+          if (index === null) return;
+          onPointClick?.(index);
+          if (labelMode) onLabelSelect?.(labelAt(labels, data.xValues[index])?.id ?? null);
+        }}
+        onSelected={(e) => {
+          const selection = e ? readSelectionEvent(e) : null;
+          if (!labelMode) {
+            onSelectionChange?.(selection);
+            return;
+          }
+          if (selection?.kind === 'box' && selection.x[0] !== selection.x[1]) {
+            onLabelDraw?.(Math.min(...selection.x), Math.max(...selection.x));
+          }
+          // The drawn label replaces the selection box
+          relayout({ selections: [] });
+        }}
+        onDeselect={() => onSelectionChange?.(null)}
+        onInitialized={(_, graphDiv) => {
+          gdRef.current = graphDiv as PlotlyHTMLElement;
+          attachWheel(gdRef.current);
+        }}
+        onUpdate={(_, graphDiv) => {
+          gdRef.current = graphDiv as PlotlyHTMLElement;
+          attachWheel(gdRef.current);
+        }}
+      />
+      <div
+        style={{
+          position: 'absolute',
+          top: 32,
+          right: 24,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'flex-end',
+          gap: '4px',
+        }}
+      >
+        <button title="Keyboard shortcuts (?)" onClick={() => setShowHelp(!showHelp)}>
+          ?
+        </button>
+        {showReadout && (
+          <div style={{ pointerEvents: 'none' }}>
+            <CursorReadout
+              data={data}
+              cursor={cursorIndex}
+              reference={referenceIndex !== null && referenceIndex < data.xValues.length ? referenceIndex : null}
+              timeZone={displayTimeZone}
+            />
+          </div>
+        )}
+      </div>
+      {showHelp && <ChartHelpOverlay onClose={() => setShowHelp(false)} />}
+    </div>
   );
 }
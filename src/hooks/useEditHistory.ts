@@ -0,0 +1,92 @@
+import { useCallback, useState } from "react";
+import { applyEdit, type SequenceEdit } from "../utils/editSequence";
+import type { SequenceData } from "../utils/parseDataText";
+
+// Oldest undo steps are dropped past this many
+const MAX_UNDO_STEPS = 1000;
+
+type History = {
+  /** Inverses of the applied edits, newest last */
+  undo: SequenceEdit[];
+  /** Inverses of the undone edits, newest last */
+  redo: SequenceEdit[];
+  /** Undo steps were dropped, so emptying `undo` no longer means "as loaded" */
+  truncated: boolean;
+};
+
+const emptyHistory: History = { undo: [], redo: [], truncated: false };
+
+export type EditHistory = {
+  /** Apply an edit to the current sequence, clearing the redo steps. */
+  apply: (edit: SequenceEdit) => void;
+  undo: () => void;
+  redo: () => void;
+  /** Forget every step, e.g. once a new file is shown. */
+  reset: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** The sequence differs from the one loaded */
+  dirty: boolean;
+};
+
+/**
+ * Undo/redo for edits of `data`. Each step stores only the inverse edit, not a copy of
+ * the sequence (except `replace` steps, which keep the sequence they replaced);
+ * `onChange` receives every edited sequence.
+ */
+export default function useEditHistory(
+  data: SequenceData | null,
+  onChange: (data: SequenceData) => void
+): EditHistory {
+  const [history, setHistory] = useState<History>(emptyHistory);
+
+  const apply = useCallback(
+    (edit: SequenceEdit) => {
+      if (!data) return;
+      const { data: next, inverse } = applyEdit(data, edit);
+      onChange(next);
+      setHistory((h) => {
+        const undo = [...h.undo, inverse];
+        const dropped = Math.max(0, undo.length - MAX_UNDO_STEPS);
+        return { undo: undo.slice(dropped), redo: [], truncated: h.truncated || dropped > 0 };
+      });
+    },
+    [data, onChange]
+  );
+
+  const undo = useCallback(() => {
+    const step = history.undo[history.undo.length - 1];
+    if (!data || !step) return;
+    const { data: next, inverse } = applyEdit(data, step);
+    onChange(next);
+    setHistory({
+      ...history,
+      undo: history.undo.slice(0, -1),
+      redo: [...history.redo, inverse],
+    });
+  }, [data, history, onChange]);
+
+  const redo = useCallback(() => {
+    const step = history.redo[history.redo.length - 1];
+    if (!data || !step) return;
+    const { data: next, inverse } = applyEdit(data, step);
+    onChange(next);
+    setHistory({
+      ...history,
+      undo: [...history.undo, inverse],
+      redo: history.redo.slice(0, -1),
+    });
+  }, [data, history, onChange]);
+
+  const reset = useCallback(() => setHistory(emptyHistory), []);
+
+  return {
+    apply,
+    undo,
+    redo,
+    reset,
+    canUndo: history.undo.length > 0,
+    canRedo: history.redo.length > 0,
+    dirty: history.undo.length > 0 || history.truncated,
+  };
+}
@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { appendRows } from "../utils/editSequence";
+import {
+  followFile,
+  followStream,
+  shiftX,
+  type LiveFeed,
+  type LiveFeedHandlers,
+} from "../utils/liveTail";
+import {
+  createSequenceParser,
+  type ParseOptions,
+  type SequenceData,
+  type SequenceParser,
+} from "../utils/parseDataText";
+
+// Rows are handed to the app at most this often, however fast the feed is
+const APPLY_INTERVAL_MS = 250;
+
+export type LiveState = "following" | "paused" | "stopped" | "failed";
+
+export type LiveStatus = {
+  /** File name or feed address */
+  source: string;
+  state: LiveState;
+  /** Rows added since the start, held-back rows included */
+  rows: number;
+  /** Rows received while paused, shown on resume */
+  held: number;
+  /** Rows left out because they did not parse */
+  skipped: number;
+  lastProblem: string | null;
+  /** Why the feed ended, when it failed */
+  error: string | null;
+  /** When rows last arrived (ms since the epoch) */
+  updatedAt: number | null;
+};
+
+/** Where a live session starts from. */
+export type LiveStart = {
+  source: string;
+  /** Rows already shown; null when the session starts without data (a stream) */
+  base: SequenceData | null;
+  /** X is the row number, so appended rows continue counting after `base` */
+  xIsIndex: boolean;
+  options: ParseOptions;
+  /** Open the source; the handlers receive its text */
+  open: (handlers: LiveFeedHandlers) => LiveFeed;
+};
+
+export type LiveTail = {
+  status: LiveStatus | null;
+  start: (session: LiveStart) => void;
+  /** Hold new rows back (the chart stays put) until `resume` */
+  pause: () => void;
+  resume: () => void;
+  stop: () => void;
+};
+
+type Session = {
+  source: string;
+  parser: SequenceParser;
+  feed: LiveFeed | null;
+  rowOffset: number;
+  /** No rows were shown yet, so the first ones start the sequence */
+  empty: boolean;
+  /** Parsed rows not passed on yet (paused, or waiting for the next apply) */
+  pending: SequenceData | null;
+  paused: boolean;
+};
+
+/** Follow a growing file through the File System Access API. */
+export const fileSession = (
+  handle: FileSystemFileHandle,
+  offset: number,
+  base: SequenceData,
+  xIsIndex: boolean,
+  options: ParseOptions
+): LiveStart => ({
+  source: handle.name,
+  base,
+  xIsIndex,
+  options,
+  open: (handlers) => followFile(handle, offset, handlers),
+});
+
+/** Receive records from a local WebSocket or Server-Sent Events feed. */
+export const streamSession = (url: string, options: ParseOptions): LiveStart => ({
+  source: url,
+  base: null,
+  xIsIndex: false,
+  options,
+  open: (handlers) => followStream(url, handlers),
+});
+
+/**
+ * Live mode: text from a followed file or feed goes through the sequence parser (the rules
+ * of `parseDataText`) as it arrives, and the complete rows are handed to `onRows` in
+ * batches. `first` marks the rows that start a session without data: they are shown as a
+ * new sequence named after `source`; later rows are appended to it.
+ */
+export default function useLiveTail(
+  onRows: (rows: SequenceData, first: boolean, source: string) => void
+): LiveTail {
+  const [status, setStatus] = useState<LiveStatus | null>(null);
+  const sessionRef = useRef<Session | null>(null);
+  const onRowsRef = useRef(onRows);
+  useEffect(() => {
+    onRowsRef.current = onRows;
+  }, [onRows]);
+
+  const update = useCallback(
+    (patch: Partial<LiveStatus>) => setStatus((prev) => prev && { ...prev, ...patch }),
+    []
+  );
+
+  const flush = useCallback((session: Session) => {
+    const rows = session.pending;
+    if (!rows || session.paused || sessionRef.current !== session) return;
+    session.pending = null;
+    const first = session.empty;
+    session.empty = false;
+    onRowsRef.current(rows, first, session.source);
+    update({ held: 0 });
+  }, [update]);
+
+  const stop = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.feed?.stop();
+    // Rows that already arrived are not lost by stopping
+    session.paused = false;
+    flush(session);
+    sessionRef.current = null;
+    setStatus((prev) =>
+      prev && (prev.state === "failed" ? prev : { ...prev, state: "stopped", held: 0 })
+    );
+  }, [flush]);
+
+  const start = useCallback(
+    ({ source, base, xIsIndex, options, open }: LiveStart) => {
+      stop();
+      const session: Session = {
+        source,
+        parser: createSequenceParser(options),
+        feed: null,
+        rowOffset: xIsIndex && base ? base.xValues.length : 0,
+        empty: !base,
+        pending: null,
+        paused: false,
+      };
+      sessionRef.current = session;
+      setStatus({
+        source,
+        state: "following",
+        rows: 0,
+        held: 0,
+        skipped: 0,
+        lastProblem: null,
+        error: null,
+        updatedAt: null,
+      });
+
+      let flushTimer: ReturnType<typeof setTimeout> | undefined;
+      const fail = (err: Error) => {
+        if (sessionRef.current !== session) return;
+        clearTimeout(flushTimer);
+        session.feed?.stop();
+        session.paused = false;
+        flush(session);
+        sessionRef.current = null;
+        update({ state: "failed", error: err.message, held: 0 });
+      };
+
+      try {
+        session.feed = open({
+          onText(text) {
+            if (sessionRef.current !== session) return;
+            try {
+              session.parser.push(text);
+            } catch (err) {
+              // Problems with the input as a whole (mixed delimiters, ...) end the session
+              fail(err instanceof Error ? err : new Error(String(err)));
+              return;
+            }
+            const rows = shiftX(session.parser.takeRows(), session.rowOffset);
+            const skipped = rows.skippedRows;
+            if (rows.xValues.length === 0 && !skipped) return;
+            session.pending = session.pending ? appendRows(session.pending, rows) : rows;
+            setStatus(
+              (prev) =>
+                prev && {
+                  ...prev,
+                  rows: prev.rows + rows.xValues.length,
+                  held: session.paused ? prev.held + rows.xValues.length : 0,
+                  skipped: prev.skipped + (skipped?.count ?? 0),
+                  lastProblem: skipped?.diagnostics[0]?.message ?? prev.lastProblem,
+                  updatedAt: Date.now(),
+                }
+            );
+            if (session.pending.xValues.length === 0) {
+              session.pending = null;
+            } else if (flushTimer === undefined) {
+              flushTimer = setTimeout(() => {
+                flushTimer = undefined;
+                flush(session);
+              }, APPLY_INTERVAL_MS);
+            }
+          },
+          onError: fail,
+        });
+      } catch (err) {
+        fail(err instanceof Error ? err : new Error(String(err)));
+      }
+    },
+    [stop, flush, update]
+  );
+
+  const pause = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.paused = true;
+    update({ state: "paused" });
+  }, [update]);
+
+  const resume = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.paused = false;
+    update({ state: "following" });
+    flush(session);
+  }, [flush, update]);
+
+  // The feed must not outlive the app
+  useEffect(
+    () => () => {
+      sessionRef.current?.feed?.stop();
+      sessionRef.current = null;
+    },
+    []
+  );
+
+  return { status, start, pause, resume, stop };
+}
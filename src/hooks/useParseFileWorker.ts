@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ParseOptions, SequenceData } from "../utils/parseDataText";
+import { ParseError } from "../utils/parseDiagnostics";
+import type {
+  ParseFileRequest,
+  ParseFileResponse,
+  ParseProgress,
+} from "../workers/parseFile.worker";
+
+export class ParseCancelledError extends Error {
+  constructor() {
+    super("Parsing was cancelled");
+    this.name = "ParseCancelledError";
+  }
+}
+
+export type ParseFileWorker = {
+  /**
+   * Parse a file off the main thread. Starting a new parse cancels the running one.
+   * Rejects with `ParseError` when the parser reports diagnostics.
+   */
+  parse: (file: File, options: ParseOptions) => Promise<SequenceData>;
+  /** Abort the running parse; its promise rejects with `ParseCancelledError`. */
+  cancel: () => void;
+  /** Progress of the running parse, or `null` when idle. */
+  progress: (ParseProgress & { fileName: string }) | null;
+};
+
+type RunningParse = {
+  worker: Worker;
+  reject: (err: Error) => void;
+};
+
+/**
+ * React hook that parses files in a dedicated Web Worker (one per parse), reporting
+ * byte/row progress and supporting cancellation by terminating the worker.
+ */
+export default function useParseFileWorker(): ParseFileWorker {
+  const runningRef = useRef<RunningParse | null>(null);
+  const [progress, setProgress] = useState<ParseFileWorker["progress"]>(null);
+
+  const stop = useCallback((run: RunningParse) => {
+    run.worker.terminate();
+    if (runningRef.current === run) {
+      runningRef.current = null;
+      setProgress(null);
+    }
+  }, []);
+
+  const cancel = useCallback(() => {
+    const run = runningRef.current;
+    if (!run) return;
+    stop(run);
+    run.reject(new ParseCancelledError());
+  }, [stop]);
+
+  const parse = useCallback(
+    (file: File, options: ParseOptions) => {
+      cancel();
+      return new Promise<SequenceData>((resolve, reject) => {
+        const worker = new Worker(
+          new URL("../workers/parseFile.worker.ts", import.meta.url),
+          { type: "module" }
+        );
+        const run: RunningParse = { worker, reject };
+        runningRef.current = run;
+        setProgress({
+          fileName: file.name,
+          bytesRead: 0,
+          totalBytes: file.size,
+          rows: 0,
+        });
+
+        worker.onmessage = (e: MessageEvent<ParseFileResponse>) => {
+          const msg = e.data;
+          if (msg.type === "progress") {
+            if (runningRef.current === run) {
+              setProgress({
+                fileName: file.name,
+                bytesRead: msg.bytesRead,
+                totalBytes: msg.totalBytes,
+                rows: msg.rows,
+              });
+            }
+          } else if (msg.type === "done") {
+            stop(run);
+            resolve(msg.data);
+          } else {
+            stop(run);
+            reject(
+              msg.diagnostics
+                ? new ParseError(msg.diagnostics, msg.totalCount)
+                : new Error(msg.message)
+            );
+          }
+        };
+        worker.onerror = (e) => {
+          stop(run);
+          reject(new Error(e.message || "Error parsing data"));
+        };
+
+        const request: ParseFileRequest = { file, options };
+        worker.postMessage(request);
+      });
+    },
+    [cancel, stop]
+  );
+
+  // Don't leave a worker running after unmount
+  useEffect(() => {
+    return () => {
+      runningRef.current?.worker.terminate();
+      runningRef.current = null;
+    };
+  }, []);
+
+  return { parse, cancel, progress };
+}
@@ -0,0 +1,176 @@
+import type { SequenceData, XKind } from "./parseDataText";
+import { axisValueToNumber, isAscending } from "./plotlyAxis";
+import { fft } from "./spectrum";
+
+/**
+ * How a compared dataset's X maps onto the reference X: stretched by `scale` around its
+ * first sample, then shifted by `offset` (X units; ms on date axes).
+ */
+export type XAlignment = { offset: number; scale: number };
+
+/** A file loaded next to the reference sequence for comparison. */
+export type ComparisonDataset = {
+  id: string;
+  name: string;
+  data: SequenceData;
+  visible: boolean;
+  alignment: XAlignment;
+};
+
+export const identityAlignment: XAlignment = { offset: 0, scale: 1 };
+
+// Grids longer than this are coarsened for cross-correlation
+const MAX_CORRELATION_POINTS = 1 << 17;
+
+/** Aligned X of `xs[i]`. */
+export function alignX(xs: Float64Array, alignment: XAlignment, x: number): number {
+  const x0 = xs.length > 0 ? xs[0] : 0;
+  return x0 + (x - x0) * alignment.scale + alignment.offset;
+}
+
+/** Inverse of `alignX`: the dataset's own X that lands on aligned `x`. */
+export function unalignX(xs: Float64Array, alignment: XAlignment, x: number): number {
+  const x0 = xs.length > 0 ? xs[0] : 0;
+  return x0 + (x - alignment.offset - x0) / alignment.scale;
+}
+
+/** Offset that puts the first sample of `target` on the first sample of `reference`. */
+export function alignFirstSample(
+  reference: SequenceData,
+  target: SequenceData,
+  scale: number
+): XAlignment {
+  return { scale, offset: reference.xValues[0] - target.xValues[0] };
+}
+
+/** Offset that puts `targetX` (in the target's own X) on `referenceX`. */
+export function alignAt(
+  target: SequenceData,
+  targetX: number,
+  referenceX: number,
+  scale: number
+): XAlignment {
+  const probe = alignX(target.xValues, { offset: 0, scale }, targetX);
+  return { scale, offset: referenceX - probe };
+}
+
+/**
+ * Parse an X value typed by the user: a number, or for date X an ISO-8601 timestamp
+ * (UTC unless it carries an offset). `NaN` when unreadable.
+ */
+export function parseXInput(text: string, xKind: XKind): number {
+  const t = text.trim();
+  if (xKind === "number") return t === "" ? NaN : Number(t);
+  if (/(?:[zZ]|[+-]\d{2}:\d{2})$/.test(t)) return Date.parse(t);
+  return axisValueToNumber(t);
+}
+
+/** The first series name the two datasets share, as indices; else their first series. */
+export function matchSeries(reference: SequenceData, target: SequenceData): [number, number] {
+  for (let k = 0; k < reference.series.length; k++) {
+    const j = target.series.findIndex((s) => s.name === reference.series[k].name);
+    if (j >= 0) return [k, j];
+  }
+  return [0, 0];
+}
+
+function medianInterval(xs: Float64Array): number {
+  const d = new Float64Array(Math.max(0, xs.length - 1));
+  for (let i = 1; i < xs.length; i++) d[i - 1] = xs[i] - xs[i - 1];
+  d.sort();
+  return d.length > 0 ? d[d.length >> 1] : NaN;
+}
+
+// Linear interpolation of (xs, ys) at x0 + i·dx, zero outside the data and across gaps
+function sampleOnGrid(
+  xs: Float64Array,
+  ys: Float64Array,
+  map: (x: number) => number,
+  x0: number,
+  dx: number,
+  out: Float64Array
+) {
+  let sum = 0;
+  let count = 0;
+  for (const y of ys) {
+    if (Number.isNaN(y)) continue;
+    sum += y;
+    count++;
+  }
+  const mean = count > 0 ? sum / count : 0;
+  let k = 0;
+  const n = xs.length;
+  for (let i = 0; i < out.length; i++) {
+    const x = x0 + i * dx;
+    if (n < 2 || x < map(xs[0]) || x > map(xs[n - 1])) continue;
+    while (k < n - 2 && map(xs[k + 1]) < x) k++;
+    const xa = map(xs[k]);
+    const xb = map(xs[k + 1]);
+    const t = xb > xa ? (x - xa) / (xb - xa) : 0;
+    const y = ys[k] + t * (ys[k + 1] - ys[k]);
+    // Zero-mean so the padding does not dominate the correlation
+    out[i] = Number.isNaN(y) ? 0 : y - mean;
+  }
+}
+
+/**
+ * Offset that best lines `target` up with `reference`: both matched series are resampled on
+ * a common grid (the finer of the two median intervals) and the lag maximizing their
+ * FFT cross-correlation wins. Both X columns must be ascending.
+ */
+export function alignByCrossCorrelation(
+  reference: SequenceData,
+  target: SequenceData,
+  scale: number
+): XAlignment {
+  if (!isAscending(reference.xValues) || !isAscending(target.xValues)) {
+    throw new Error("Cross-correlation needs ascending X in both datasets");
+  }
+  const [kr, kt] = matchSeries(reference, target);
+  const rx = reference.xValues;
+  const tx = target.xValues;
+  const unshifted: XAlignment = { offset: 0, scale };
+  const mapTarget = (x: number) => alignX(tx, unshifted, x);
+
+  const lo = Math.min(rx[0], mapTarget(tx[0]));
+  const hi = Math.max(rx[rx.length - 1], mapTarget(tx[tx.length - 1]));
+  let dx = Math.min(medianInterval(rx), medianInterval(tx) * scale);
+  if (!(dx > 0) || !(hi > lo)) {
+    throw new Error("Not enough distinct X values to correlate");
+  }
+  dx = Math.max(dx, (hi - lo) / MAX_CORRELATION_POINTS);
+  const n = Math.floor((hi - lo) / dx) + 1;
+
+  // Zero-padded to at least 2n so circular correlation has no wrap-around
+  let size = 1;
+  while (size < 2 * n) size <<= 1;
+  const rRe = new Float64Array(size);
+  const rIm = new Float64Array(size);
+  const tRe = new Float64Array(size);
+  const tIm = new Float64Array(size);
+  sampleOnGrid(rx, reference.series[kr].values, (x) => x, lo, dx, rRe.subarray(0, n));
+  sampleOnGrid(tx, target.series[kt].values, mapTarget, lo, dx, tRe.subarray(0, n));
+  fft(rRe, rIm);
+  fft(tRe, tIm);
+
+  // R · conj(T), inverse-transformed through the conjugate trick
+  for (let i = 0; i < size; i++) {
+    const re = rRe[i] * tRe[i] + rIm[i] * tIm[i];
+    const im = rIm[i] * tRe[i] - rRe[i] * tIm[i];
+    rRe[i] = re;
+    rIm[i] = -im;
+  }
+  fft(rRe, rIm);
+
+  // c[s] = Σ r[m + s]·t[m]: shifting the target by s samples matches the reference
+  let bestLag = 0;
+  let best = -Infinity;
+  for (let s = -(n - 1); s <= n - 1; s++) {
+    const c = rRe[s < 0 ? size + s : s];
+    if (c > best) {
+      best = c;
+      bestLag = s;
+    }
+  }
+  return { scale, offset: bestLag * dx };
+}
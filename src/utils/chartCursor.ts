@@ -0,0 +1,76 @@
+import type { SequenceData } from "./parseDataText";
+import type { AxisRange } from "./plotlyAxis";
+
+/** Differences between two cursor rows, per series. */
+export type CursorDelta = {
+  /** X of `b` minus X of `a` (ms on date axes) */
+  dx: number;
+  series: {
+    name: string;
+    dy: number;
+    /** dy per X unit (per second on date axes); NaN when dx is 0 */
+    slope: number;
+  }[];
+};
+
+/** `row` moved by `step` rows and clamped to the data. */
+export function stepRow(row: number, step: number, count: number): number {
+  return Math.min(count - 1, Math.max(0, row + step));
+}
+
+/** ΔX, ΔY and slope from row `a` (the reference) to row `b` (the cursor). */
+export function cursorDelta(data: SequenceData, a: number, b: number): CursorDelta {
+  const dx = data.xValues[b] - data.xValues[a];
+  // Slopes on date axes are per second rather than per millisecond
+  const perUnit = data.xKind === "date" ? dx / 1000 : dx;
+  return {
+    dx,
+    series: data.series.map((s) => {
+      const dy = s.values[b] - s.values[a];
+      return { name: s.name, dy, slope: perUnit !== 0 ? dy / perUnit : NaN };
+    }),
+  };
+}
+
+/** Min/max of `values[start, end)` ignoring gaps, or null when there is nothing to scan. */
+export function valueExtent(values: Float64Array, start: number, end: number): AxisRange | null {
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (let i = start; i < end; i++) {
+    const v = values[i];
+    if (v < lo) lo = v;
+    if (v > hi) hi = v;
+  }
+  return lo <= hi ? [lo, hi] : null;
+}
+
+/** `range` with some room around it, so lines at the limits are not clipped. */
+export function padRange([lo, hi]: AxisRange, fraction = 0.05): AxisRange {
+  const pad = (hi - lo) * fraction || Math.abs(lo) * fraction || 1;
+  return [lo - pad, hi + pad];
+}
+
+/** `range` scaled by `factor` around `center` (inside the range, else its middle). */
+export function zoomRange(range: AxisRange, factor: number, center?: number): AxisRange {
+  const [r0, r1] = range;
+  const c = center !== undefined && center >= r0 && center <= r1 ? center : (r0 + r1) / 2;
+  return [c - (c - r0) * factor, c + (r1 - c) * factor];
+}
+
+/** A ΔX on a date axis (milliseconds) as a readable duration. */
+export function formatDuration(ms: number): string {
+  const sign = ms < 0 ? "-" : "";
+  let rest = Math.abs(ms);
+  if (rest < 1000) return `${sign}${Number(rest.toPrecision(6))} ms`;
+  if (rest < 60_000) return `${sign}${Number((rest / 1000).toPrecision(6))} s`;
+  const days = Math.floor(rest / 86_400_000);
+  rest -= days * 86_400_000;
+  const hours = Math.floor(rest / 3_600_000);
+  rest -= hours * 3_600_000;
+  const minutes = Math.floor(rest / 60_000);
+  const seconds = (rest - minutes * 60_000) / 1000;
+  const hms = `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${seconds
+    .toFixed(3)
+    .padStart(6, "0")}`;
+  return `${sign}${days > 0 ? `${days}d ` : ""}${hms}`;
+}
@@ -0,0 +1,122 @@
+import type { SequenceData } from "./parseDataText";
+import { pointInPolygon } from "./computeStats";
+import {
+  axisValueToNumber,
+  isAscending,
+  lowerBound,
+  upperBound,
+  type AxisRange,
+} from "./plotlyAxis";
+
+/**
+ * A box or lasso selection made on the chart, in data coordinates (epoch ms on date axes).
+ * Y coordinates are keyed by Plotly axis id ("y", "y2", ...) since stacked subplots each
+ * have their own value axis.
+ */
+export type ChartSelection =
+  | { kind: "box"; x: AxisRange; y: Record<string, AxisRange> }
+  | { kind: "lasso"; x: number[]; y: Record<string, number[]> };
+
+/** Rows `[start, end)` to scan, narrowed further by `include` when present. */
+export type RowFilter = {
+  start: number;
+  end: number;
+  include?: (row: number) => boolean;
+};
+
+/** Plotly axis id of series `k`'s value axis. */
+export function seriesYAxisId(k: number, stacked: boolean): string {
+  return stacked && k > 0 ? `y${k + 1}` : "y";
+}
+
+/** Read a `plotly_selected` event; `null` when it carries no usable box or lasso. */
+export function readSelectionEvent(event: {
+  range?: object;
+  lassoPoints?: object;
+}): ChartSelection | null {
+  if (event.range) {
+    let x: AxisRange | null = null;
+    const y: Record<string, AxisRange> = {};
+    for (const [axis, values] of Object.entries(event.range) as [string, unknown[]][]) {
+      const r: AxisRange = [
+        axisValueToNumber(values[0]),
+        axisValueToNumber(values[1]),
+      ];
+      if (axis.startsWith("x")) x = r;
+      else y[axis] = r;
+    }
+    return x ? { kind: "box", x, y } : null;
+  }
+  if (event.lassoPoints) {
+    let x: number[] | null = null;
+    const y: Record<string, number[]> = {};
+    for (const [axis, values] of Object.entries(event.lassoPoints) as [
+      string,
+      unknown[],
+    ][]) {
+      const pts = values.map(axisValueToNumber);
+      if (axis.startsWith("x")) x = pts;
+      else y[axis] = pts;
+    }
+    return x ? { kind: "lasso", x, y } : null;
+  }
+  return null;
+}
+
+/**
+ * Rows of `data` between `range[0]` and `range[1]` on X: a binary-searched slice when X is
+ * ascending, otherwise a full scan with an X test.
+ */
+export function xRangeRowFilter(
+  data: SequenceData,
+  range: AxisRange | null,
+  ascending = isAscending(data.xValues)
+): RowFilter {
+  const xs = data.xValues;
+  if (!range) return { start: 0, end: xs.length };
+  const [x0, x1] = range[0] <= range[1] ? range : [range[1], range[0]];
+  if (ascending) {
+    return { start: lowerBound(xs, x0), end: upperBound(xs, x1) };
+  }
+  return {
+    start: 0,
+    end: xs.length,
+    include: (i) => xs[i] >= x0 && xs[i] <= x1,
+  };
+}
+
+/** Rows of series `k` that fall inside `selection` (or `null` if it is on another subplot). */
+export function selectionRowFilter(
+  data: SequenceData,
+  selection: ChartSelection,
+  k: number,
+  stacked: boolean
+): RowFilter | null {
+  const axis = seriesYAxisId(k, stacked);
+  const ys = data.series[k].values;
+  const xs = data.xValues;
+
+  if (selection.kind === "box") {
+    const yr = selection.y[axis];
+    if (!yr) return null;
+    const [y0, y1] = yr[0] <= yr[1] ? yr : [yr[1], yr[0]];
+    const byX = xRangeRowFilter(data, selection.x);
+    return {
+      start: byX.start,
+      end: byX.end,
+      include: (i) =>
+        (!byX.include || byX.include(i)) && ys[i] >= y0 && ys[i] <= y1,
+    };
+  }
+
+  const py = selection.y[axis];
+  if (!py) return null;
+  const px = selection.x;
+  const byX = xRangeRowFilter(data, [Math.min(...px), Math.max(...px)]);
+  return {
+    start: byX.start,
+    end: byX.end,
+    include: (i) =>
+      (!byX.include || byX.include(i)) && pointInPolygon(xs[i], ys[i], px, py),
+  };
+}
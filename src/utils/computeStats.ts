@@ -0,0 +1,159 @@
+export type SeriesStats = {
+  count: number;
+  min: number;
+  /** Data row of the (first) minimum, -1 when `count` is 0 */
+  minIndex: number;
+  max: number;
+  maxIndex: number;
+  mean: number;
+  median: number;
+  /** Population standard deviation */
+  std: number;
+  rms: number;
+  /** Least-squares slope in Y units per X unit (per millisecond on date axes) */
+  slope: number;
+};
+
+/** k-th smallest value (0-based) of `a`, reordering `a` in place. Average O(n). */
+function quickselect(a: Float64Array, k: number): number {
+  let lo = 0;
+  let hi = a.length - 1;
+  while (lo < hi) {
+    const pivot = a[(lo + hi) >>> 1];
+    let i = lo;
+    let j = hi;
+    while (i <= j) {
+      while (a[i] < pivot) i++;
+      while (a[j] > pivot) j--;
+      if (i <= j) {
+        const t = a[i];
+        a[i] = a[j];
+        a[j] = t;
+        i++;
+        j--;
+      }
+    }
+    if (k <= j) hi = j;
+    else if (k >= i) lo = i;
+    else return a[k];
+  }
+  return a[k];
+}
+
+/**
+ * Descriptive statistics of `ys` over data rows `[start, end)`, optionally narrowed by
+ * `include` (e.g. a box or lasso selection). NaN values (gaps) are skipped.
+ */
+export default function computeStats(
+  xs: Float64Array,
+  ys: Float64Array,
+  start = 0,
+  end = ys.length,
+  include?: (row: number) => boolean
+): SeriesStats {
+  start = Math.max(0, start);
+  end = Math.min(ys.length, end);
+
+  let count = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  let minIndex = -1;
+  let maxIndex = -1;
+  let sumX = 0;
+  let sumY = 0;
+  let sumSq = 0;
+
+  for (let i = start; i < end; i++) {
+    const y = ys[i];
+    if (Number.isNaN(y) || (include && !include(i))) continue;
+    count++;
+    sumX += xs[i];
+    sumY += y;
+    sumSq += y * y;
+    if (y < min) {
+      min = y;
+      minIndex = i;
+    }
+    if (y > max) {
+      max = y;
+      maxIndex = i;
+    }
+  }
+
+  if (count === 0) {
+    return {
+      count,
+      min: NaN,
+      minIndex,
+      max: NaN,
+      maxIndex,
+      mean: NaN,
+      median: NaN,
+      std: NaN,
+      rms: NaN,
+      slope: NaN,
+    };
+  }
+
+  const mean = sumY / count;
+  const meanX = sumX / count;
+
+  // Second pass on centered values keeps variance and slope accurate for epoch-ms X
+  const sample = new Float64Array(count);
+  let n = 0;
+  let varSum = 0;
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = start; i < end; i++) {
+    const y = ys[i];
+    if (Number.isNaN(y) || (include && !include(i))) continue;
+    sample[n++] = y;
+    const dy = y - mean;
+    const dx = xs[i] - meanX;
+    varSum += dy * dy;
+    sxy += dx * dy;
+    sxx += dx * dx;
+  }
+
+  const mid = count >> 1;
+  const upper = quickselect(sample, mid);
+  let median = upper;
+  if (count % 2 === 0) {
+    // quickselect left everything below `mid` in the lower part
+    let lower = -Infinity;
+    for (let i = 0; i < mid; i++) if (sample[i] > lower) lower = sample[i];
+    median = (lower + upper) / 2;
+  }
+
+  return {
+    count,
+    min,
+    minIndex,
+    max,
+    maxIndex,
+    mean,
+    median,
+    std: Math.sqrt(varSum / count),
+    rms: Math.sqrt(sumSq / count),
+    slope: sxx > 0 ? sxy / sxx : NaN,
+  };
+}
+
+/** Ray-casting point-in-polygon test (polygon given as parallel coordinate arrays). */
+export function pointInPolygon(
+  x: number,
+  y: number,
+  px: ArrayLike<number>,
+  py: ArrayLike<number>
+): boolean {
+  let inside = false;
+  for (let i = 0, j = px.length - 1; i < px.length; j = i++) {
+    if (
+      py[i] > y !== py[j] > y &&
+      x < ((px[j] - px[i]) * (y - py[i])) / (py[j] - py[i]) + px[i]
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
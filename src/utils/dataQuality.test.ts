@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  analyzeQuality,
+  dedupeX,
+  defaultQualityOptions,
+  resampleToGrid,
+  sortByX,
+} from "./dataQuality";
+import parseDataText from "./parseDataText";
+
+const read = (text: string) => parseDataText(text, { allowMissing: true });
+
+describe("analyzeQuality", () => {
+  test("counts repeated X values, order violations and gaps", () => {
+    const report = analyzeQuality(
+      read("x,y\n0,1\n1,2\n2,3\n2,4\n2,5\n3,6\n10,7\n11,8\n1,9\n"),
+      defaultQualityOptions
+    );
+    assert.deepEqual(report.orderViolations, [8]);
+    // X 1 twice and X 2 three times: three rows too many, two repeated values
+    assert.equal(report.duplicateRows, 3);
+    assert.equal(report.duplicateValues, 2);
+    assert.equal(report.intervals?.median, 1);
+    assert.deepEqual(report.gaps, [{ from: 3, to: 10, row: 6 }]);
+  });
+
+  test("regular sampling has no gaps", () => {
+    const report = analyzeQuality(read("0,1\n1,2\n2,3\n3,4\n"), defaultQualityOptions);
+    assert.equal(report.duplicateRows, 0);
+    assert.deepEqual(report.gaps, []);
+  });
+});
+
+describe("fixes", () => {
+  test("sortByX keeps the order of rows with equal X", () => {
+    const sorted = sortByX(read("x,y\n2,1\n1,2\n2,3\n0,\n"));
+    assert.deepEqual([...sorted.xValues], [0, 1, 2, 2]);
+    assert.deepEqual([...sorted.series[0].values], [NaN, 2, 1, 3]);
+    assert.deepEqual(sorted.missingRows, [0]);
+  });
+
+  test("dedupe by mean skips gaps, and a group of gaps stays a gap", () => {
+    const data = read("x,y,z\n0,1,1\n1,2,\n1,,\n1,4,\n2,5,5\n");
+    const merged = dedupeX(data, "mean");
+    assert.deepEqual([...merged.xValues], [0, 1, 2]);
+    assert.deepEqual([...merged.series[0].values], [1, 3, 5]);
+    assert.deepEqual([...merged.series[1].values], [1, NaN, 5]);
+    assert.deepEqual(merged.missingRows, [1]);
+    assert.deepEqual([...dedupeX(data, "first").series[0].values], [1, 2, 5]);
+    assert.deepEqual([...dedupeX(data, "last").series[0].values], [1, 4, 5]);
+  });
+
+  test("resampling date X stays on whole milliseconds", () => {
+    const data = read("t,y\n2024-01-01T00:00:00Z,0\n2024-01-01T00:00:01Z,3\n");
+    const grid = resampleToGrid(data, 1000 / 3, "linear");
+    const start = Date.UTC(2024, 0, 1);
+    assert.deepEqual(
+      [...grid.xValues].map((x) => x - start),
+      [0, 333, 667, 1000]
+    );
+    assert.ok(grid.xValues.every(Number.isInteger));
+    // Values are interpolated at the rounded X
+    grid.series[0].values.forEach((y, i) => {
+      assert.ok(Math.abs(y - ((grid.xValues[i] - start) * 3) / 1000) < 1e-9);
+    });
+  });
+
+  test("resampling rejects a step that is not positive", () => {
+    assert.throws(() => resampleToGrid(read("0,1\n1,2\n"), 0, "linear"), RangeError);
+  });
+});
@@ -0,0 +1,309 @@
+import type { SequenceData, SequenceSeries } from "./parseDataText";
+
+export type QualityOptions = {
+  /** Intervals longer than this many median intervals are gaps */
+  gapFactor: number;
+  /** Shortest run of one repeated value reported as flatlined */
+  minFlatRun: number;
+};
+
+export const defaultQualityOptions: QualityOptions = { gapFactor: 3, minFlatRun: 10 };
+
+/** Intervals in [from, to) (the last bin includes `to`). */
+export type IntervalBin = { from: number; to: number; count: number };
+
+export type SamplingIntervals = {
+  min: number;
+  median: number;
+  max: number;
+  /** Typical interval: the middle one of the most populated histogram bin */
+  dominant: number;
+  /** Bins between the shortest interval and the gap limit */
+  histogram: IntervalBin[];
+  /** Intervals past the last bin, i.e. the gaps */
+  longer: number;
+};
+
+/** A stretch without samples, between two X values that follow each other in X order. */
+export type SamplingGap = {
+  from: number;
+  to: number;
+  /** Data row of the sample after the gap */
+  row: number;
+};
+
+/** Consecutive rows `start`…`end` (inclusive) of one series that all hold `value`. */
+export type FlatRun = { series: number; start: number; end: number; value: number };
+
+export type QualityReport = {
+  /** Rows whose X is below the X of the row before them */
+  orderViolations: number[];
+  /** Rows that repeat the X of another row (each group counts all but one) */
+  duplicateRows: number;
+  /** Distinct X values shared by more than one row */
+  duplicateValues: number;
+  /** Between distinct X values in X order; null with fewer than two of them */
+  intervals: SamplingIntervals | null;
+  gaps: SamplingGap[];
+  /** Runs of at least `minFlatRun` repeated values, not counting constant series */
+  flatRuns: FlatRun[];
+  /** Series whose values (gaps aside) are all the same */
+  constantSeries: number[];
+};
+
+/** How `dedupeX` turns rows sharing an X into one. */
+export type DuplicateMerge = "first" | "last" | "mean";
+
+/** How `resampleToGrid` fills the grid points between samples. */
+export type ResampleMethod = "linear" | "previous" | "nearest";
+
+// Histogram resolution of the sampling intervals
+const INTERVAL_BINS = 24;
+// Grids longer than this would not fit in memory comfortably
+export const MAX_RESAMPLED_ROWS = 10_000_000;
+
+// Row indices ordered by X; equal X keep their row order. The identity for ascending X.
+function xOrder(xs: Float64Array): Uint32Array {
+  const order = new Uint32Array(xs.length);
+  for (let i = 0; i < order.length; i++) order[i] = i;
+  let ascending = true;
+  for (let i = 1; i < xs.length && ascending; i++) ascending = xs[i] >= xs[i - 1];
+  return ascending ? order : order.sort((a, b) => xs[a] - xs[b] || a - b);
+}
+
+function missingRowsOf(series: SequenceSeries[], count: number): number[] {
+  const rows: number[] = [];
+  for (let i = 0; i < count; i++) {
+    if (series.some((s) => Number.isNaN(s.values[i]))) rows.push(i);
+  }
+  return rows;
+}
+
+function intervalStats(sorted: Float64Array, gapFactor: number): SamplingIntervals {
+  const n = sorted.length;
+  const min = sorted[0];
+  const max = sorted[n - 1];
+  const median = sorted[n >> 1];
+  // Gaps would squeeze every regular interval into the first bin
+  const top = Math.max(min, Math.min(max, median * gapFactor));
+  // All regular intervals equal: one bin holds them
+  const bins = top > min ? INTERVAL_BINS : 1;
+  const width = (top - min) / bins;
+  const histogram: IntervalBin[] = [];
+  let k = 0;
+  let dominant = median;
+  let best = 0;
+  for (let b = 0; b < bins; b++) {
+    const from = min + b * width;
+    const last = b === bins - 1;
+    const to = last ? top : from + width;
+    const start = k;
+    while (k < n && (sorted[k] < to || (last && sorted[k] === to))) k++;
+    histogram.push({ from, to, count: k - start });
+    if (k - start > best) {
+      best = k - start;
+      dominant = sorted[(start + k - 1) >> 1];
+    }
+  }
+  return { min, median, max, dominant, histogram, longer: n - k };
+}
+
+// Runs of one repeated value, in row order; NaN ends a run
+function findFlatRuns(ys: Float64Array, series: number, minRun: number): FlatRun[] {
+  const runs: FlatRun[] = [];
+  let start = 0;
+  for (let i = 1; i <= ys.length; i++) {
+    if (i < ys.length && ys[i] === ys[start]) continue;
+    if (i - start >= minRun && !Number.isNaN(ys[start])) {
+      runs.push({ series, start, end: i - 1, value: ys[start] });
+    }
+    start = i;
+  }
+  return runs;
+}
+
+function isConstant(ys: Float64Array): boolean {
+  let first = NaN;
+  let count = 0;
+  for (const y of ys) {
+    if (Number.isNaN(y)) continue;
+    if (count++ === 0) first = y;
+    else if (y !== first) return false;
+  }
+  return count > 1;
+}
+
+/**
+ * Check how well `data` is sampled: X order, repeated X values, the distribution of the
+ * intervals between samples with the gaps among them, and flatlined values.
+ */
+export function analyzeQuality(data: SequenceData, options: QualityOptions): QualityReport {
+  const xs = data.xValues;
+  const orderViolations: number[] = [];
+  for (let i = 1; i < xs.length; i++) if (xs[i] < xs[i - 1]) orderViolations.push(i);
+
+  const order = xOrder(xs);
+  let duplicateRows = 0;
+  let duplicateValues = 0;
+  const deltas: number[] = [];
+  const gapRows: number[] = [];
+  for (let j = 1; j < order.length; j++) {
+    const d = xs[order[j]] - xs[order[j - 1]];
+    if (d === 0) {
+      duplicateRows++;
+      if (j < 2 || xs[order[j - 1]] !== xs[order[j - 2]]) duplicateValues++;
+    } else {
+      deltas.push(d);
+      gapRows.push(order[j]);
+    }
+  }
+
+  let intervals: SamplingIntervals | null = null;
+  const gaps: SamplingGap[] = [];
+  if (deltas.length > 0) {
+    intervals = intervalStats(Float64Array.from(deltas).sort(), options.gapFactor);
+    const limit = intervals.median * options.gapFactor;
+    deltas.forEach((d, k) => {
+      const row = gapRows[k];
+      if (d > limit) gaps.push({ from: xs[row] - d, to: xs[row], row });
+    });
+  }
+
+  const constantSeries: number[] = [];
+  const flatRuns: FlatRun[] = [];
+  data.series.forEach((s, k) => {
+    if (isConstant(s.values)) constantSeries.push(k);
+    else flatRuns.push(...findFlatRuns(s.values, k, Math.max(2, options.minFlatRun)));
+  });
+  flatRuns.sort((a, b) => a.start - b.start || a.series - b.series);
+
+  return {
+    orderViolations,
+    duplicateRows,
+    duplicateValues,
+    intervals,
+    gaps,
+    flatRuns,
+    constantSeries,
+  };
+}
+
+// `data` reduced to the given rows, in that order
+function pickRows(data: SequenceData, rows: ArrayLike<number>): SequenceData {
+  const pick = (values: Float64Array) => {
+    const out = new Float64Array(rows.length);
+    for (let i = 0; i < rows.length; i++) out[i] = values[rows[i]];
+    return out;
+  };
+  const series = data.series.map((s) => ({ ...s, values: pick(s.values) }));
+  return {
+    ...data,
+    xValues: pick(data.xValues),
+    series,
+    missingRows: missingRowsOf(series, rows.length),
+  };
+}
+
+/** `data` with its rows in ascending X order; rows with equal X keep their order. */
+export function sortByX(data: SequenceData): SequenceData {
+  return pickRows(data, xOrder(data.xValues));
+}
+
+/**
+ * One row per distinct X, in ascending X order. `mean` averages each series over the
+ * rows of a group, skipping gaps; the other merges keep one row of the group.
+ */
+export function dedupeX(data: SequenceData, merge: DuplicateMerge): SequenceData {
+  const xs = data.xValues;
+  const order = xOrder(xs);
+  // Start of each group of equal X within `order`, plus the end
+  const starts: number[] = [];
+  for (let j = 0; j < order.length; j++) {
+    if (j === 0 || xs[order[j]] !== xs[order[j - 1]]) starts.push(j);
+  }
+  starts.push(order.length);
+  const groups = starts.length - 1;
+
+  if (merge !== "mean") {
+    const rows = new Uint32Array(groups);
+    for (let g = 0; g < groups; g++) {
+      rows[g] = order[merge === "first" ? starts[g] : starts[g + 1] - 1];
+    }
+    return pickRows(data, rows);
+  }
+
+  const xValues = new Float64Array(groups);
+  for (let g = 0; g < groups; g++) xValues[g] = xs[order[starts[g]]];
+  const series = data.series.map((s) => {
+    const values = new Float64Array(groups);
+    for (let g = 0; g < groups; g++) {
+      let sum = 0;
+      let count = 0;
+      for (let j = starts[g]; j < starts[g + 1]; j++) {
+        const v = s.values[order[j]];
+        if (Number.isNaN(v)) continue;
+        sum += v;
+        count++;
+      }
+      values[g] = count > 0 ? sum / count : NaN;
+    }
+    return { ...s, values };
+  });
+  return { ...data, xValues, series, missingRows: missingRowsOf(series, groups) };
+}
+
+/**
+ * Sample every series at first X + i·`step` up to the last X. Rows are put in X order and
+ * repeated X values averaged first. `linear` interpolates between the samples around a
+ * grid point, `previous` holds the last sample, `nearest` takes the closer one; a gap
+ * (NaN) in the samples used gives a gap. Throws a RangeError for a step that is not
+ * positive or a grid longer than MAX_RESAMPLED_ROWS.
+ */
+export function resampleToGrid(
+  data: SequenceData,
+  step: number,
+  method: ResampleMethod
+): SequenceData {
+  if (!(step > 0) || !Number.isFinite(step)) throw new RangeError("The step must be positive");
+  const source = dedupeX(data, "mean");
+  const xs = source.xValues;
+  const n = xs.length;
+  if (n === 0) return source;
+  const x0 = xs[0];
+  const count = Math.floor((xs[n - 1] - x0) / step + 1e-9) + 1;
+  if (count > MAX_RESAMPLED_ROWS) {
+    throw new RangeError(
+      `The grid would have ${count.toLocaleString()} rows (at most ${MAX_RESAMPLED_ROWS.toLocaleString()})`
+    );
+  }
+
+  const xValues = new Float64Array(count);
+  // Sample at or before each grid point, and how far towards the next one it lies
+  const below = new Uint32Array(count);
+  const fraction = new Float64Array(count);
+  let k = 0;
+  for (let i = 0; i < count; i++) {
+    const raw = x0 + i * step;
+    // Dates stay on whole milliseconds
+    const x = data.xKind === "date" ? Math.round(raw) : raw;
+    xValues[i] = x;
+    while (k < n - 1 && xs[k + 1] <= x) k++;
+    below[i] = k;
+    fraction[i] = k < n - 1 ? (x - xs[k]) / (xs[k + 1] - xs[k]) : 0;
+  }
+
+  const series = source.series.map((s) => {
+    const ys = s.values;
+    const values = new Float64Array(count);
+    for (let i = 0; i < count; i++) {
+      const a = below[i];
+      const t = fraction[i];
+      if (t === 0) values[i] = ys[a];
+      else if (method === "previous") values[i] = ys[a];
+      else if (method === "nearest") values[i] = t < 0.5 ? ys[a] : ys[a + 1];
+      else values[i] = ys[a] + (ys[a + 1] - ys[a]) * t;
+    }
+    return { ...s, values };
+  });
+  return { ...source, xValues, series, missingRows: missingRowsOf(series, count) };
+}
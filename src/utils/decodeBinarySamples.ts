@@ -0,0 +1,240 @@
+import type { SequenceData, SequenceSeries } from "./parseDataText";
+import { parseFailure } from "./parseDiagnostics";
+
+export type SampleType = "int8" | "uint8" | "int16" | "int32" | "float32" | "float64";
+
+/** How to read a headerless dump of interleaved samples. */
+export type RawSampleFormat = {
+  dtype: SampleType;
+  littleEndian: boolean;
+  channels: number;
+  /** Samples per second per channel; X is then time in seconds, else the sample index. */
+  sampleRate?: number;
+  /** Bytes to skip before the first sample (e.g. a header of our own). */
+  byteOffset?: number;
+};
+
+export type BinarySampleKind = "wav" | "raw";
+
+export const sampleTypeBytes: Record<SampleType, number> = {
+  int8: 1,
+  uint8: 1,
+  int16: 2,
+  int32: 4,
+  float32: 4,
+  float64: 8,
+};
+
+// Extensions of raw dumps, with the sample type they usually hold
+const RAW_EXTENSIONS: Record<string, SampleType> = {
+  raw: "int16",
+  pcm: "int16",
+  bin: "float32",
+  i16: "int16",
+  i32: "int32",
+  f32: "float32",
+  f64: "float64",
+};
+
+const extension = (fileName: string): string =>
+  /\.([^.]+)$/.exec(fileName)?.[1].toLowerCase() ?? "";
+
+/** "wav" / "raw" for files decoded as binary samples rather than parsed as text. */
+export function binarySampleKind(fileName: string): BinarySampleKind | null {
+  const ext = extension(fileName);
+  if (ext === "wav" || ext === "wave") return "wav";
+  return ext in RAW_EXTENSIONS ? "raw" : null;
+}
+
+/** Starting point for the raw format form, guessed from the file extension. */
+export function guessRawFormat(fileName: string): RawSampleFormat {
+  return {
+    dtype: RAW_EXTENSIONS[extension(fileName)] ?? "float32",
+    littleEndian: true,
+    channels: 1,
+  };
+}
+
+function channelNames(channels: number, mono: string): string[] {
+  if (channels === 1) return [mono];
+  if (channels === 2 && mono === "Amplitude") return ["Left", "Right"];
+  return Array.from({ length: channels }, (_, c) => `Channel ${c + 1}`);
+}
+
+// De-interleave `frames` frames of `channels` samples into a sequence
+function buildSequence(
+  frames: number,
+  channels: number,
+  sampleRate: number | undefined,
+  names: string[],
+  read: (frame: number, channel: number) => number
+): SequenceData {
+  const xValues = new Float64Array(frames);
+  const series: SequenceSeries[] = names.map((name) => ({
+    name,
+    values: new Float64Array(frames),
+  }));
+  const missingRows: number[] = [];
+  for (let i = 0; i < frames; i++) {
+    xValues[i] = sampleRate ? i / sampleRate : i;
+    let missing = false;
+    for (let c = 0; c < channels; c++) {
+      const v = read(i, c);
+      series[c].values[i] = v;
+      if (Number.isNaN(v)) missing = true;
+    }
+    if (missing) missingRows.push(i);
+  }
+  return {
+    timeAxisName: sampleRate ? "Time (s)" : "Sample",
+    xKind: "number",
+    xValues,
+    series,
+    missingRows,
+  };
+}
+
+function sampleReader(
+  view: DataView,
+  dtype: SampleType,
+  littleEndian: boolean
+): (offset: number) => number {
+  switch (dtype) {
+    case "int8":
+      return (o) => view.getInt8(o);
+    case "uint8":
+      return (o) => view.getUint8(o);
+    case "int16":
+      return (o) => view.getInt16(o, littleEndian);
+    case "int32":
+      return (o) => view.getInt32(o, littleEndian);
+    case "float32":
+      return (o) => view.getFloat32(o, littleEndian);
+    case "float64":
+      return (o) => view.getFloat64(o, littleEndian);
+  }
+}
+
+/**
+ * Decode a raw dump of interleaved samples. Values are kept as stored; trailing bytes that
+ * do not fill a whole frame are ignored.
+ */
+export function decodeRawSamples(buffer: ArrayBuffer, format: RawSampleFormat): SequenceData {
+  const { dtype, littleEndian, channels } = format;
+  const byteOffset = format.byteOffset ?? 0;
+  if (!Number.isInteger(channels) || channels < 1) {
+    throw parseFailure("invalid-option", "The channel count must be a positive integer");
+  }
+  if (!Number.isInteger(byteOffset) || byteOffset < 0) {
+    throw parseFailure("invalid-option", "The byte offset must be a non-negative integer");
+  }
+  if (format.sampleRate !== undefined && !(format.sampleRate > 0)) {
+    throw parseFailure("invalid-option", "The sample rate must be positive");
+  }
+  const bytes = sampleTypeBytes[dtype];
+  const frameBytes = bytes * channels;
+  const frames = Math.floor(Math.max(0, buffer.byteLength - byteOffset) / frameBytes);
+  if (frames === 0) throw parseFailure("no-data", "No complete samples in the file");
+
+  const read = sampleReader(new DataView(buffer), dtype, littleEndian);
+  return buildSequence(
+    frames,
+    channels,
+    format.sampleRate,
+    channelNames(channels, "Value"),
+    (i, c) => read(byteOffset + i * frameBytes + c * bytes)
+  );
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const fourCC = (view: DataView, offset: number): string =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+/**
+ * Decode a RIFF/WAVE file: integer PCM (8-32 bit, scaled to -1…1) or IEEE float
+ * (32/64 bit) samples, one series per channel, X in seconds.
+ */
+export function decodeWav(buffer: ArrayBuffer): SequenceData {
+  const view = new DataView(buffer);
+  const invalid = (message: string) => parseFailure("invalid-binary", message);
+  if (buffer.byteLength < 12 || fourCC(view, 0) !== "RIFF" || fourCC(view, 8) !== "WAVE") {
+    throw invalid("Not a WAV file (no RIFF/WAVE header)");
+  }
+
+  let fmt: {
+    format: number;
+    channels: number;
+    sampleRate: number;
+    blockAlign: number;
+    bits: number;
+  } | null = null;
+  let dataOffset = -1;
+  let dataBytes = 0;
+  for (let offset = 12; offset + 8 <= buffer.byteLength; ) {
+    const id = fourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === "fmt " && size >= 16) {
+      let format = view.getUint16(body, true);
+      // Extensible headers carry the real format in their sub-format GUID
+      if (format === WAVE_FORMAT_EXTENSIBLE && size >= 40) {
+        format = view.getUint16(body + 24, true);
+      }
+      fmt = {
+        format,
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        blockAlign: view.getUint16(body + 12, true),
+        bits: view.getUint16(body + 14, true),
+      };
+    } else if (id === "data") {
+      dataOffset = body;
+      // Recorders that were cut off leave a size past the end of the file
+      dataBytes = Math.min(size, buffer.byteLength - body);
+      break;
+    }
+    offset = body + size + (size % 2);
+  }
+  if (!fmt) throw invalid("The WAV file has no format chunk");
+  if (dataOffset < 0) throw invalid("The WAV file has no data chunk");
+
+  const { format, channels, sampleRate, blockAlign, bits } = fmt;
+  if (channels < 1 || blockAlign < channels || blockAlign % channels !== 0) {
+    throw invalid(`Invalid WAV layout (${channels} channels, ${blockAlign}-byte frames)`);
+  }
+  // Container size per sample; 24-bit audio may come padded to 4 bytes
+  const bytes = blockAlign / channels;
+  let read: (offset: number) => number;
+  if (format === WAVE_FORMAT_IEEE_FLOAT && (bytes === 4 || bytes === 8)) {
+    read = bytes === 4 ? (o) => view.getFloat32(o, true) : (o) => view.getFloat64(o, true);
+  } else if (format === WAVE_FORMAT_PCM && bytes >= 1 && bytes <= 4) {
+    const scale = 2 ** (8 * bytes - 1);
+    if (bytes === 1) read = (o) => (view.getUint8(o) - 128) / scale;
+    else if (bytes === 2) read = (o) => view.getInt16(o, true) / scale;
+    else if (bytes === 4) read = (o) => view.getInt32(o, true) / scale;
+    else {
+      read = (o) =>
+        ((view.getInt8(o + 2) << 16) | (view.getUint8(o + 1) << 8) | view.getUint8(o)) / scale;
+    }
+  } else {
+    throw invalid(`Unsupported WAV encoding (format ${format}, ${bits} bits)`);
+  }
+
+  const frames = Math.floor(dataBytes / blockAlign);
+  if (frames === 0) throw parseFailure("no-data", "The WAV file has no samples");
+  return buildSequence(
+    frames,
+    channels,
+    sampleRate > 0 ? sampleRate : undefined,
+    channelNames(channels, "Amplitude"),
+    (i, c) => read(dataOffset + i * blockAlign + c * bytes)
+  );
+}
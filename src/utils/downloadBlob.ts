@@ -0,0 +1,11 @@
+/** Save a blob (or a data URL) as `fileName` through a temporary download link. */
+export default function downloadBlob(source: Blob | string, fileName: string) {
+  const url = typeof source === "string" ? source : URL.createObjectURL(source);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  if (typeof source !== "string") setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { appendRows, applyEdit, interpolatedRow, type SequenceEdit } from "./editSequence";
+import parseDataText from "./parseDataText";
+import { chartUiRevision } from "./plotlyAxis";
+
+// The rows of a sequence as plain arrays, gaps included
+const rows = (text: string) => parseDataText(text, { allowMissing: true });
+const plain = (data: ReturnType<typeof parseDataText>) => ({
+  x: [...data.xValues],
+  series: data.series.map((s) => [...s.values]),
+  missingRows: data.missingRows,
+});
+
+describe("applyEdit", () => {
+  const loaded = rows("x,a,b\n0,1,10\n1,,20\n2,3,30\n4,5,\n");
+  const edits: SequenceEdit[] = [
+    { kind: "set-x", row: 2, value: 2.5 },
+    { kind: "set-y", row: 1, series: 0, value: 2 },
+    { kind: "set-y", row: 0, series: 1, value: NaN },
+    { kind: "delete", rows: [3, 0] },
+    { kind: "insert", rows: [0, 5], xValues: [-1, 5], values: [[0, 6], [NaN, 60]] },
+    { kind: "replace", data: rows("x,a,b\n0,1,1\n") },
+  ];
+
+  for (const edit of edits) {
+    test(`undoing ${edit.kind} restores the data exactly`, () => {
+      const { data, inverse } = applyEdit(loaded, edit);
+      assert.notDeepEqual(plain(data), plain(loaded));
+      const undone = applyEdit(data, inverse);
+      assert.deepEqual(plain(undone.data), plain(loaded));
+      // And redoing gives the edited data again
+      assert.deepEqual(plain(applyEdit(undone.data, undone.inverse).data), plain(data));
+    });
+  }
+
+  test("edits keep the chart's UI revision, a new load does not", () => {
+    // The chart is keyed by the load counter, never by the sequence object an edit replaces
+    const revision = chartUiRevision(1, "overlay");
+    for (const edit of edits) {
+      assert.notEqual(applyEdit(loaded, edit).data, loaded);
+      assert.equal(chartUiRevision(1, "overlay"), revision);
+    }
+    assert.notEqual(chartUiRevision(2, "overlay"), revision);
+    assert.notEqual(chartUiRevision(1, "stacked"), revision);
+  });
+
+  test("rows out of range are refused", () => {
+    assert.throws(() => applyEdit(loaded, { kind: "set-x", row: 4, value: 0 }), RangeError);
+    assert.throws(() => applyEdit(loaded, { kind: "delete", rows: [0, 1, 2, 3] }), RangeError);
+  });
+});
+
+describe("interpolatedRow", () => {
+  test("halfway between the neighbours, skipping gaps", () => {
+    const data = rows("x,a,b\n0,0,\n2,4,8\n");
+    assert.deepEqual(interpolatedRow(data, 1), { xValue: 1, values: [2, 8] });
+  });
+
+  test("one step past either end", () => {
+    const data = rows("x,a\n0,0\n2,4\n");
+    assert.deepEqual(interpolatedRow(data, 0), { xValue: -2, values: [-4] });
+    assert.deepEqual(interpolatedRow(data, 2), { xValue: 4, values: [8] });
+  });
+
+  test("dates stay on whole milliseconds", () => {
+    const data = rows("t,a\n2024-01-01T00:00:00.000Z,0\n2024-01-01T00:00:00.001Z,1\n");
+    const { xValue } = interpolatedRow(data, 1);
+    assert.ok(Number.isInteger(xValue));
+  });
+});
+
+describe("replace", () => {
+  test("undo keeps the rows live mode appended after the replacement", () => {
+    const loaded = rows("x,y\n2,20\n1,10\n");
+    const sorted = rows("x,y\n1,10\n2,20\n");
+    const { data: fixed, inverse } = applyEdit(loaded, { kind: "replace", data: sorted });
+    const live = appendRows(fixed, rows("x,y\n3,\n4,40\n"));
+
+    const undone = applyEdit(live, inverse);
+    assert.deepEqual(plain(undone.data), plain(rows("x,y\n2,20\n1,10\n3,\n4,40\n")));
+    // Redo puts the fix back, still followed by the live rows
+    const redone = applyEdit(appendRows(undone.data, rows("x,y\n5,50\n")), undone.inverse);
+    assert.deepEqual(plain(redone.data), plain(rows("x,y\n1,10\n2,20\n3,\n4,40\n5,50\n")));
+  });
+});
@@ -0,0 +1,231 @@
+import type { SequenceData } from "./parseDataText";
+
+/**
+ * One change to a sequence. Rows are data-row indices; `insert` rows are the indices the
+ * new rows get (ascending), so it exactly undoes a `delete` of the same rows. `replace`
+ * swaps in a whole sequence, for fixes that touch every row (sorting, resampling); with
+ * `keepRowsFrom` the edited sequence's rows from that index on, appended by live mode
+ * since the step was recorded, are kept after it.
+ */
+export type SequenceEdit =
+  | { kind: "set-x"; row: number; value: number }
+  | { kind: "set-y"; row: number; series: number; value: number }
+  | { kind: "delete"; rows: number[] }
+  | { kind: "insert"; rows: number[]; xValues: number[]; values: number[][] }
+  | { kind: "replace"; data: SequenceData; keepRowsFrom?: number };
+
+export type EditResult = {
+  data: SequenceData;
+  /** The edit that undoes this one */
+  inverse: SequenceEdit;
+};
+
+// Edited copies of a series/X array → the array they were copied from and the rows that
+// differ, so the chart can patch its index of the original instead of rebuilding it
+const editSources = new WeakMap<Float64Array, { base: WeakRef<Float64Array>; rows: number[] }>();
+
+/** The array `values` was copied from by a cell edit, and the rows that changed since. */
+export function editSource(
+  values: Float64Array
+): { base: Float64Array; rows: number[] } | null {
+  const source = editSources.get(values);
+  const base = source?.base.deref();
+  return source && base ? { base, rows: source.rows } : null;
+}
+
+// Copy of `values` with one element replaced
+function withValue(values: Float64Array, row: number, value: number): Float64Array {
+  const copy = values.slice();
+  copy[row] = value;
+  editSources.set(copy, { base: new WeakRef(values), rows: [row] });
+  return copy;
+}
+
+/**
+ * `data` followed by `rows`, which must have the same series. The skipped rows of `rows`
+ * are not carried over; whoever took them reports them.
+ */
+export function appendRows(data: SequenceData, rows: SequenceData): SequenceData {
+  if (rows.xValues.length === 0) return data;
+  const concat = (a: Float64Array, b: Float64Array) => {
+    const out = new Float64Array(a.length + b.length);
+    out.set(a);
+    out.set(b, a.length);
+    return out;
+  };
+  const n = data.xValues.length;
+  return {
+    ...data,
+    xValues: concat(data.xValues, rows.xValues),
+    series: data.series.map((s, k) => ({ ...s, values: concat(s.values, rows.series[k].values) })),
+    missingRows: [...data.missingRows, ...rows.missingRows.map((i) => i + n)],
+  };
+}
+
+// Rows `from` to `to` of `data` as a sequence of their own
+function sliceRows(data: SequenceData, from: number, to = data.xValues.length): SequenceData {
+  if (from === 0 && to === data.xValues.length) return data;
+  return {
+    ...data,
+    xValues: data.xValues.slice(from, to),
+    series: data.series.map((s) => ({ ...s, values: s.values.slice(from, to) })),
+    missingRows: data.missingRows.filter((r) => r >= from && r < to).map((r) => r - from),
+  };
+}
+
+function rowHasGap(data: SequenceData, row: number): boolean {
+  return data.series.some((s) => Number.isNaN(s.values[row]));
+}
+
+function findMissingRows(data: SequenceData): number[] {
+  const rows: number[] = [];
+  for (let i = 0; i < data.xValues.length; i++) if (rowHasGap(data, i)) rows.push(i);
+  return rows;
+}
+
+// `missingRows` after the gaps of one row may have changed
+function updateMissingRows(data: SequenceData, row: number): number[] {
+  const rows = data.missingRows.filter((r) => r !== row);
+  if (rowHasGap(data, row)) {
+    const at = rows.findIndex((r) => r > row);
+    rows.splice(at < 0 ? rows.length : at, 0, row);
+  }
+  return rows;
+}
+
+/**
+ * Apply `edit` to `data` without touching it: changed arrays are copied, the others shared.
+ * Throws a RangeError for rows or series that do not exist.
+ */
+export function applyEdit(data: SequenceData, edit: SequenceEdit): EditResult {
+  const count = data.xValues.length;
+  const checkRow = (row: number, limit = count) => {
+    if (!Number.isInteger(row) || row < 0 || row >= limit) {
+      throw new RangeError(`Row ${row} is out of range`);
+    }
+  };
+
+  switch (edit.kind) {
+    case "set-x": {
+      checkRow(edit.row);
+      return {
+        data: { ...data, xValues: withValue(data.xValues, edit.row, edit.value) },
+        inverse: { kind: "set-x", row: edit.row, value: data.xValues[edit.row] },
+      };
+    }
+    case "set-y": {
+      checkRow(edit.row);
+      const target = data.series[edit.series];
+      if (!target) throw new RangeError(`Series ${edit.series} does not exist`);
+      const next: SequenceData = {
+        ...data,
+        series: data.series.map((s, k) =>
+          k === edit.series ? { ...s, values: withValue(s.values, edit.row, edit.value) } : s
+        ),
+      };
+      next.missingRows = updateMissingRows(next, edit.row);
+      return {
+        data: next,
+        inverse: {
+          kind: "set-y",
+          row: edit.row,
+          series: edit.series,
+          value: target.values[edit.row],
+        },
+      };
+    }
+    case "delete": {
+      const rows = [...new Set(edit.rows)].sort((a, b) => a - b);
+      rows.forEach((row) => checkRow(row));
+      if (rows.length >= count) throw new RangeError("Cannot delete every row");
+      const removed = new Set(rows);
+      const keep = (values: Float64Array) => {
+        const out = new Float64Array(count - rows.length);
+        let j = 0;
+        for (let i = 0; i < count; i++) if (!removed.has(i)) out[j++] = values[i];
+        return out;
+      };
+      const next: SequenceData = {
+        ...data,
+        xValues: keep(data.xValues),
+        series: data.series.map((s) => ({ ...s, values: keep(s.values) })),
+      };
+      next.missingRows = findMissingRows(next);
+      return {
+        data: next,
+        inverse: {
+          kind: "insert",
+          rows,
+          xValues: rows.map((row) => data.xValues[row]),
+          values: data.series.map((s) => rows.map((row) => s.values[row])),
+        },
+      };
+    }
+    case "insert": {
+      const { rows } = edit;
+      const total = count + rows.length;
+      rows.forEach((row, j) => {
+        checkRow(row, total);
+        if (j > 0 && row <= rows[j - 1]) throw new RangeError("Inserted rows must ascend");
+      });
+      if (edit.values.length !== data.series.length) {
+        throw new RangeError(`Expected values for ${data.series.length} series`);
+      }
+      // Merge the old rows with the new ones, which land exactly at `rows`
+      const merge = (values: Float64Array, added: readonly number[]) => {
+        const out = new Float64Array(total);
+        let src = 0;
+        let j = 0;
+        for (let i = 0; i < total; i++) {
+          out[i] = j < rows.length && rows[j] === i ? added[j++] : values[src++];
+        }
+        return out;
+      };
+      const next: SequenceData = {
+        ...data,
+        xValues: merge(data.xValues, edit.xValues),
+        series: data.series.map((s, k) => ({ ...s, values: merge(s.values, edit.values[k]) })),
+      };
+      next.missingRows = findMissingRows(next);
+      return { data: next, inverse: { kind: "delete", rows: [...rows] } };
+    }
+    case "replace": {
+      const from = edit.keepRowsFrom ?? count;
+      if (!Number.isInteger(from) || from < 0 || from > count) {
+        throw new RangeError(`Row ${from} is out of range`);
+      }
+      return {
+        data: appendRows(edit.data, sliceRows(data, from)),
+        // Rows appended after the replacement are carried over by the inverse too
+        inverse: {
+          kind: "replace",
+          data: sliceRows(data, 0, from),
+          keepRowsFrom: edit.data.xValues.length,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * A row to insert at `row` (before the current row `row`): X halfway between its
+ * neighbours and values interpolated between them, or one step past either end.
+ */
+export function interpolatedRow(
+  data: SequenceData,
+  row: number
+): { xValue: number; values: number[] } {
+  const xs = data.xValues;
+  const n = xs.length;
+  // The two rows around the new one, or the last/first two when inserting at an end
+  const [a, b] = row <= 0 ? [0, 1] : row >= n ? [n - 2, n - 1] : [row - 1, row];
+  const t = row <= 0 ? -1 : row >= n ? 2 : 0.5;
+  const lerp = (va: number, vb: number) =>
+    n < 2 ? va : Number.isNaN(va) ? vb : Number.isNaN(vb) ? va : va + (vb - va) * t;
+  const x = n < 2 ? xs[0] + (row <= 0 ? -1 : 1) : lerp(xs[a], xs[b]);
+  return {
+    // Dates stay on whole milliseconds
+    xValue: data.xKind === "date" ? Math.round(x) : x,
+    values: data.series.map((s) => lerp(s.values[Math.max(0, a)], s.values[Math.max(0, b)])),
+  };
+}
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import exportSequence from "./exportSequence";
+import parseDataText, { type SequenceData, type XKind } from "./parseDataText";
+
+const sequence = (names: string[], rows: number[][], xKind: XKind = "number"): SequenceData => ({
+  timeAxisName: names[0],
+  xKind,
+  xValues: Float64Array.from(rows, (r) => r[0]),
+  series: names.slice(1).map((name, k) => ({
+    name,
+    values: Float64Array.from(rows, (r) => r[k + 1]),
+  })),
+  missingRows: rows.flatMap((r, i) => (r.some(Number.isNaN) ? [i] : [])),
+});
+
+const columnNames = (data: SequenceData) => [data.timeAxisName, ...data.series.map((s) => s.name)];
+
+describe("round trip through parseDataText", () => {
+  test("header names with delimiters, quotes and outer spaces come back unchanged", () => {
+    const data = sequence(["t", " b ", 'say "hi"', "x;y", "\tc"], [
+      [0, 1, 2, 3, 4],
+      [1, 5, 6, 7, 8],
+    ]);
+    for (const format of ["csv", "tsv"] as const) {
+      const back = parseDataText(exportSequence(data, format));
+      assert.deepEqual(columnNames(back), ["t", " b ", 'say "hi"', "x;y", "\tc"]);
+      assert.deepEqual([...back.series[0].values], [1, 5]);
+    }
+  });
+
+  test("gaps and date X come back in every format", () => {
+    const t0 = Date.UTC(2024, 2, 1, 12, 30);
+    const data = sequence(
+      ["time", "a", "b"],
+      [
+        [t0, 1.5, NaN],
+        [t0 + 1000, NaN, -2],
+        [t0 + 2500, 3, 4e-9],
+      ],
+      "date"
+    );
+    for (const format of ["csv", "tsv", "json"] as const) {
+      const back = parseDataText(exportSequence(data, format), { allowMissing: true });
+      assert.equal(back.xKind, "date");
+      assert.deepEqual([...back.xValues], [...data.xValues]);
+      assert.deepEqual(
+        back.series.map((s) => [...s.values]),
+        data.series.map((s) => [...s.values])
+      );
+      assert.deepEqual(back.missingRows, [0, 1]);
+    }
+  });
+
+  test("JSON numbers repeated names instead of overwriting columns", () => {
+    const data = sequence(["v", "v", "w", "v"], [
+      [0, 1, 2, 3],
+      [1, 4, 5, 6],
+    ]);
+    const back = parseDataText(exportSequence(data, "json"));
+    assert.deepEqual(columnNames(back), ["v", "v (2)", "w", "v (3)"]);
+    assert.deepEqual(back.series.map((s) => [...s.values]), [[1, 4], [2, 5], [3, 6]]);
+  });
+});
@@ -0,0 +1,103 @@
+import type { RowFilter } from "./chartSelection";
+import type { SequenceData } from "./parseDataText";
+
+export type ExportFormat = "csv" | "tsv" | "json";
+
+export const exportMimeTypes: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  json: "application/json",
+};
+
+// RFC 4180 quoting where needed. Any delimiter character is quoted, not just the one in
+// use, so delimiter detection on re-import cannot be misled by a header name; so is
+// leading or trailing whitespace, which the tokenizer trims from unquoted fields.
+export function quoteField(s: string): string {
+  return /[",;|\t\r\n]/.test(s) || s !== s.trim() ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+// Names made unique by numbering repeats ("v", "v (2)"), so no JSON key overwrites another
+function uniqueNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    let unique = name;
+    for (let n = 2; used.has(unique); n++) unique = `${name} (${n})`;
+    used.add(unique);
+    return unique;
+  });
+}
+
+/** X as exported: ISO-8601 UTC on date axes, else the shortest round-trip number. */
+export function formatExportX(data: Pick<SequenceData, "xKind">, x: number): string {
+  return data.xKind === "date" ? new Date(x).toISOString() : String(x);
+}
+
+function rowsOf(data: SequenceData, filter?: RowFilter): number[] {
+  const start = Math.max(0, filter?.start ?? 0);
+  const end = Math.min(data.xValues.length, filter?.end ?? data.xValues.length);
+  const rows: number[] = [];
+  for (let i = start; i < end; i++) if (!filter?.include || filter.include(i)) rows.push(i);
+  return rows;
+}
+
+/**
+ * Serialize `data` (or the rows picked by `filter`) with its header names. Date X is written
+ * as ISO-8601 UTC, numbers in their shortest round-trip form and missing values as empty
+ * fields (JSON: `null`), so the output parses back to the same sequence with
+ * `parseDataText` (with `allowMissing` when there are gaps). JSON keys must be unique, so
+ * a repeated name is numbered there: "v", "v (2)".
+ */
+export default function exportSequence(
+  data: SequenceData,
+  format: ExportFormat,
+  filter?: RowFilter
+): string {
+  const rows = rowsOf(data, filter);
+  const formatX = (x: number) => formatExportX(data, x);
+
+  if (format === "json") {
+    // One object per row, keyed by the column headers (repeated names numbered)
+    const [xKey, ...seriesKeys] = uniqueNames([
+      data.timeAxisName,
+      ...data.series.map((s) => s.name),
+    ]);
+    const records = rows.map((i) => {
+      const record: Record<string, string | number | null> = {
+        [xKey]: data.xKind === "date" ? formatX(data.xValues[i]) : data.xValues[i],
+      };
+      data.series.forEach((s, k) => {
+        record[seriesKeys[k]] = Number.isNaN(s.values[i]) ? null : s.values[i];
+      });
+      return record;
+    });
+    return JSON.stringify(records, null, 2);
+  }
+
+  const delimiter = format === "csv" ? "," : "\t";
+  const lines = [
+    [data.timeAxisName, ...data.series.map((s) => s.name)]
+      .map(quoteField)
+      .join(delimiter),
+  ];
+  for (const i of rows) {
+    const fields = [formatX(data.xValues[i])];
+    for (const s of data.series) {
+      const y = s.values[i];
+      fields.push(Number.isNaN(y) ? "" : String(y));
+    }
+    lines.push(fields.join(delimiter));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Merge per-series row filters into one that keeps a row if any of them does. */
+export function unionRowFilter(filters: (RowFilter | null)[]): RowFilter | null {
+  const present = filters.filter((f): f is RowFilter => f !== null);
+  if (present.length === 0) return null;
+  return {
+    start: Math.min(...present.map((f) => f.start)),
+    end: Math.max(...present.map((f) => f.end)),
+    include: (row) =>
+      present.some((f) => row >= f.start && row < f.end && (!f.include || f.include(row))),
+  };
+}
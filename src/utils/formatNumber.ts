@@ -0,0 +1,7 @@
+/** Compact display of a statistic: 6 significant digits, exponent for very large/small. */
+export default function formatNumber(v: number): string {
+  if (!Number.isFinite(v)) return "—";
+  return Math.abs(v) >= 1e6 || (v !== 0 && Math.abs(v) < 1e-3)
+    ? v.toExponential(4)
+    : Number(v.toPrecision(6)).toString();
+}
@@ -0,0 +1,88 @@
+import {
+  createSequenceParser,
+  type InputLayout,
+  type ParseOptions,
+  type SequenceData,
+  type SequenceParser,
+} from "./parseDataText";
+import { stripBom } from "./tokenizeDelimitedText";
+
+// Bytes read from the start of a file for the import preview
+const PREVIEW_BYTES = 64 * 1024;
+
+/** Start of a text file for the import preview. */
+export type TextHead = {
+  text: string;
+  /** The whole file was read, so the preview covers every row */
+  complete: boolean;
+};
+
+export type ImportPreview = {
+  layout: InputLayout | null;
+  /** Rows of the head; null when it does not parse at all */
+  data: SequenceData | null;
+  /** Why nothing could be parsed */
+  error: string | null;
+  /** Rows of the head with problems, left out of `data` */
+  skipped: number;
+  /** First of those problems */
+  firstProblem: string | null;
+};
+
+/**
+ * The first `maxBytes` of `file` as text. Unless the whole file fit, the text ends after
+ * the last complete line so the preview does not parse a cut row.
+ */
+export async function readTextHead(file: Blob, maxBytes = PREVIEW_BYTES): Promise<TextHead> {
+  const complete = file.size <= maxBytes;
+  let text = stripBom(await file.slice(0, maxBytes).text());
+  if (!complete) {
+    const end = Math.max(text.lastIndexOf("\n"), text.lastIndexOf("\r"));
+    if (end >= 0) text = text.slice(0, end + 1);
+  }
+  return { text, complete };
+}
+
+/**
+ * Parse a file head the way the whole file would be parsed with `options`, except that
+ * rows with problems are skipped (and counted) so the rest can still be shown.
+ */
+export function previewImport(head: TextHead, options: ParseOptions): ImportPreview {
+  let parser: SequenceParser;
+  try {
+    parser = createSequenceParser({ ...options, skipInvalidRows: true, maxDiagnostics: 1 });
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    return { layout: null, data: null, error, skipped: 0, firstProblem: null };
+  }
+  try {
+    parser.push(head.text);
+    const data = parser.finish({ truncated: !head.complete });
+    return {
+      layout: parser.layout,
+      data,
+      error: null,
+      skipped: data.skippedRows?.count ?? 0,
+      firstProblem: data.skippedRows?.diagnostics[0]?.message ?? null,
+    };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    return { layout: parser.layout, data: null, error, skipped: 0, firstProblem: null };
+  }
+}
+
+/**
+ * `options` without the choices that only make sense for one file (columns, header,
+ * delimiter, skipped lines, X format), so the next file starts from detection again.
+ */
+export function withoutLayoutOptions(options: ParseOptions): ParseOptions {
+  const rest = { ...options };
+  delete rest.header;
+  delete rest.delimiter;
+  delete rest.skipLines;
+  delete rest.commentPrefix;
+  delete rest.xColumn;
+  delete rest.yColumns;
+  delete rest.xFormat;
+  return rest;
+}
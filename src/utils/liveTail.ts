@@ -0,0 +1,192 @@
+import type { InputLayout, ParseOptions, SequenceData, XKind } from "./parseDataText";
+
+/** A running live source; `stop` ends it for good. */
+export type LiveFeed = { stop(): void };
+
+export type LiveFeedHandlers = {
+  /** Text that arrived, in order; a stream message always ends with a line break */
+  onText: (text: string) => void;
+  /** The source failed or closed; no more text follows */
+  onError: (err: Error) => void;
+};
+
+// How often a followed file is checked for appended bytes
+const DEFAULT_POLL_MS = 1000;
+// Bytes read back at a time from the end of a file to find its last line break
+const LINE_END_SEARCH_BYTES = 64 * 1024;
+
+// File System Access API picker (Chromium); not part of TypeScript's DOM types yet
+type OpenFilePicker = (options?: {
+  types?: { description: string; accept: Record<string, string[]> }[];
+}) => Promise<FileSystemFileHandle[]>;
+
+const openFilePicker = () =>
+  (window as unknown as { showOpenFilePicker?: OpenFilePicker }).showOpenFilePicker;
+
+/** Whether the browser can re-read a picked file as it grows. */
+export const canFollowFiles = () => typeof openFilePicker() === "function";
+
+/** Ask for a text file to follow; null when the picker was dismissed. */
+export async function pickFollowFile(): Promise<FileSystemFileHandle | null> {
+  const picker = openFilePicker();
+  if (!picker) throw new Error("This browser cannot follow files (no File System Access API)");
+  try {
+    const [handle] = await picker({
+      types: [
+        {
+          description: "Text data",
+          accept: { "text/plain": [".csv", ".tsv", ".txt", ".dat", ".log", ".ndjson", ".jsonl"] },
+        },
+      ],
+    });
+    return handle ?? null;
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "AbortError") return null;
+    throw err;
+  }
+}
+
+/**
+ * Byte offset just past the last line break of `file` (0 when it has none), so a file that
+ * is being written to can be loaded without its unfinished last line.
+ */
+export async function completeLinesEnd(file: Blob): Promise<number> {
+  // Read back from the end a window at a time; a long last line takes several
+  for (let end = file.size; end > 0; end -= LINE_END_SEARCH_BYTES) {
+    const start = Math.max(0, end - LINE_END_SEARCH_BYTES);
+    const bytes = new Uint8Array(await file.slice(start, end).arrayBuffer());
+    for (let i = bytes.length - 1; i >= 0; i--) {
+      if (bytes[i] === 0x0a || bytes[i] === 0x0d) return start + i + 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Poll the file behind `handle` and pass on the text appended after byte `offset`.
+ * A file that gets shorter (truncated or replaced) ends the feed with an error.
+ */
+export function followFile(
+  handle: FileSystemFileHandle,
+  offset: number,
+  { onText, onError }: LiveFeedHandlers,
+  pollMs = DEFAULT_POLL_MS
+): LiveFeed {
+  // Streaming decoder: a character split across two reads is decoded once it is complete
+  const decoder = new TextDecoder();
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const poll = async () => {
+    try {
+      const file = await handle.getFile();
+      if (stopped) return;
+      if (file.size < offset) {
+        throw new Error(`${file.name} got shorter; it was truncated or replaced`);
+      }
+      if (file.size > offset) {
+        const bytes = await file.slice(offset).arrayBuffer();
+        if (stopped) return;
+        offset += bytes.byteLength;
+        const text = decoder.decode(bytes, { stream: true });
+        if (text) onText(text);
+      }
+      timer = setTimeout(poll, pollMs);
+    } catch (err) {
+      if (stopped) return;
+      stopped = true;
+      onError(err instanceof Error ? err : new Error(String(err)));
+    }
+  };
+  timer = setTimeout(poll, pollMs);
+
+  return {
+    stop() {
+      stopped = true;
+      clearTimeout(timer);
+    },
+  };
+}
+
+/**
+ * Receive text from a local feed: a WebSocket (`ws:`/`wss:`) or Server-Sent Events over
+ * HTTP. Every message is one or more records; a missing final line break is added.
+ */
+export function followStream(url: string, { onText, onError }: LiveFeedHandlers): LiveFeed {
+  let stopped = false;
+  const receive = (text: string) => {
+    if (!stopped && text) onText(/[\r\n]$/.test(text) ? text : `${text}\n`);
+  };
+  const fail = (message: string) => {
+    if (stopped) return;
+    stopped = true;
+    close();
+    onError(new Error(message));
+  };
+
+  let close: () => void;
+  if (/^wss?:/i.test(url)) {
+    const socket = new WebSocket(url);
+    socket.binaryType = "arraybuffer";
+    const decoder = new TextDecoder();
+    socket.onmessage = (e: MessageEvent<string | ArrayBuffer>) =>
+      receive(typeof e.data === "string" ? e.data : decoder.decode(e.data));
+    socket.onerror = () => fail(`Could not read from ${url}`);
+    socket.onclose = () => fail(`${url} closed the connection`);
+    close = () => socket.close();
+  } else if (/^https?:/i.test(url)) {
+    const source = new EventSource(url);
+    source.onmessage = (e: MessageEvent<string>) => receive(e.data);
+    // EventSource would reconnect and replay a header line; a lost feed is reported instead
+    source.onerror = () => fail(`Lost the connection to ${url}`);
+    close = () => source.close();
+  } else {
+    throw new Error("Expected a ws://, wss://, http:// or https:// address");
+  }
+
+  return {
+    stop() {
+      stopped = true;
+      close();
+    },
+  };
+}
+
+/**
+ * Options that read text appended to a file exactly like its first part was read with
+ * `options`: the detected delimiter, columns and X kind are fixed, and there is no header.
+ * Throws for JSON arrays, which cannot grow by appending.
+ */
+export function continuationOptions(
+  options: ParseOptions,
+  layout: InputLayout,
+  xKind: XKind
+): ParseOptions {
+  if (layout.format === "json") {
+    throw new Error("A JSON array cannot be followed; use NDJSON or delimited text");
+  }
+  const xFormat = options.xFormat ?? "auto";
+  const next: ParseOptions = {
+    ...options,
+    format: layout.format,
+    header: "no",
+    skipLines: 0,
+    xColumn: layout.xColumn ?? "index",
+    yColumns: layout.yColumns,
+    // The first row of the appended text must not decide the X kind again
+    xFormat: xKind === "number" ? "number" : xFormat === "auto" ? "iso" : xFormat,
+  };
+  if (layout.format === "delimited" && layout.delimiter) next.delimiter = layout.delimiter;
+  if (layout.format === "ndjson" && layout.hasHeader) {
+    // Object records: the key paths found in the first record
+    const [x, ...ys] = [layout.xColumn ?? 0, ...layout.yColumns].map((c) => layout.columnNames[c]);
+    next.xKeyPath = x;
+    next.yKeyPaths = ys;
+  }
+  return next;
+}
+
+/** `rows` with X moved by `offset`, e.g. to continue a row-number X axis. */
+export function shiftX(rows: SequenceData, offset: number): SequenceData {
+  return offset === 0 ? rows : { ...rows, xValues: rows.xValues.map((x) => x + offset) };
+}
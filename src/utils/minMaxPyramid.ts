@@ -0,0 +1,213 @@
+export type MinMaxLevel = {
+  /** Number of raw samples covered by one block. */
+  blockSize: number;
+  /** Index (into the raw values) of each block's minimum, -1 if the block is all NaN. */
+  minIdx: Int32Array;
+  /** Index of each block's maximum, -1 if the block is all NaN. */
+  maxIdx: Int32Array;
+  /** Index of the first NaN (gap) in each block, -1 if there is none. */
+  nanIdx: Int32Array;
+};
+
+/** Multi-resolution min/max summary of one series; level k has blocks of 8^(k+1) samples. */
+export type MinMaxPyramid = {
+  length: number;
+  levels: MinMaxLevel[];
+};
+
+const FANOUT = 8;
+// Stop adding levels once a level has this few blocks
+const MIN_TOP_BLOCKS = 64;
+
+/** Build the pyramid once per series in O(n); queries are then O(buckets · levels). */
+export function buildMinMaxPyramid(values: Float64Array): MinMaxPyramid {
+  const levels: MinMaxLevel[] = [];
+  const n = values.length;
+
+  // Level 0 aggregates raw samples
+  let blockSize = FANOUT;
+  let count = Math.ceil(n / FANOUT);
+  if (n <= FANOUT * MIN_TOP_BLOCKS) return { length: n, levels };
+
+  let level: MinMaxLevel = {
+    blockSize,
+    minIdx: new Int32Array(count),
+    maxIdx: new Int32Array(count),
+    nanIdx: new Int32Array(count),
+  };
+  for (let b = 0; b < count; b++) {
+    let mn = -1;
+    let mx = -1;
+    let nan = -1;
+    const end = Math.min(n, (b + 1) * FANOUT);
+    for (let i = b * FANOUT; i < end; i++) {
+      const v = values[i];
+      if (Number.isNaN(v)) {
+        if (nan < 0) nan = i;
+        continue;
+      }
+      if (mn < 0 || v < values[mn]) mn = i;
+      if (mx < 0 || v > values[mx]) mx = i;
+    }
+    level.minIdx[b] = mn;
+    level.maxIdx[b] = mx;
+    level.nanIdx[b] = nan;
+  }
+  levels.push(level);
+
+  // Higher levels aggregate the level below
+  while (count > MIN_TOP_BLOCKS) {
+    const below = level;
+    const belowCount = count;
+    blockSize *= FANOUT;
+    count = Math.ceil(belowCount / FANOUT);
+    level = {
+      blockSize,
+      minIdx: new Int32Array(count),
+      maxIdx: new Int32Array(count),
+      nanIdx: new Int32Array(count),
+    };
+    for (let b = 0; b < count; b++) {
+      let mn = -1;
+      let mx = -1;
+      let nan = -1;
+      const end = Math.min(belowCount, (b + 1) * FANOUT);
+      for (let c = b * FANOUT; c < end; c++) {
+        const cmn = below.minIdx[c];
+        const cmx = below.maxIdx[c];
+        if (nan < 0 && below.nanIdx[c] >= 0) nan = below.nanIdx[c];
+        if (cmn >= 0 && (mn < 0 || values[cmn] < values[mn])) mn = cmn;
+        if (cmx >= 0 && (mx < 0 || values[cmx] > values[mx])) mx = cmx;
+      }
+      level.minIdx[b] = mn;
+      level.maxIdx[b] = mx;
+      level.nanIdx[b] = nan;
+    }
+    levels.push(level);
+  }
+
+  return { length: n, levels };
+}
+
+/**
+ * Pyramid of `values` after only `rows` changed since `pyramid` was built: the blocks
+ * holding those rows are recomputed, level by level, and the rest is copied.
+ */
+export function patchMinMaxPyramid(
+  pyramid: MinMaxPyramid,
+  values: Float64Array,
+  rows: readonly number[]
+): MinMaxPyramid {
+  if (pyramid.length !== values.length) return buildMinMaxPyramid(values);
+  const levels: MinMaxLevel[] = [];
+  // Blocks to recompute in the level being patched
+  let dirty = [...new Set(rows.map((r) => Math.floor(r / FANOUT)))];
+  pyramid.levels.forEach((old, k) => {
+    const level: MinMaxLevel = {
+      blockSize: old.blockSize,
+      minIdx: old.minIdx.slice(),
+      maxIdx: old.maxIdx.slice(),
+      nanIdx: old.nanIdx.slice(),
+    };
+    const below = levels[k - 1];
+    for (const b of dirty) {
+      let mn = -1;
+      let mx = -1;
+      let nan = -1;
+      if (!below) {
+        const end = Math.min(values.length, (b + 1) * FANOUT);
+        for (let i = b * FANOUT; i < end; i++) {
+          const v = values[i];
+          if (Number.isNaN(v)) {
+            if (nan < 0) nan = i;
+            continue;
+          }
+          if (mn < 0 || v < values[mn]) mn = i;
+          if (mx < 0 || v > values[mx]) mx = i;
+        }
+      } else {
+        const end = Math.min(below.minIdx.length, (b + 1) * FANOUT);
+        for (let c = b * FANOUT; c < end; c++) {
+          const cmn = below.minIdx[c];
+          const cmx = below.maxIdx[c];
+          if (nan < 0 && below.nanIdx[c] >= 0) nan = below.nanIdx[c];
+          if (cmn >= 0 && (mn < 0 || values[cmn] < values[mn])) mn = cmn;
+          if (cmx >= 0 && (mx < 0 || values[cmx] > values[mx])) mx = cmx;
+        }
+      }
+      level.minIdx[b] = mn;
+      level.maxIdx[b] = mx;
+      level.nanIdx[b] = nan;
+    }
+    levels.push(level);
+    dirty = [...new Set(dirty.map((b) => Math.floor(b / FANOUT)))];
+  });
+  return { length: pyramid.length, levels };
+}
+
+/**
+ * Indices of the samples to draw for `[i0, i1)` at roughly `buckets` columns: each bucket
+ * contributes its min, its max and (if any) one NaN so gaps still break the line.
+ * Ranges that already fit in `2 · buckets` samples are returned at full resolution.
+ */
+export function queryMinMax(
+  pyramid: MinMaxPyramid,
+  values: Float64Array,
+  i0: number,
+  i1: number,
+  buckets: number
+): number[] {
+  i0 = Math.max(0, i0);
+  i1 = Math.min(pyramid.length, i1);
+  const n = i1 - i0;
+  const out: number[] = [];
+  if (n <= 0) return out;
+  if (n <= buckets * 2) {
+    for (let i = i0; i < i1; i++) out.push(i);
+    return out;
+  }
+
+  const bucketSize = n / buckets;
+  for (let b = 0; b < buckets; b++) {
+    const s = i0 + Math.floor(b * bucketSize);
+    const e = b === buckets - 1 ? i1 : i0 + Math.floor((b + 1) * bucketSize);
+
+    let mn = -1;
+    let mx = -1;
+    let nan = -1;
+    // Walk the bucket with the largest aligned blocks that fit
+    let pos = s;
+    while (pos < e) {
+      let used = false;
+      for (let k = pyramid.levels.length - 1; k >= 0; k--) {
+        const level = pyramid.levels[k];
+        const bs = level.blockSize;
+        if (pos % bs !== 0 || pos + bs > e) continue;
+        const blk = pos / bs;
+        const cmn = level.minIdx[blk];
+        const cmx = level.maxIdx[blk];
+        if (nan < 0 && level.nanIdx[blk] >= 0) nan = level.nanIdx[blk];
+        if (cmn >= 0 && (mn < 0 || values[cmn] < values[mn])) mn = cmn;
+        if (cmx >= 0 && (mx < 0 || values[cmx] > values[mx])) mx = cmx;
+        pos += bs;
+        used = true;
+        break;
+      }
+      if (used) continue;
+      const v = values[pos];
+      if (Number.isNaN(v)) {
+        if (nan < 0) nan = pos;
+      } else {
+        if (mn < 0 || v < values[mn]) mn = pos;
+        if (mx < 0 || v > values[mx]) mx = pos;
+      }
+      pos++;
+    }
+
+    const picked = [mn, mx, nan].filter((i) => i >= 0).sort((a, b) => a - b);
+    for (const i of picked) {
+      if (out[out.length - 1] !== i) out.push(i);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  adjacentOutlierRow,
+  detectAllOutliers,
+  detectOutliers,
+  exportOutliers,
+  outlierRows,
+  type OutlierDetector,
+} from "./outliers";
+import parseDataText, { type SequenceData } from "./parseDataText";
+
+const series = (...columns: number[][]): SequenceData => ({
+  timeAxisName: "X",
+  xKind: "number",
+  xValues: Float64Array.from(columns[0], (_, i) => i),
+  series: columns.map((values, k) => ({ name: `s${k}`, values: Float64Array.from(values) })),
+  missingRows: [],
+});
+
+const flaggedRows = (data: SequenceData, detector: OutlierDetector, k = 0) =>
+  detectOutliers(data, k, detector).map((o) => o.row);
+
+// A flat signal with small noise and one spike at row 10
+const noisy = Array.from({ length: 20 }, (_, i) => 0.1 * Math.sin(i * 1.7));
+noisy[10] = 5;
+
+describe("detectOutliers", () => {
+  test("every detector finds a lone spike", () => {
+    const data = series(noisy);
+    assert.deepEqual(flaggedRows(data, { method: "zscore", threshold: 3 }), [10]);
+    assert.deepEqual(flaggedRows(data, { method: "iqr", k: 1.5 }), [10]);
+    assert.deepEqual(flaggedRows(data, { method: "hampel", window: 3, threshold: 3 }), [10]);
+    // The jump up is flagged; the jump back down lands on row 11
+    assert.deepEqual(flaggedRows(data, { method: "step", threshold: 6 }), [10, 11]);
+  });
+
+  test("scores are signed", () => {
+    const down = noisy.map((v, i) => (i === 10 ? -5 : v));
+    const [o] = detectOutliers(series(down), 0, { method: "zscore", threshold: 3 });
+    assert.equal(o.row, 10);
+    assert.equal(o.value, -5);
+    assert.ok(o.score < -3);
+  });
+
+  test("zero spread flags nothing", () => {
+    const flat = series(Array(10).fill(2));
+    for (const method of ["zscore", "iqr", "hampel", "step"] as const) {
+      const detector: OutlierDetector =
+        method === "zscore" || method === "step"
+          ? { method, threshold: 1 }
+          : method === "iqr"
+            ? { method, k: 1.5 }
+            : { method, window: 2, threshold: 1 };
+      assert.deepEqual(flaggedRows(flat, detector), [], method);
+    }
+  });
+
+  test("gaps are never flagged and steps skip over them", () => {
+    const values = noisy.slice();
+    values[10] = 0.1;
+    values[4] = NaN;
+    values[15] = NaN;
+    values[16] = 5;
+    const data = series(values);
+    assert.deepEqual(flaggedRows(data, { method: "zscore", threshold: 3 }), [16]);
+    // The jump into row 16 is measured from row 14, across the gap
+    assert.deepEqual(flaggedRows(data, { method: "step", threshold: 6 }), [16, 17]);
+  });
+
+  test("too few values flag nothing", () => {
+    assert.deepEqual(flaggedRows(series([1, 100]), { method: "iqr", k: 0 }), []);
+    assert.deepEqual(flaggedRows(series([NaN, 1, NaN]), { method: "zscore", threshold: 0 }), []);
+  });
+
+  test("all series together are sorted by row, then series", () => {
+    const other = noisy.map((v, i) => (i === 10 ? v : i === 3 ? -5 : v));
+    const all = detectAllOutliers(series(noisy, other, noisy), null, {
+      method: "zscore",
+      threshold: 3,
+    });
+    assert.deepEqual(
+      all.map((o) => [o.row, o.series]),
+      [
+        [3, 1],
+        [10, 0],
+        [10, 1],
+        [10, 2],
+      ]
+    );
+    assert.deepEqual(outlierRows(all), [3, 10]);
+  });
+});
+
+describe("adjacentOutlierRow", () => {
+  const rows = [2, 5, 9];
+
+  test("without a current row it starts at the near end", () => {
+    assert.equal(adjacentOutlierRow(rows, null, 1), 2);
+    assert.equal(adjacentOutlierRow(rows, null, -1), 9);
+    assert.equal(adjacentOutlierRow([], 3, 1), null);
+  });
+
+  test("steps from flagged and unflagged rows", () => {
+    assert.equal(adjacentOutlierRow(rows, 5, 1), 9);
+    assert.equal(adjacentOutlierRow(rows, 5, -1), 2);
+    assert.equal(adjacentOutlierRow(rows, 6, 1), 9);
+    assert.equal(adjacentOutlierRow(rows, 6, -1), 5);
+  });
+
+  test("wraps around both ends", () => {
+    assert.equal(adjacentOutlierRow(rows, 9, 1), 2);
+    assert.equal(adjacentOutlierRow(rows, 12, 1), 2);
+    assert.equal(adjacentOutlierRow(rows, 2, -1), 9);
+    assert.equal(adjacentOutlierRow(rows, 0, -1), 9);
+    assert.equal(adjacentOutlierRow([4], 4, 1), 4);
+    assert.equal(adjacentOutlierRow([4], 4, -1), 4);
+  });
+});
+
+describe("exportOutliers", () => {
+  test("CSV quotes and formats like the sequence export", () => {
+    const t0 = Date.UTC(2024, 0, 1);
+    const data: SequenceData = {
+      ...series(noisy),
+      timeAxisName: " time ",
+      xKind: "date",
+      xValues: Float64Array.from(noisy, (_, i) => t0 + i * 1000),
+      series: [{ name: "a;b", values: Float64Array.from(noisy) }],
+    };
+    const outliers = detectOutliers(data, 0, { method: "zscore", threshold: 3 });
+    const csv = exportOutliers(data, outliers, "csv");
+    const [header, line] = csv.split("\n");
+    assert.equal(header, 'index," time ",series,value,score');
+    assert.ok(line.startsWith(`10,${new Date(t0 + 10_000).toISOString()},"a;b",5,`));
+
+    const back = parseDataText(csv, { xColumn: 1, yColumns: [3] });
+    assert.equal(back.timeAxisName, " time ");
+    assert.deepEqual([...back.xValues], [t0 + 10_000]);
+  });
+});
@@ -0,0 +1,238 @@
+import { formatExportX, quoteField } from "./exportSequence";
+import type { SequenceData } from "./parseDataText";
+
+/**
+ * How points are flagged. Scores are in units of the detector's spread (standard
+ * deviations, scaled MADs or IQRs), so thresholds carry over between signals.
+ */
+export type OutlierDetector =
+  /** Distance from the mean of the whole series, in standard deviations */
+  | { method: "zscore"; threshold: number }
+  /** Distance from the median of the `window` points on each side, in scaled MADs */
+  | { method: "hampel"; window: number; threshold: number }
+  /** Outside [Q1 - k·IQR, Q3 + k·IQR] of the whole series */
+  | { method: "iqr"; k: number }
+  /** Jump from the previous point larger than `threshold` robust deviations of all jumps */
+  | { method: "step"; threshold: number };
+
+export type OutlierMethod = OutlierDetector["method"];
+
+/** One flagged point. */
+export type Outlier = {
+  row: number;
+  /** Index into `SequenceData.series` */
+  series: number;
+  value: number;
+  /** Signed distance from normal, in the detector's units */
+  score: number;
+};
+
+export const defaultDetectors: { [M in OutlierMethod]: Extract<OutlierDetector, { method: M }> } = {
+  zscore: { method: "zscore", threshold: 3 },
+  hampel: { method: "hampel", window: 5, threshold: 3 },
+  iqr: { method: "iqr", k: 1.5 },
+  step: { method: "step", threshold: 6 },
+};
+
+// MAD × this estimates the standard deviation of normally distributed data
+const MAD_SCALE = 1.4826;
+// Hampel windows wider than this get slow (every point sorts its window)
+export const MAX_HAMPEL_WINDOW = 250;
+
+function median(sorted: Float64Array): number {
+  const n = sorted.length;
+  const mid = n >> 1;
+  return n % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Linear-interpolated quantile of ascending values
+function quantile(sorted: Float64Array, q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.min(sorted.length - 1, lo + 1);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+// Non-NaN values, ascending
+function sortedValues(values: Float64Array): Float64Array {
+  return values.filter((v) => !Number.isNaN(v)).sort();
+}
+
+function medianAbsDeviation(sorted: Float64Array, center: number): number {
+  const deviations = sorted.map((v) => Math.abs(v - center)).sort();
+  return median(deviations);
+}
+
+/**
+ * Points of one series flagged by `detector`, in row order. Gaps (NaN) are never flagged;
+ * a detector whose spread is 0 (e.g. a constant stretch) flags nothing there.
+ */
+export function detectOutliers(
+  data: SequenceData,
+  seriesIndex: number,
+  detector: OutlierDetector
+): Outlier[] {
+  const series = data.series[seriesIndex];
+  if (!series) return [];
+  const ys = series.values;
+  const found: Outlier[] = [];
+  const flag = (row: number, score: number) =>
+    found.push({ row, series: seriesIndex, value: ys[row], score });
+
+  switch (detector.method) {
+    case "zscore": {
+      let n = 0;
+      let sum = 0;
+      let sumSq = 0;
+      for (const v of ys) {
+        if (Number.isNaN(v)) continue;
+        n++;
+        sum += v;
+        sumSq += v * v;
+      }
+      if (n < 2) return [];
+      const mean = sum / n;
+      const std = Math.sqrt(Math.max(0, (sumSq - n * mean * mean) / (n - 1)));
+      if (!(std > 0)) return [];
+      for (let i = 0; i < ys.length; i++) {
+        const z = (ys[i] - mean) / std;
+        if (Math.abs(z) > detector.threshold) flag(i, z);
+      }
+      break;
+    }
+    case "iqr": {
+      const sorted = sortedValues(ys);
+      if (sorted.length < 4) return [];
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      const iqr = q3 - q1;
+      if (!(iqr > 0)) return [];
+      const lo = q1 - detector.k * iqr;
+      const hi = q3 + detector.k * iqr;
+      for (let i = 0; i < ys.length; i++) {
+        const v = ys[i];
+        if (v < lo) flag(i, (v - q1) / iqr);
+        else if (v > hi) flag(i, (v - q3) / iqr);
+      }
+      break;
+    }
+    case "hampel": {
+      const w = Math.max(1, Math.min(MAX_HAMPEL_WINDOW, Math.round(detector.window)));
+      const neighbours = new Float64Array(2 * w + 1);
+      const deviations = new Float64Array(2 * w + 1);
+      for (let i = 0; i < ys.length; i++) {
+        const y = ys[i];
+        if (Number.isNaN(y)) continue;
+        let n = 0;
+        for (let j = Math.max(0, i - w); j <= Math.min(ys.length - 1, i + w); j++) {
+          if (!Number.isNaN(ys[j])) neighbours[n++] = ys[j];
+        }
+        const sorted = neighbours.subarray(0, n).sort();
+        const center = median(sorted);
+        for (let j = 0; j < n; j++) deviations[j] = Math.abs(sorted[j] - center);
+        const scale = MAD_SCALE * median(deviations.subarray(0, n).sort());
+        if (!(scale > 0)) continue;
+        const score = (y - center) / scale;
+        if (Math.abs(score) > detector.threshold) flag(i, score);
+      }
+      break;
+    }
+    case "step": {
+      // Jumps between consecutive values, skipping over gaps
+      const rows: number[] = [];
+      const jumps: number[] = [];
+      let prev = NaN;
+      for (let i = 0; i < ys.length; i++) {
+        const y = ys[i];
+        if (Number.isNaN(y)) continue;
+        if (!Number.isNaN(prev)) {
+          rows.push(i);
+          jumps.push(y - prev);
+        }
+        prev = y;
+      }
+      if (jumps.length < 2) return [];
+      const sorted = Float64Array.from(jumps).sort();
+      const scale = MAD_SCALE * medianAbsDeviation(sorted, median(sorted));
+      if (!(scale > 0)) return [];
+      for (let k = 0; k < jumps.length; k++) {
+        const score = jumps[k] / scale;
+        if (Math.abs(score) > detector.threshold) flag(rows[k], score);
+      }
+      break;
+    }
+  }
+  return found;
+}
+
+/** Outliers of the given series (every series when null), sorted by row then series. */
+export function detectAllOutliers(
+  data: SequenceData,
+  seriesIndex: number | null,
+  detector: OutlierDetector
+): Outlier[] {
+  const indices = seriesIndex === null ? data.series.map((_, k) => k) : [seriesIndex];
+  return indices
+    .flatMap((k) => detectOutliers(data, k, detector))
+    .sort((a, b) => a.row - b.row || a.series - b.series);
+}
+
+/** Distinct rows with at least one outlier, ascending. */
+export function outlierRows(outliers: readonly Outlier[]): number[] {
+  const rows: number[] = [];
+  for (const o of outliers) if (rows[rows.length - 1] !== o.row) rows.push(o.row);
+  return rows;
+}
+
+/** The flagged row after (`step` 1) or before (-1) `from`, wrapping around the ends. */
+export function adjacentOutlierRow(
+  rows: readonly number[],
+  from: number | null,
+  step: 1 | -1
+): number | null {
+  if (rows.length === 0) return null;
+  if (from === null) return step > 0 ? rows[0] : rows[rows.length - 1];
+  // First index whose row is past `from` in the direction of travel
+  let lo = 0;
+  let hi = rows.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (rows[mid] <= from) lo = mid + 1;
+    else hi = mid;
+  }
+  if (step > 0) return rows[lo % rows.length];
+  const before = rows[lo - 1] === from ? lo - 2 : lo - 1;
+  return rows[(before + rows.length) % rows.length];
+}
+
+/**
+ * Flagged points as CSV or JSON; `index` is the 0-based data row. X and names are written
+ * like `exportSequence` writes them.
+ */
+export function exportOutliers(
+  data: SequenceData,
+  outliers: readonly Outlier[],
+  format: "csv" | "json"
+): string {
+  const xText = (row: number) => formatExportX(data, data.xValues[row]);
+  if (format === "json") {
+    return JSON.stringify(
+      outliers.map((o) => ({
+        index: o.row,
+        x: data.xKind === "date" ? xText(o.row) : data.xValues[o.row],
+        series: data.series[o.series].name,
+        value: o.value,
+        score: o.score,
+      })),
+      null,
+      2
+    );
+  }
+  const lines = outliers.map((o) =>
+    [o.row, xText(o.row), quoteField(data.series[o.series].name), o.value, o.score].join(",")
+  );
+  return [
+    ["index", quoteField(data.timeAxisName), "series", "value", "score"].join(","),
+    ...lines,
+  ].join("\n");
+}
@@ -0,0 +1,350 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import exportSequence from "./exportSequence";
+import parseDataText, {
+  createCellReader,
+  createSequenceParser,
+  type ParseOptions,
+} from "./parseDataText";
+import { ParseError } from "./parseDiagnostics";
+
+const names = (text: string, options?: ParseOptions) => {
+  const data = parseDataText(text, options);
+  return [data.timeAxisName, ...data.series.map((s) => s.name)];
+};
+
+// The diagnostic codes of a failed parse
+const failureCodes = (text: string, options?: ParseOptions) => {
+  try {
+    parseDataText(text, options);
+  } catch (err) {
+    if (err instanceof ParseError) return err.diagnostics.map((d) => d.code);
+    throw err;
+  }
+  assert.fail("Expected a ParseError");
+};
+
+describe("header detection", () => {
+  test("a first row of text is a header naming X and the series", () => {
+    assert.deepEqual(names("time,temp,rh\n0,20.5,40\n1,20.7,41\n"), ["time", "temp", "rh"]);
+  });
+
+  test("a numeric first row is data", () => {
+    const data = parseDataText("0,1\n1,2\n");
+    assert.deepEqual(names("0,1\n1,2\n"), ["X", "Value"]);
+    assert.equal(data.xValues.length, 2);
+  });
+
+  test("an ISO date in the X column still counts as data", () => {
+    const data = parseDataText("2024-01-01,1\n2024-01-02,2\n");
+    assert.equal(data.xValues.length, 2);
+    assert.equal(data.xKind, "date");
+  });
+
+  test("text in any Y column makes the row a header", () => {
+    assert.deepEqual(names("0,1,b\n1,2,3\n"), ["0", "1", "b"]);
+  });
+
+  test("a missing Y cell counts as data only with allowMissing", () => {
+    const data = parseDataText("0,NA\n1,2\n", { allowMissing: true });
+    assert.equal(data.xValues.length, 2);
+    assert.deepEqual(data.missingRows, [0]);
+    assert.deepEqual(names("0,NA\n1,2\n"), ["0", "NA"]);
+  });
+
+  test("a single column is Y over the row index", () => {
+    const data = parseDataText("5\n6\n7\n");
+    assert.deepEqual([data.timeAxisName, data.series[0].name], ["Index", "Value"]);
+    assert.deepEqual([...data.xValues], [0, 1, 2]);
+  });
+
+  test("the header option overrides detection", () => {
+    assert.deepEqual(names("0,1\n1,2\n", { header: "yes" }), ["0", "1"]);
+    assert.deepEqual(
+      failureCodes("a,b\n1,2\n", { header: "no" }),
+      ["invalid-x"]
+    );
+  });
+
+  test("empty header cells fall back to default names", () => {
+    assert.deepEqual(names(",a,\n0,1,2\n"), ["X", "a", "Value 2"]);
+  });
+
+  test("the layout reports the header and the column names", () => {
+    const parser = createSequenceParser();
+    parser.push("t;v\n1;2,5\n");
+    const data = parser.finish();
+    assert.deepEqual(parser.layout?.columnNames, ["t", "v"]);
+    assert.equal(parser.layout?.hasHeader, true);
+    assert.equal(parser.layout?.delimiter, ";");
+    // Decimal commas are read when the delimiter is not a comma
+    assert.equal(data.series[0].values[0], 2.5);
+  });
+});
+
+describe("date detection", () => {
+  test("ISO dates and datetimes become epoch milliseconds in UTC", () => {
+    const data = parseDataText(
+      "t,v\n2024-03-01,1\n2024-03-01T12:30,2\n2024-03-01 12:30:15.5,3\n"
+    );
+    assert.equal(data.xKind, "date");
+    assert.deepEqual(
+      [...data.xValues],
+      [
+        Date.UTC(2024, 2, 1),
+        Date.UTC(2024, 2, 1, 12, 30),
+        Date.UTC(2024, 2, 1, 12, 30, 15, 500),
+      ]
+    );
+  });
+
+  test("offsets and Z are honored", () => {
+    const data = parseDataText("2024-03-01T12:00Z,1\n2024-03-01T12:00+02:00,2\n");
+    assert.deepEqual([...data.xValues], [Date.UTC(2024, 2, 1, 12), Date.UTC(2024, 2, 1, 10)]);
+  });
+
+  test("sourceTimeZone applies to times without an offset only", () => {
+    const data = parseDataText("2024-07-01T12:00,1\n2024-07-01T12:00Z,2\n", {
+      sourceTimeZone: "Europe/Berlin",
+    });
+    assert.deepEqual([...data.xValues], [Date.UTC(2024, 6, 1, 10), Date.UTC(2024, 6, 1, 12)]);
+  });
+
+  test("the first data row decides: numbers keep X numeric", () => {
+    const data = parseDataText("1700000000,1\n1700000001,2\n");
+    assert.equal(data.xKind, "number");
+  });
+
+  test("once X is a date, every X must be one", () => {
+    assert.deepEqual(failureCodes("2024-01-01,1\n42,2\n"), ["invalid-date"]);
+  });
+
+  test("out-of-range dates are rejected, not rolled over", () => {
+    assert.deepEqual(failureCodes("t,v\n2024-02-30,1\n"), ["invalid-x"]);
+    assert.deepEqual(failureCodes("t,v\n2024-01-01,1\n2024-01-01T24:00,2\n"), ["invalid-date"]);
+    assert.equal(parseDataText("2024-02-29,1\n").xValues[0], Date.UTC(2024, 1, 29));
+    assert.deepEqual(
+      failureCodes("t,v\n31/02/2023,1\n", { xFormat: "pattern", xPattern: "DD/MM/YYYY" }),
+      ["invalid-date"]
+    );
+  });
+
+  test("a date that is not ISO is not detected", () => {
+    assert.deepEqual(failureCodes("t,v\n01/02/2024,1\n"), ["invalid-x"]);
+  });
+
+  test("xFormat reads Unix timestamps and custom patterns", () => {
+    const seconds = parseDataText("1700000000,1\n", { xFormat: "epochSeconds" });
+    assert.equal(seconds.xKind, "date");
+    assert.equal(seconds.xValues[0], 1_700_000_000_000);
+
+    const pattern = parseDataText("01/02/2024 13:05,1\n", {
+      xFormat: "pattern",
+      xPattern: "DD/MM/YYYY HH:mm",
+    });
+    assert.equal(pattern.xValues[0], Date.UTC(2024, 1, 1, 13, 5));
+  });
+
+  test("xFormat number rejects dates", () => {
+    assert.deepEqual(
+      failureCodes("t,v\n2024-01-01,1\n", { xFormat: "number" }),
+      ["invalid-x"]
+    );
+  });
+});
+
+describe("JSON records", () => {
+  test("nested objects are flattened into key paths", () => {
+    const data = parseDataText(
+      '{"t":1,"meta":{"a":2,"b":{"c":3}},"tags":["x"]}\n{"t":2,"meta":{"a":4,"b":{"c":5}},"tags":[]}\n'
+    );
+    assert.deepEqual(
+      [data.timeAxisName, ...data.series.map((s) => s.name)],
+      ["t", "meta.a", "meta.b.c"]
+    );
+    assert.deepEqual([...data.xValues], [1, 2]);
+    assert.deepEqual([...data.series[1].values], [3, 5]);
+  });
+
+  test("keys with dots in their names are keys, not paths", () => {
+    const data = parseDataText('[{"t":1,"a.b":2},{"t":2,"a.b":3}]');
+    assert.deepEqual(
+      [data.timeAxisName, ...data.series.map((s) => s.name)],
+      ["t", "a.b"]
+    );
+    assert.deepEqual([...data.series[0].values], [2, 3]);
+
+    // Given key paths try the key itself first, then the nested path
+    const given = parseDataText('{"t":1,"a.b":2,"m":{"c":3}}\n', {
+      xKeyPath: "t",
+      yKeyPaths: ["a.b", "m.c"],
+    });
+    assert.deepEqual(given.series.map((s) => s.values[0]), [2, 3]);
+  });
+
+  test("text fields are not taken as series by default", () => {
+    const data = parseDataText(
+      '[{"t":1,"v":2,"name":"a","w":"3.5","on":true},{"t":2,"v":3,"name":"b","w":null,"on":false}]',
+      { allowMissing: true }
+    );
+    assert.deepEqual(
+      [data.timeAxisName, ...data.series.map((s) => s.name)],
+      ["t", "v", "w"]
+    );
+    assert.deepEqual([...data.series[1].values], [3.5, NaN]);
+    assert.deepEqual(failureCodes('{"t":1,"name":"a"}\n'), ["record-shape"]);
+  });
+
+  test("a JSON export of flattened records reads back the same", () => {
+    const flat = parseDataText('{"t":1,"m":{"a":2}}\n{"t":2,"m":{"a":3}}\n');
+    const back = parseDataText(exportSequence(flat, "json"));
+    assert.equal(back.series[0].name, "m.a");
+    assert.deepEqual([...back.series[0].values], [2, 3]);
+    assert.deepEqual([...back.xValues], [1, 2]);
+  });
+
+  test("a delimited header starting with a bracket is not JSON", () => {
+    const data = parseDataText("[s],value\n0,1\n1,2\n");
+    assert.deepEqual(names("[s],value\n0,1\n1,2\n"), ["[s]", "value"]);
+    assert.deepEqual([...data.series[0].values], [1, 2]);
+    assert.deepEqual(names("{id},value\n0,1\n"), ["{id}", "value"]);
+    // A JSON array of arrays is still JSON
+    assert.deepEqual([...parseDataText("[[0,1],[1,2]]").series[0].values], [1, 2]);
+  });
+
+  test("X with no series keys left is an error, not a series over the row number", () => {
+    assert.deepEqual(failureCodes('{"t":1,"meta":{}}\n{"t":2,"meta":{}}\n'), ["record-shape"]);
+    assert.deepEqual(
+      failureCodes('{"t":1}\n{"t":2}\n', { format: "ndjson", xKeyPath: "t" }),
+      ["record-shape"]
+    );
+    // A lone key is still Y over the row number
+    const data = parseDataText('{"v":5}\n{"v":6}\n');
+    assert.deepEqual([data.timeAxisName, data.series[0].name], ["Index", "v"]);
+  });
+});
+
+describe("row errors", () => {
+  test("every bad row is reported with its line", () => {
+    try {
+      parseDataText("x,y\n0,1\n1,oops\n2,3,4\n");
+      assert.fail("Expected a ParseError");
+    } catch (err) {
+      assert.ok(err instanceof ParseError);
+      assert.deepEqual(
+        err.diagnostics.map((d) => [d.code, d.line]),
+        [
+          ["invalid-y", 3],
+          ["column-count", 4],
+        ]
+      );
+    }
+  });
+
+  test("skipInvalidRows drops them and counts them", () => {
+    const data = parseDataText("x,y\n0,1\n1,oops\n2,3\n", { skipInvalidRows: true });
+    assert.deepEqual([...data.xValues], [0, 2]);
+    assert.equal(data.skippedRows?.count, 1);
+  });
+});
+
+describe("takeRows", () => {
+  test("hands out complete lines only, with the header and X kind kept", () => {
+    const parser = createSequenceParser();
+    parser.push("t,v\n2024-01-01T00:00Z,1\n2024-01-01T00:01Z,");
+    const first = parser.takeRows();
+    assert.deepEqual([first.timeAxisName, first.series[0].name], ["t", "v"]);
+    assert.deepEqual([...first.xValues], [Date.UTC(2024, 0, 1)]);
+
+    parser.push("2\n2024-01-01T00:02Z,3\n");
+    const next = parser.takeRows();
+    assert.equal(next.xKind, "date");
+    assert.deepEqual([...next.series[0].values], [2, 3]);
+    assert.equal(parser.takeRows().xValues.length, 0);
+  });
+
+  test("waits for a first record that is complete, not just a line break", () => {
+    const parser = createSequenceParser({ commentPrefix: "#" });
+    // Neither the comment nor the line break inside the quoted header decide the delimiter
+    for (const chunk of ["# rig 7\n", '\n"time\n', '(s)";']) {
+      parser.push(chunk);
+      assert.equal(parser.takeRows().xValues.length, 0);
+    }
+    parser.push('"a,b"\n0;1,5\n1;2\n');
+    const rows = parser.takeRows();
+    assert.deepEqual([rows.timeAxisName, rows.series[0].name], ["time\n(s)", "a,b"]);
+    assert.equal(parser.layout?.delimiter, ";");
+    assert.deepEqual([...rows.series[0].values], [1.5, 2]);
+  });
+
+  test("a row-number X keeps counting across takes", () => {
+    const parser = createSequenceParser();
+    parser.push("5\n6\n");
+    parser.takeRows();
+    parser.push("7\n");
+    assert.deepEqual([...parser.takeRows().xValues], [2]);
+    assert.equal(parser.rowCount, 3);
+  });
+
+  test("bad rows are skipped and reported once", () => {
+    const parser = createSequenceParser({ header: "no" });
+    parser.push("0,1\n1,x\n2,3\n");
+    const rows = parser.takeRows();
+    assert.deepEqual([...rows.xValues], [0, 2]);
+    assert.equal(rows.skippedRows?.count, 1);
+    parser.push("3,4\n");
+    assert.equal(parser.takeRows().skippedRows, undefined);
+  });
+});
+
+describe("cell reader", () => {
+  const comma = { format: "delimited", delimiter: "," } as const;
+  const semicolon = { format: "delimited", delimiter: ";" } as const;
+
+  test("decimal commas follow the delimiter, as in the parser", () => {
+    assert.equal(createCellReader({}, "number", semicolon).readY("1,5"), 1.5);
+    assert.throws(() => createCellReader({}, "number", comma).readY("1,5"), ParseError);
+    assert.equal(
+      createCellReader({ decimalSeparator: "," }, "number", null).readY("1,5"),
+      1.5
+    );
+    assert.throws(() => createCellReader({}, "number", null).readY("1,5"), ParseError);
+  });
+
+  test("the parser and the cell reader agree on decimal commas", () => {
+    const reader = createCellReader({}, "number", { format: "delimited", delimiter: "\t" });
+    for (const text of ["1,5", "1,234", "-2,500", "0,125", "12,3456", "1,000,000", "1.5"]) {
+      let parsed: number | null = null;
+      try {
+        parsed = parseDataText(`x\tv\n0\t${text}\n`).series[0].values[0];
+      } catch (err) {
+        assert.ok(err instanceof ParseError);
+      }
+      let typed: number | null = null;
+      try {
+        typed = reader.readY(text);
+      } catch (err) {
+        assert.ok(err instanceof ParseError);
+      }
+      assert.equal(typed, parsed, text);
+    }
+    assert.deepEqual(failureCodes("x\tv\n0\t1,234\n"), ["invalid-y"]);
+    assert.equal(
+      parseDataText("x\tv\n0\t1,234\n", { decimalSeparator: "," }).series[0].values[0],
+      1.234
+    );
+  });
+
+  test("a comma that may group thousands is rejected, not truncated", () => {
+    const reader = createCellReader({}, "number", semicolon);
+    assert.throws(() => reader.readY("1,000"), ParseError);
+    assert.throws(() => reader.readY("1,000,000"), ParseError);
+    assert.throws(() => reader.readX("1,2,3"), ParseError);
+    assert.equal(reader.readY("1,0005"), 1.0005);
+    // Asked for explicitly, the comma is a decimal comma
+    assert.equal(
+      createCellReader({ decimalSeparator: "," }, "number", semicolon).readY("1,000"),
+      1
+    );
+  });
+});
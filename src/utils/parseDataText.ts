@@ -1,206 +1,953 @@
-export type SequenceData<T extends number | Date = number | Date> = {
-  timeAxisName: string;
-  valueAxisName: string;
-  dataPoints: Readonly<Array<[T, number]>>;
+import type { RawSampleFormat } from "./decodeBinarySamples";
+import {
+  ParseError,
+  parseFailure,
+  type ParseDiagnostic,
+  type ParseDiagnosticCode,
+} from "./parseDiagnostics";
+import {
+  createDelimitedTokenizer,
+  detectDelimiter,
+  stripBom,
+  type DelimitedRecord,
+  type DelimitedTokenizer,
+  type Delimiter,
+} from "./tokenizeDelimitedText";
+import {
+  createJsonValueScanner,
+  detectJsonLayout,
+  type JsonLayout,
+  type JsonValueScanner,
+  type JsonValueText,
+} from "./scanJsonValues";
+import {
+  compileTimestampPattern,
+  createZonedTimeConverter,
+  isValidDateTimeParts,
+  isValidTimeZone,
+  UTC,
+  type DateTimeParts,
+} from "./timestamps";
+
+export type DecimalSeparator = "." | ",";
+
+/**
+ * How the X column is read:
+ * - "auto": ISO dates make a date axis, anything else is numeric;
+ * - "number" / "iso": force a numeric / ISO date axis;
+ * - "epochSeconds" / "epochMillis": Unix timestamps, read as dates;
+ * - "pattern": dates in the custom `xPattern` format.
+ */
+export type XFormat = "auto" | "number" | "iso" | "epochSeconds" | "epochMillis" | "pattern";
+
+/**
+ * - "auto": JSON when the text starts with "[" or "{", delimited text otherwise;
+ * - "delimited": CSV/TSV or one value per line;
+ * - "json": one JSON array of records;
+ * - "ndjson": newline-delimited JSON, one record per line.
+ */
+export type InputFormat = "auto" | "delimited" | "json" | "ndjson";
+
+export type ParseOptions = {
+  /** Input format. Default: "auto". */
+  format?: InputFormat;
+  /**
+   * Decimal separator for numeric fields. Default: "auto" — decimal commas are accepted
+   * whenever the delimiter is not a comma (tab/semicolon/pipe files), dots always; values
+   * such as "1,234", where the comma may group thousands, need "," set to be read.
+   */
+  decimalSeparator?: DecimalSeparator | "auto";
+  /**
+   * Lenient mode: empty, `NaN`, `NA`, `N/A` and `null` Y cells are recorded as gaps
+   * (NaN values) instead of failing the whole parse. Default: false.
+   */
+  allowMissing?: boolean;
+  /** Whether the first record is a header row. Default: "auto" — when it does not look like data. */
+  header?: "auto" | "yes" | "no";
+  /**
+   * Field delimiter of delimited text. Default: "auto" (detected, mixing delimiters is an
+   * error); a chosen delimiter makes the other delimiter characters ordinary text.
+   */
+  delimiter?: Delimiter | "auto";
+  /** Physical lines skipped at the start of the input, e.g. a preamble. Default: 0. */
+  skipLines?: number;
+  /** Lines starting with this (after indentation) are ignored, e.g. "#". Default: none. */
+  commentPrefix?: string;
+  /**
+   * 0-based source column of X, or "index" for X = row number. Default: the first column
+   * (the row number when there is only one column).
+   */
+  xColumn?: number | "index";
+  /** 0-based source columns of the series. Default: every column except X. */
+  yColumns?: number[];
+  /** How to read the X column. Default: "auto". */
+  xFormat?: XFormat;
+  /**
+   * Format for `xFormat: "pattern"`, e.g. "MM/DD/YYYY HH:mm:ss" (tokens as in
+   * `compileTimestampPattern`).
+   */
+  xPattern?: string;
+  /** IANA zone of timestamps written without an offset. Default: "UTC". */
+  sourceTimeZone?: string;
+  /**
+   * JSON records that are objects: dotted key path of X, e.g. "time" or "meta.t" (a key
+   * named "meta.t" wins over t inside meta). Default: the first key path of the first
+   * record (nested objects are flattened).
+   */
+  xKeyPath?: string;
+  /**
+   * JSON object records: key paths of the series. Default: the other key paths of the first
+   * record that hold a number, a numeric string or null.
+   */
+  yKeyPaths?: string[];
+  /** Raw binary dumps (see `binarySampleKind`): how the samples are stored. */
+  rawFormat?: RawSampleFormat;
+  /** Most row problems kept as diagnostics; all of them are counted. Default: 100. */
+  maxDiagnostics?: number;
+  /**
+   * Drop rows with problems (invalid values, wrong column count) and return the rest,
+   * listing them in `skippedRows`, instead of failing. Default: false.
+   */
+  skipInvalidRows?: boolean;
+};
+
+export type XKind = "number" | "date";
+
+export type SequenceSeries = {
+  name: string;
+  /** Missing values (lenient mode only) are NaN. */
+  values: Float64Array;
 };
 
 /**
- * Parse a block of delimited (CSV/TSV) or single-column text into a typed sequence.
- *
- * Rules implemented per spec:
- * - Throw if any numeric field is NaN/Infinity (non-true-number).
- * - Detect header if first row contains non-numeric text (for X: numeric or ISO date counts as data-like; for Y: numeric only).
- * - Detect delimiter across ALL lines (comma or tab). Throw if mixed or >2 columns.
- * - Allow either:
- *    • one column (Y only) → X is implicit index starting at 0
- *    • two columns (X, Y)
- * - If every X is an ISO date/datetime, convert X to Date objects (UTC/"universal timezone" semantics).
+ * One shared X column plus any number of named value series, stored as typed arrays so
+ * they can be transferred from a worker without copying.
+ * Every series has exactly `xValues.length` values.
  */
-export default function parseDataText<
-  T extends Date | number = Date | number
->(text: string): SequenceData<T> {
-  if (typeof text !== "string") throw new Error("Input must be a string");
+export type SequenceData = {
+  timeAxisName: string;
+  /** "date" → `xValues` are milliseconds since the Unix epoch (UTC). */
+  xKind: XKind;
+  xValues: Float64Array;
+  series: SequenceSeries[];
+  /** Ascending data-row indices that contain at least one missing Y value. */
+  missingRows: number[];
+  /** Rows dropped by `skipInvalidRows`: how many, and the first diagnostics. */
+  skippedRows?: { count: number; diagnostics: ParseDiagnostic[] };
+};
 
-  // Normalize line endings and trim leading/trailing whitespace-only lines
-  const lines = text
-    .replace(/\r\n/g, "\n")
-    .replace(/\r/g, "\n")
-    .split("\n")
-    .map((l) => l.trim())
-    .filter((l) => l.length > 0);
-
-  if (lines.length === 0) throw new Error("No data lines found");
-
-  // --- Delimiter detection (comma vs tab vs none). Reject mixes. ---
-  let commaLines = 0;
-  let tabLines = 0;
-  for (const l of lines) {
-    const hasComma = l.includes(",");
-    const hasTab = l.includes("\t");
-    if (hasComma) commaLines++;
-    if (hasTab) tabLines++;
-    if (hasComma && hasTab)
-      throw new Error("Mixed delimiters in a single line (comma and tab)");
-  }
-  if (commaLines > 0 && tabLines > 0) {
-    throw new Error("Mixed delimiters across lines (some comma, some tab)");
+/** What the parser detected or was told about the input. */
+export type InputLayout = {
+  format: "delimited" | "json" | "ndjson";
+  /** null: one value per line */
+  delimiter: Delimiter | null;
+  hasHeader: boolean;
+  /** Every source column: header cells, else "Column 1", "Column 2", ... */
+  columnNames: string[];
+  /** Source column of X; null when X is the row number */
+  xColumn: number | null;
+  yColumns: number[];
+  /** null until a data row was read */
+  xKind: XKind | null;
+};
+
+export type SequenceParser = {
+  /**
+   * Feed the next chunk of text. Throws `ParseError` on problems that stop the parse;
+   * bad rows are collected and reported by `finish`.
+   */
+  push(chunk: string): void;
+  /**
+   * Parse whatever is left and return the sequence. Throws `ParseError` listing the bad
+   * rows (warnings) unless `skipInvalidRows` is set. `truncated`: only the start of the
+   * input was pushed (a preview), so an unclosed JSON array is not an error.
+   */
+  finish(options?: { truncated?: boolean }): SequenceData;
+  /**
+   * Hand out the rows completed since the last call without ending the input, for text
+   * that keeps growing (a tailed log file, a live feed). A row is complete once its line
+   * break was read. Rows with problems are left out and listed in `skippedRows`, whether
+   * or not `skipInvalidRows` is set; `finish` then only returns the rows not taken yet.
+   */
+  takeRows(): SequenceData;
+  /** Data rows parsed so far (excluding the header). */
+  readonly rowCount: number;
+  /** Format, header and columns, once the first record was read (else null). */
+  readonly layout: InputLayout | null;
+};
+
+// Characters buffered before the delimiter is chosen; the tokenizer enforces it afterwards
+const DELIMITER_DETECTION_CHARS = 64 * 1024;
+
+const DEFAULT_MAX_DIAGNOSTICS = 100;
+
+// A record as handed to the row parser: delimited fields, or cells read from JSON
+type SourceRecord = DelimitedRecord & {
+  /** Source text for diagnostics; default: the fields joined by the delimiter. */
+  raw?: string;
+  /** Known to be the header (JSON key names) rather than detected. */
+  header?: boolean;
+};
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+// Where a column is found in object records: the keys from the top level down, and for a
+// key path given in the options its text, which may also be a key with dots in it
+type KeyPath = { segments: string[]; literal?: string };
+
+// Value at a key path such as ["meta", "t"] or ["values", "0"]
+function lookupKeyPath(v: Record<string, unknown>, { segments, literal }: KeyPath): unknown {
+  if (literal !== undefined && Object.hasOwn(v, literal)) return v[literal];
+  let value: unknown = v;
+  for (const key of segments) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
   }
-  const delimiter: "," | "\t" | null = commaLines > 0 ? "," : tabLines > 0 ? "\t" : null;
+  return value;
+}
+
+// A dotted path from the options: "a.b" is the key "a.b" if there is one, else b inside a
+const optionKeyPath = (path: string): KeyPath => ({ segments: path.split("."), literal: path });
+
+// Key paths of the values in a JSON object, nested objects flattened (["meta", "t"]);
+// arrays are left out
+function valueKeyPaths(v: Record<string, unknown>, prefix: string[] = []): string[][] {
+  return Object.entries(v).flatMap(([key, value]) =>
+    isPlainObject(value)
+      ? valueKeyPaths(value, [...prefix, key])
+      : Array.isArray(value)
+        ? []
+        : [[...prefix, key]]
+  );
+}
+
+// JSON value as a field: numbers and strings as written, null/absent as an empty cell
+function jsonCell(v: unknown): string {
+  if (typeof v === "number") return String(v);
+  if (typeof v === "string") return v;
+  if (v === null || v === undefined) return "";
+  return JSON.stringify(v);
+}
+
+/**
+ * Streaming filter that blanks out the first `skipLines` lines and lines starting with
+ * `commentPrefix` (after indentation). Line breaks are kept, so line numbers still match
+ * the source; the tokenizer skips the blank lines.
+ */
+function createLineFilter(
+  skipLines: number,
+  commentPrefix: string
+): (chunk: string, final: boolean) => string {
+  let line = 0;
+  // Start of the current line while it is undecided; null once it is kept or dropped
+  let head: string | null = skipLines > 0 ? null : "";
+  let dropping = skipLines > 0;
+  let afterCr = false;
 
-  // --- Tokenize all rows ---
-  const rows: string[][] = lines.map((l) => (delimiter ? l.split(delimiter) : [l]));
+  // Decide about the current line from `head`, if it is long enough (or the line ended)
+  const decide = (ended: boolean): string => {
+    if (head === null) return "";
+    const text = head.trimStart();
+    const undecided =
+      text === "" || (text.length < commentPrefix.length && commentPrefix.startsWith(text));
+    if (!ended && undecided) return "";
+    const kept = head;
+    head = null;
+    dropping = commentPrefix !== "" && text.startsWith(commentPrefix);
+    return dropping ? "" : kept;
+  };
+
+  return (chunk, final) => {
+    let out = "";
+    for (const ch of chunk) {
+      if (afterCr && ch === "\n") {
+        afterCr = false;
+        out += ch;
+        continue;
+      }
+      afterCr = ch === "\r";
+      if (ch === "\r" || ch === "\n") {
+        out += decide(true) + ch;
+        line++;
+        dropping = line < skipLines;
+        head = dropping ? null : "";
+        continue;
+      }
+      if (head !== null) {
+        head += ch;
+        out += decide(false);
+      } else if (!dropping) {
+        out += ch;
+      }
+    }
+    if (final) out += decide(true);
+    return out;
+  };
+}
 
-  // Validate column counts: only 1 or 2 columns allowed
-  const colCounts = new Set(rows.map((r) => r.length));
-  if (colCounts.size > 1) {
-    throw new Error("Inconsistent column counts across rows");
+const NUM_RE = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+const MISSING_RE = /^(?:|nan|na|n\/a|null)$/i;
+// "1,234": a decimal comma, or a comma grouping thousands; only a set separator tells
+const THOUSANDS_COMMA_RE = /^[+-]?[1-9]\d{0,2},\d{3}$/;
+const AMBIGUOUS_COMMA_HINT = " (a decimal or a thousands comma?)";
+// Strict-ish ISO date/datetime (YYYY-MM-DD or with time, optional timezone)
+const ISO_RE = /^(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+function parseIsoParts(s: string): DateTimeParts | null {
+  const m = ISO_RE.exec(s);
+  if (!m) return null;
+  const [, Y, Mo, D, h, mi, se, ms, tz] = m;
+  const parts: DateTimeParts = {
+    year: Number(Y),
+    month: Number(Mo),
+    day: Number(D),
+    hour: h ? Number(h) : 0,
+    minute: mi ? Number(mi) : 0,
+    second: se ? Number(se) : 0,
+    millisecond: ms ? Number(ms.padEnd(3, "0")) : 0,
+  };
+  // Out-of-range fields (2024-02-30, 25:00) are not dates rather than rolled over
+  if (!isValidDateTimeParts(parts)) return null;
+  if (tz) {
+    // "Z" or an offset like +02:00 / -05:30
+    const sign = tz[0] === "-" ? -1 : 1;
+    const [toH, toM] = tz === "Z" ? [0, 0] : tz.slice(1).split(":").map(Number);
+    if (toH > 23 || toM > 59) return null;
+    parts.offsetMinutes = sign * (toH * 60 + toM);
   }
-  const columns = rows[0].length;
-  if (columns !== 1 && columns !== 2) {
-    throw new Error("Only one or two columns are supported");
+  return parts;
+}
+
+type Float64Column = {
+  push(v: number): void;
+  readonly length: number;
+  toArray(): Float64Array;
+  clear(): void;
+};
+
+function createFloat64Column(initialCapacity = 1024): Float64Column {
+  let buf = new Float64Array(initialCapacity);
+  let length = 0;
+  return {
+    push(v: number) {
+      if (length === buf.length) {
+        const next = new Float64Array(buf.length * 2);
+        next.set(buf);
+        buf = next;
+      }
+      buf[length++] = v;
+    },
+    get length() {
+      return length;
+    },
+    toArray() {
+      return buf.slice(0, length);
+    },
+    clear() {
+      length = 0;
+    },
+  };
+}
+
+/**
+ * Incremental parser behind `parseDataText`. Text may be pushed in arbitrary chunks
+ * (e.g. decoded from `File.stream()`); the rules are the same as for `parseDataText`,
+ * with decisions that need a look at the data made on the first rows and enforced for
+ * every row after that:
+ * - JSON or delimited text is told apart on the first 64 KiB (unless `format` is set);
+ * - the delimiter is chosen from the first 64 KiB, later rows must not mix in another
+ *   (both on less when `takeRows` asks for rows before that much arrived);
+ * - the header is detected on the first row (JSON objects: their key paths are the header);
+ * - X is a date column if the first data row's X is an ISO date; then every X must be
+ *   (unless `xFormat` says how to read X).
+ */
+export function createSequenceParser(options: ParseOptions = {}): SequenceParser {
+  const allowMissing = options.allowMissing ?? false;
+  const requestedDecimal = options.decimalSeparator ?? "auto";
+  const format = options.format ?? "auto";
+  const xFormat = options.xFormat ?? "auto";
+  const sourceTimeZone = options.sourceTimeZone || UTC;
+  const maxDiagnostics = options.maxDiagnostics ?? DEFAULT_MAX_DIAGNOSTICS;
+  const skipInvalidRows = options.skipInvalidRows ?? false;
+  const headerMode = options.header ?? "auto";
+  const requestedDelimiter = options.delimiter ?? "auto";
+  const lineFilter =
+    (options.skipLines ?? 0) > 0 || options.commentPrefix
+      ? createLineFilter(options.skipLines ?? 0, options.commentPrefix ?? "")
+      : null;
+  if (!isValidTimeZone(sourceTimeZone)) {
+    throw parseFailure("invalid-option", `Unknown timezone "${sourceTimeZone}"`);
   }
-  if (delimiter && columns !== 2) {
-    throw new Error(
-      "A delimiter was detected, but the data does not have exactly two columns"
-    );
+  if (xFormat === "pattern" && !options.xPattern) {
+    throw parseFailure("invalid-option", "A timestamp format is required for custom X formats");
   }
+  const parsePattern =
+    xFormat === "pattern" ? compileTimestampPattern(options.xPattern ?? "") : null;
+  const partsToMs = createZonedTimeConverter(sourceTimeZone);
 
   // --- Helpers ---
-  const NUM_RE = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/;
+  let acceptDecimalComma = false;
+  const normalizeNumber = (s: string): string =>
+    acceptDecimalComma ? s.replace(",", ".") : s;
+  const isMissing = (s: string): boolean => allowMissing && MISSING_RE.test(s.trim());
+  // Decimal commas that are only detected are not trusted where they may group thousands
+  const isAmbiguousComma = (s: string): boolean =>
+    acceptDecimalComma && requestedDecimal === "auto" && THOUSANDS_COMMA_RE.test(s);
   const isFiniteNumberString = (s: string): boolean => {
-    if (!NUM_RE.test(s)) return false;
-    const n = Number(s);
+    const t = normalizeNumber(s);
+    if (!NUM_RE.test(t)) return false;
+    const n = Number(t);
     return Number.isFinite(n);
   };
 
-  // Strict-ish ISO date/datetime (YYYY-MM-DD or with time, optional timezone).
-  // If timezone is absent, we will interpret as UTC per spec intent.
-  const ISO_RE = /^(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?(Z|[+-]\d{2}:\d{2})?)?$/;
-  const parseIsoToDate = (s: string): Date | null => {
-    const m = ISO_RE.exec(s);
-    if (!m) return null;
-    const [_, Y, Mo, D, h, mi, se, ms, tz] = m;
-    const year = Number(Y);
-    const month = Number(Mo) - 1; // JS months 0-11
-    const day = Number(D);
-    const hh = h ? Number(h) : 0;
-    const mm = mi ? Number(mi) : 0;
-    const ss = se ? Number(se) : 0;
-    const mss = ms ? Number(ms.padEnd(3, "0")) : 0;
-
-    // Construct timestamp in ms since epoch, normalized to UTC
-    let ts: number;
-    if (!h && !tz) {
-      // Date-only (YYYY-MM-DD) → explicitly UTC midnight
-      ts = Date.UTC(year, month, day, 0, 0, 0, 0);
-    } else if (tz === "Z" || tz == null) {
-      // Time given; if tz missing, treat as UTC
-      ts = Date.UTC(year, month, day, hh, mm, ss, mss);
-    } else {
-      // With timezone offset like +02:00 or -05:30
-      const sign = tz[0] === "-" ? -1 : 1;
-      const [toH, toM] = tz.slice(1).split(":").map(Number);
-      const offsetMin = sign * (toH * 60 + toM);
-      // Local time in that offset → normalize to UTC
-      ts = Date.UTC(year, month, day, hh, mm, ss, mss) - offsetMin * 60_000;
-    }
-    const d = new Date(ts);
-    if (isNaN(d.getTime())) return null;
-    return d;
-  };
-
-  const isHeaderRow = (() => {
-    const first = rows[0];
-    if (columns === 1) {
-      // Header if not numeric
-      return !isFiniteNumberString(first[0]);
-    } else {
-      const xLooksData = isFiniteNumberString(first[0]) || !!parseIsoToDate(first[0]);
-      const yLooksData = isFiniteNumberString(first[1]);
-      return !(xLooksData && yLooksData);
-    }
-  })();
-
-  let timeAxisName = columns === 2 ? "X" : "Index";
-  let valueAxisName = "Value";
-  let startIdx = 0;
-  if (isHeaderRow) {
-    if (columns === 1) {
-      valueAxisName = rows[0][0] || "Value";
-      timeAxisName = "Index";
-    } else {
-      timeAxisName = rows[0][0] || "X";
-      valueAxisName = rows[0][1] || "Value";
+  // Without a timezone the time is wall-clock time in `sourceTimeZone` (UTC by default)
+  const parseIsoToMs = (s: string): number | null => {
+    const parts = parseIsoParts(s);
+    if (!parts) return null;
+    const ts = partsToMs(parts);
+    return Number.isNaN(ts) ? null : ts;
+  };
+
+  const parsePatternToMs = (s: string): number | null => {
+    const parts = parsePattern?.(s);
+    if (!parts) return null;
+    const ts = partsToMs(parts);
+    return Number.isNaN(ts) ? null : ts;
+  };
+
+  // --- Streaming state ---
+  let pending = "";
+  let bomChecked = false;
+  let tokenizer: DelimitedTokenizer | null = null;
+  let delimiter: Delimiter | null = null;
+  let jsonScanner: JsonValueScanner | null = null;
+  // Key paths of X and the series once JSON records turn out to be objects
+  let keyPaths: KeyPath[] | null = null;
+  let inputFormat: InputLayout["format"] = "delimited";
+  let recordCount = 0;
+  let diagnostics: ParseDiagnostic[] = [];
+  let problemCount = 0;
+
+  let columns = 0;
+  let hasHeader = false;
+  let columnNames: string[] = [];
+  // Source columns of X (null: the row number) and of each series
+  let xSource: number | null = null;
+  let ySources: number[] = [];
+  let seriesCount = 0;
+  let timeAxisName = "X";
+  let seriesNames: string[] = [];
+  let xKind: XKind | null = null;
+  const xColumn = createFloat64Column();
+  let seriesColumns: Float64Column[] = [];
+  // Rows of the columns with a missing Y value
+  let missingRows: number[] = [];
+  // Rows handed out by `takeRows` before the ones in the columns
+  let rowsTaken = 0;
+
+  const defaultSeriesName = (k: number) =>
+    seriesCount === 1 ? "Value" : `Value ${k + 1}`;
+
+  const startTokenizer = (prefix: string): DelimitedTokenizer => {
+    delimiter = requestedDelimiter === "auto" ? detectDelimiter(prefix) : requestedDelimiter;
+    if (requestedDecimal === "," && delimiter === ",") {
+      throw parseFailure(
+        "invalid-option",
+        "Decimal comma cannot be used with a comma delimiter"
+      );
     }
-    startIdx = 1;
-  }
+    acceptDecimalComma =
+      requestedDecimal === "," || (requestedDecimal === "auto" && delimiter !== ",");
+    return createDelimitedTokenizer(delimiter, { strict: requestedDelimiter === "auto" });
+  };
 
-  // --- Gather data strings ---
-  const dataRows = rows.slice(startIdx);
-  if (dataRows.length === 0) throw new Error("No data rows after header detection");
+  const startJsonScanner = (layout: JsonLayout): JsonValueScanner => {
+    // JSON numbers always use dots; decimal commas only in strings, when asked for
+    acceptDecimalComma = requestedDecimal === ",";
+    return createJsonValueScanner(layout);
+  };
 
-  // Validate column widths inside data region
-  for (const r of dataRows) {
-    if (r.length !== columns)
-      throw new Error("Inconsistent column count inside data rows");
-  }
+  // Detect header if first row contains non-numeric text
+  // (for X: numeric or ISO date counts as data-like; for Y: numeric only).
+  const isHeaderRow = (first: string[]): boolean => {
+    const xRaw = xSource === null ? null : (first[xSource] ?? "");
+    const xLooksData =
+      xRaw === null ||
+      isFiniteNumberString(xRaw) ||
+      parseIsoToMs(xRaw) !== null ||
+      parsePatternToMs(xRaw) !== null;
+    const yLooksData = ySources.every((c) => {
+      const cell = first[c] ?? "";
+      return isFiniteNumberString(cell) || isMissing(cell);
+    });
+    return !(xLooksData && yLooksData);
+  };
 
-  // Determine if first column is all ISO dates
-  let xAreDates = false;
-  if (columns === 2) {
-    xAreDates = dataRows.every((r) => !!parseIsoToDate(r[0]));
-  }
+  // Source columns of X and the series, from the options or by default
+  const chooseColumns = () => {
+    const requestedX = options.xColumn;
+    xSource =
+      requestedX === "index" || (requestedX === undefined && columns === 1)
+        ? null
+        : (requestedX ?? 0);
+    ySources =
+      options.yColumns && options.yColumns.length > 0
+        ? options.yColumns
+        : Array.from({ length: columns }, (_, c) => c).filter((c) => c !== xSource);
+    for (const c of xSource === null ? ySources : [xSource, ...ySources]) {
+      if (!Number.isInteger(c) || c < 0 || c >= columns) {
+        throw parseFailure(
+          "invalid-option",
+          `There is no column ${c + 1} (the data has ${columns} column${columns === 1 ? "" : "s"})`
+        );
+      }
+    }
+    if (ySources.length === 0) {
+      throw parseFailure("invalid-option", "No columns are left for the series");
+    }
+  };
+
+  // A problem confined to one row: the row is reported and skipped, the parse goes on
+  const rowProblem = (
+    code: ParseDiagnosticCode,
+    message: string,
+    column?: number
+  ): ParseError => new ParseError([{ code, severity: "warning", message, column }]);
+
+  const parseY = (yRaw: string, line: number, k: number, column: number): number => {
+    if (isMissing(yRaw)) return NaN;
+    const label = seriesCount === 1 ? "Y" : `Y (${seriesNames[k]})`;
+    const hint = isAmbiguousComma(yRaw) ? AMBIGUOUS_COMMA_HINT : "";
+    if (hint || !isFiniteNumberString(yRaw))
+      throw rowProblem("invalid-y", `Invalid ${label} at line ${line}: "${yRaw}"${hint}`, column);
+    const y = Number(normalizeNumber(yRaw));
+    if (!Number.isFinite(y))
+      throw rowProblem("non-finite-y", `Non-finite ${label} at line ${line}`, column);
+    return y;
+  };
+
+  const parseNumericX = (xRaw: string, line: number): number => {
+    const column = (xSource ?? 0) + 1;
+    const hint = isAmbiguousComma(xRaw) ? AMBIGUOUS_COMMA_HINT : "";
+    if (hint || !isFiniteNumberString(xRaw))
+      throw rowProblem("invalid-x", `Invalid X at line ${line}: "${xRaw}"${hint}`, column);
+    const x = Number(normalizeNumber(xRaw));
+    if (!Number.isFinite(x))
+      throw rowProblem("non-finite-x", `Non-finite X at line ${line}`, column);
+    return x;
+  };
+
+  const parseDateX = (xRaw: string, line: number): number => {
+    switch (xFormat) {
+      case "epochSeconds":
+        return parseNumericX(xRaw, line) * 1000;
+      case "epochMillis":
+        return parseNumericX(xRaw, line);
+      case "pattern": {
+        const ts = parsePatternToMs(xRaw);
+        if (ts === null) {
+          throw rowProblem(
+            "invalid-date",
+            `Invalid timestamp at line ${line}: "${xRaw}" (expected ${options.xPattern})`,
+            (xSource ?? 0) + 1
+          );
+        }
+        return ts;
+      }
+      default: {
+        const ts = parseIsoToMs(xRaw);
+        if (ts === null) {
+          throw rowProblem(
+            "invalid-date",
+            `Invalid ISO date at line ${line}: "${xRaw}"`,
+            (xSource ?? 0) + 1
+          );
+        }
+        return ts;
+      }
+    }
+  };
+
+  const report = (diagnostic: ParseDiagnostic) => {
+    problemCount++;
+    if (diagnostics.length < maxDiagnostics) diagnostics.push(diagnostic);
+  };
+
+  const handleRecord = (record: SourceRecord) => {
+    if (++recordCount === 1) {
+      // First record fixes the column layout and decides about the header
+      columns = record.fields.length;
+      chooseColumns();
+      seriesCount = ySources.length;
+      timeAxisName = xSource === null ? "Index" : "X";
+      seriesNames = Array.from({ length: seriesCount }, (_, k) => defaultSeriesName(k));
+      seriesColumns = seriesNames.map(() => createFloat64Column());
+      columnNames = record.fields.map((_, c) => `Column ${c + 1}`);
+      hasHeader =
+        record.header ?? (headerMode === "auto" ? isHeaderRow(record.fields) : headerMode === "yes");
+      if (hasHeader) {
+        columnNames = record.fields.map((name, c) => name || columnNames[c]);
+        if (xSource !== null) timeAxisName = record.fields[xSource] || "X";
+        ySources.forEach((c, k) => {
+          seriesNames[k] = record.fields[c] || defaultSeriesName(k);
+        });
+        return;
+      }
+    }
 
-  // Build data points
-  const dataPoints: Array<[number | Date, number]> = [];
-
-  if (columns === 1) {
-    for (let i = 0; i < dataRows.length; i++) {
-      const yRaw = dataRows[i][0].trim();
-      if (!isFiniteNumberString(yRaw))
-        throw new Error(`Invalid Y at row ${startIdx + i + 1}: \"${yRaw}\"`);
-      const y = Number(yRaw);
-      if (!Number.isFinite(y))
-        throw new Error(`Non-finite Y at row ${startIdx + i + 1}`);
-      dataPoints.push([i, y]);
-    }
-  } else {
-    if (xAreDates) {
-      for (let i = 0; i < dataRows.length; i++) {
-        const [xRaw, yRaw] = dataRows[i].map((s) => s.trim());
-        const d = parseIsoToDate(xRaw);
-        if (!d) throw new Error(`Invalid ISO date at row ${startIdx + i + 1}`);
-        if (!isFiniteNumberString(yRaw))
-          throw new Error(`Invalid Y at row ${startIdx + i + 1}: \"${yRaw}\"`);
-        const y = Number(yRaw);
-        if (!Number.isFinite(y))
-          throw new Error(`Non-finite Y at row ${startIdx + i + 1}`);
-        dataPoints.push([d, y]);
+    try {
+      handleDataRow(record);
+    } catch (err) {
+      if (!(err instanceof ParseError) || !err.recoverable) throw err;
+      report({
+        ...err.diagnostics[0],
+        line: record.line,
+        raw: record.raw ?? record.fields.join(delimiter ?? ""),
+      });
+    }
+  };
+
+  // Values are parsed before anything is stored, so a bad row leaves no trace
+  const handleDataRow = ({ fields, line }: DelimitedRecord) => {
+    if (fields.length !== columns) {
+      throw rowProblem(
+        "column-count",
+        `Expected ${columns} column${columns === 1 ? "" : "s"} but found ${fields.length} at line ${line}`
+      );
+    }
+
+    const cells = fields.map((s) => s.trim());
+    const i = xColumn.length;
+
+    // Without an X column X is the row number; otherwise its kind is decided on the
+    // first good row
+    let kind: XKind = "number";
+    let x = rowsTaken + i;
+    if (xSource !== null) {
+      const xRaw = cells[xSource];
+      kind =
+        xKind ??
+        (xFormat === "auto"
+          ? parseIsoToMs(xRaw) !== null
+            ? "date"
+            : "number"
+          : xFormat === "number"
+            ? "number"
+            : "date");
+      x = kind === "date" ? parseDateX(xRaw, line) : parseNumericX(xRaw, line);
+    }
+    const ys = ySources.map((c, k) => parseY(cells[c], line, k, c + 1));
+
+    xKind = kind;
+    xColumn.push(x);
+    ys.forEach((y, k) => seriesColumns[k].push(y));
+    if (ys.some(Number.isNaN)) missingRows.push(i);
+  };
+
+  // Object records get a header of their key paths; arrays and plain values are rows
+  const handleJsonValue = ({ text, line }: JsonValueText) => {
+    const skip = (code: ParseDiagnosticCode, message: string) =>
+      report({ code, severity: "warning", message, line, raw: text });
+
+    let value: unknown;
+    try {
+      value = JSON.parse(text);
+    } catch (err) {
+      const detail = err instanceof Error ? `: ${err.message}` : "";
+      skip("invalid-json", `Invalid JSON at line ${line}${detail}`);
+      return;
+    }
+
+    if (recordCount === 0 && isPlainObject(value)) {
+      // Found keys keep their segments, so a key with dots in its name stays one key
+      const keys = valueKeyPaths(value).map((segments): KeyPath => ({ segments }));
+      const nameOf = (path: KeyPath) => path.literal ?? path.segments.join(".");
+      const x = options.xKeyPath ? optionKeyPath(options.xKeyPath) : keys[0];
+      // By default series are the keys holding numbers (or gaps), as Y columns would
+      const numeric = (path: KeyPath) => {
+        const v = lookupKeyPath(value, path);
+        return (
+          v === null ||
+          typeof v === "number" ||
+          (typeof v === "string" && (isFiniteNumberString(v) || isMissing(v)))
+        );
+      };
+      const ys =
+        options.yKeyPaths && options.yKeyPaths.length > 0
+          ? options.yKeyPaths.map(optionKeyPath)
+          : keys.filter((k) => (x === undefined || nameOf(k) !== nameOf(x)) && numeric(k));
+      const paths = x === undefined ? ys : [x, ...ys];
+      if (paths.length === 0) {
+        skip("record-shape", `Empty JSON record at line ${line}`);
+        return;
       }
+      const names = paths.map(nameOf);
+      // A lone key is Y over the row number, like a single column; but X must stay X
+      if (ys.length === 0 && (options.xKeyPath || Object.keys(value).length > 1)) {
+        throw parseFailure(
+          "record-shape",
+          `No numeric series keys in the JSON record at line ${line}, only X ("${names[0]}")`,
+          line
+        );
+      }
+      keyPaths = paths;
+      handleRecord({ fields: names, line, header: true });
+    }
+
+    const fields = keyPaths
+      ? isPlainObject(value)
+        ? keyPaths.map((path) => jsonCell(lookupKeyPath(value, path)))
+        : null
+      : isPlainObject(value)
+        ? null
+        : Array.isArray(value)
+          ? value.map(jsonCell)
+          : [jsonCell(value)];
+    if (!fields) {
+      skip("record-shape", `Expected ${keyPaths ? "an object" : "an array or a value"} at line ${line}`);
+    } else if (fields.length === 0) {
+      skip("record-shape", `Empty JSON record at line ${line}`);
     } else {
-      for (let i = 0; i < dataRows.length; i++) {
-        const [xRaw, yRaw] = dataRows[i].map((s) => s.trim());
-        if (!isFiniteNumberString(xRaw))
-          throw new Error(`Invalid X at row ${startIdx + i + 1}: \"${xRaw}\"`);
-        if (!isFiniteNumberString(yRaw))
-          throw new Error(`Invalid Y at row ${startIdx + i + 1}: \"${yRaw}\"`);
-        const x = Number(xRaw);
-        const y = Number(yRaw);
-        if (!Number.isFinite(x) || !Number.isFinite(y))
-          throw new Error(`Non-finite number at row ${startIdx + i + 1}`);
-        dataPoints.push([x, y]);
+      handleRecord({ fields, line, raw: text });
+    }
+  };
+
+  // Choose JSON or delimited text (and the delimiter) on the text buffered so far
+  const startInput = (): string => {
+    const layout =
+      format === "json"
+        ? "array"
+        : format === "ndjson"
+          ? "lines"
+          : format === "delimited"
+            ? null
+            : detectJsonLayout(pending);
+    if (layout) jsonScanner = startJsonScanner(layout);
+    else tokenizer = startTokenizer(pending);
+    inputFormat = layout === "array" ? "json" : layout === "lines" ? "ndjson" : "delimited";
+    const text = pending;
+    pending = "";
+    return text;
+  };
+
+  // Whether `pending` holds the whole first record: a line break after a non-blank line,
+  // outside the quoted fields of delimited text (skipped and comment lines are blank here)
+  const firstRecordComplete = (): boolean => {
+    const text = pending.trimStart();
+    const json =
+      format === "json" || format === "ndjson" || (format === "auto" && /^[[{]/.test(text));
+    let quoted = false;
+    for (const ch of text) {
+      if (ch === '"' && !json) quoted = !quoted;
+      else if ((ch === "\n" || ch === "\r") && !quoted) return true;
+    }
+    return false;
+  };
+
+  // Parse filtered text once the input format is chosen
+  const consume = (chunk: string, final: boolean, truncated: boolean) => {
+    if (jsonScanner) {
+      for (const value of jsonScanner.push(chunk)) handleJsonValue(value);
+      if (final) for (const value of jsonScanner.finish(truncated)) handleJsonValue(value);
+      return;
+    }
+    if (!tokenizer) return;
+    for (const record of tokenizer.push(chunk)) handleRecord(record);
+    if (final) for (const record of tokenizer.finish()) handleRecord(record);
+  };
+
+  const feed = (chunk: string, final: boolean, truncated = false) => {
+    if (!bomChecked && chunk.length > 0) {
+      chunk = stripBom(chunk);
+      bomChecked = true;
+    }
+    if (lineFilter) chunk = lineFilter(chunk, final);
+    if (!tokenizer && !jsonScanner) {
+      pending += chunk;
+      if (pending.length < DELIMITER_DETECTION_CHARS && !final) return;
+      chunk = startInput();
+    }
+    consume(chunk, final, truncated);
+  };
+
+  // The rows in the columns (and their problems) as a sequence
+  const currentRows = (): SequenceData => {
+    const data: SequenceData = {
+      timeAxisName,
+      xKind: xKind ?? "number",
+      xValues: xColumn.toArray(),
+      series: seriesNames.map((name, k) => ({
+        name,
+        values: seriesColumns[k].toArray(),
+      })),
+      missingRows,
+    };
+    if (problemCount > 0) data.skippedRows = { count: problemCount, diagnostics };
+    return data;
+  };
+
+  return {
+    push(chunk: string) {
+      feed(chunk, false);
+    },
+    finish({ truncated = false } = {}): SequenceData {
+      feed("", true, truncated);
+      if (problemCount > 0 && !skipInvalidRows) {
+        throw new ParseError(diagnostics, problemCount);
+      }
+      if (rowsTaken + xColumn.length === 0) {
+        const noRows: ParseDiagnostic = {
+          code: "no-data",
+          severity: "error",
+          message:
+            recordCount === 0 ? "No data lines found" : "No data rows after header detection",
+        };
+        // The skipped rows are listed too: they are why nothing is left
+        throw new ParseError([noRows, ...diagnostics], problemCount + 1);
       }
+      return currentRows();
+    },
+    takeRows(): SequenceData {
+      // Text that keeps growing cannot wait for 64 KiB: choose once the first record is in
+      if (!tokenizer && !jsonScanner && firstRecordComplete()) {
+        consume(startInput(), false, false);
+      }
+      const data = currentRows();
+      rowsTaken += xColumn.length;
+      xColumn.clear();
+      for (const column of seriesColumns) column.clear();
+      missingRows = [];
+      diagnostics = [];
+      problemCount = 0;
+      return data;
+    },
+    get rowCount() {
+      return rowsTaken + xColumn.length;
+    },
+    get layout() {
+      if (recordCount === 0) return null;
+      return {
+        format: inputFormat,
+        delimiter: inputFormat === "delimited" ? delimiter : null,
+        hasHeader,
+        columnNames,
+        xColumn: xSource,
+        yColumns: ySources,
+        xKind,
+      };
+    },
+  };
+}
+
+/**
+ * Parse a block of delimited (CSV/TSV), single-column or JSON text into a typed sequence.
+ *
+ * Rules implemented per spec:
+ * - Throw if any numeric field is NaN/Infinity (non-true-number), unless `allowMissing` is set,
+ *   in which case missing Y cells become NaN gaps and their rows are listed in `missingRows`.
+ * - Failures are `ParseError`s listing every bad row (up to `maxDiagnostics`);
+ *   `skipInvalidRows` drops those rows instead.
+ * - Detect header if first row contains non-numeric text (for X: numeric or ISO date counts as data-like; for Y: numeric only).
+ * - Tokenize per RFC 4180: quoted fields, `""` escapes, embedded newlines, leading BOM.
+ * - Detect the delimiter (comma, tab, semicolon or pipe) on the first 64 KiB; throw when a
+ *   later row mixes in another one.
+ * - Accept decimal commas when the delimiter is not a comma (auto-detected or via options);
+ *   only detected, a value such as "1,234" that may group thousands is a bad row instead.
+ * - `skipLines`, `commentPrefix`, `delimiter`, `header`, `xColumn` and `yColumns` override
+ *   the guesses; `layout` of the streaming parser reports what was used.
+ * - Allow either:
+ *    • one column (Y only) → X is implicit index starting at 0
+ *    • two or more columns (X, Y1, Y2, ...) → one series per Y column
+ * - JSON input (told apart from delimited text on the first 64 KiB) is an array, or
+ *   newline-delimited records, of numbers, of [x, y, ...] arrays or of objects, read
+ *   through `xKeyPath`/`yKeyPaths` (default: first key is X, the other keys holding
+ *   numbers, numeric strings or null are series);
+ *   the records then follow the same rules as delimited rows.
+ * - If the first data row's X is an ISO date/datetime, X is a date column of epoch
+ *   milliseconds (UTC unless an offset is given) and every later X must be a valid ISO date.
+ *   `xFormat` can instead force numbers, Unix timestamps or a custom format, and
+ *   `sourceTimeZone` sets the zone of timestamps that carry no offset.
+ */
+export default function parseDataText(
+  text: string,
+  options: ParseOptions = {}
+): SequenceData {
+  if (typeof text !== "string") throw new Error("Input must be a string");
+  const parser = createSequenceParser(options);
+  parser.push(text);
+  return parser.finish();
+}
+
+/** Converts single X/Y cells typed into the table; both throw `ParseError` when invalid. */
+export type CellReader = {
+  readX(text: string): number;
+  readY(text: string): number;
+};
+
+/**
+ * Cell-by-cell version of the parser's rules for `options`, for edited values: numbers,
+ * `allowMissing` gaps and the X format of `xKind`. Decimal commas are read where the parser
+ * read them in the file's `layout` (null when unknown: only when asked for); a comma that
+ * may be a thousands separator is rejected rather than guessed. Dates may always be typed
+ * as ISO text; times without an offset are wall-clock times in `timeZone` (the zone the
+ * table shows).
+ */
+export function createCellReader(
+  options: ParseOptions,
+  xKind: XKind,
+  layout: Pick<InputLayout, "format" | "delimiter"> | null,
+  timeZone: string = options.sourceTimeZone || UTC
+): CellReader {
+  const allowMissing = options.allowMissing ?? false;
+  const requestedDecimal = options.decimalSeparator ?? "auto";
+  const decimalComma =
+    requestedDecimal === "," ||
+    (requestedDecimal === "auto" && layout?.format === "delimited" && layout.delimiter !== ",");
+  const xFormat = options.xFormat ?? "auto";
+  const parsePattern =
+    xFormat === "pattern" && options.xPattern ? compileTimestampPattern(options.xPattern) : null;
+  const partsToMs = createZonedTimeConverter(timeZone);
+
+  const readNumber = (text: string, label: string): number => {
+    // "1,000" is one thousand or one: with the separator only detected, do not guess
+    const ambiguous =
+      decimalComma &&
+      (text.indexOf(",") !== text.lastIndexOf(",") ||
+        (requestedDecimal === "auto" && THOUSANDS_COMMA_RE.test(text)));
+    const t = decimalComma ? text.replace(",", ".") : text;
+    const n = !ambiguous && NUM_RE.test(t) ? Number(t) : NaN;
+    if (!Number.isFinite(n)) {
+      const hint = ambiguous ? AMBIGUOUS_COMMA_HINT : "";
+      throw parseFailure(
+        label === "X" ? "invalid-x" : "invalid-y",
+        `Invalid ${label}: "${text}"${hint}`
+      );
     }
-  }
+    return n;
+  };
 
-  // Freeze/readonly semantics at runtime (TS already enforces at type level for consumers)
-  const result: SequenceData<T> = {
-    timeAxisName,
-    valueAxisName,
-    dataPoints: Object.freeze(dataPoints.slice()) as Readonly<
-      Array<[T, number]>
-    >,
+  const readDate = (text: string): number => {
+    if (xFormat === "epochSeconds" && NUM_RE.test(text)) return readNumber(text, "X") * 1000;
+    if (xFormat === "epochMillis" && NUM_RE.test(text)) return readNumber(text, "X");
+    const parts = parseIsoParts(text) ?? parsePattern?.(text) ?? null;
+    const ts = parts ? partsToMs(parts) : NaN;
+    if (Number.isNaN(ts)) {
+      const expected = parsePattern ? `ISO or ${options.xPattern}` : "ISO";
+      throw parseFailure("invalid-date", `Invalid timestamp: "${text}" (expected ${expected})`);
+    }
+    return ts;
   };
 
-  return result;
+  return {
+    readX(text) {
+      const t = text.trim();
+      return xKind === "date" ? readDate(t) : readNumber(t, "X");
+    },
+    readY(text) {
+      const t = text.trim();
+      if (allowMissing && MISSING_RE.test(t)) return NaN;
+      return readNumber(t, "Y");
+    },
+  };
 }
@@ -0,0 +1,72 @@
+/** Machine-readable kind of a parse problem. */
+export type ParseDiagnosticCode =
+  // Problems confined to one row; the row can be skipped
+  | "invalid-x"
+  | "non-finite-x"
+  | "invalid-date"
+  | "invalid-y"
+  | "non-finite-y"
+  | "column-count"
+  | "invalid-json"
+  | "record-shape"
+  // Problems with the file or the options as a whole ("invalid-json" too, as an error)
+  | "mixed-delimiters"
+  | "unterminated-quote"
+  | "unexpected-character"
+  | "invalid-binary"
+  | "no-data"
+  | "invalid-option";
+
+/**
+ * "warning": the row is bad but the rest of the file can still be read without it;
+ * "error": the file cannot be parsed with these options.
+ */
+export type ParseSeverity = "error" | "warning";
+
+export type ParseDiagnostic = {
+  code: ParseDiagnosticCode;
+  severity: ParseSeverity;
+  message: string;
+  /** 1-based source line, when the problem has one. */
+  line?: number;
+  /** 1-based field (column) within the record. */
+  column?: number;
+  /** Source text of the record, fields joined by the delimiter. */
+  raw?: string;
+};
+
+/**
+ * Parse failure carrying every problem found (up to the parser's `maxDiagnostics`).
+ * `message` summarizes the first one, so callers that only show a message still work.
+ */
+export class ParseError extends Error {
+  readonly diagnostics: ParseDiagnostic[];
+  /** Problems found in total, including those beyond `diagnostics.length`. */
+  readonly totalCount: number;
+
+  constructor(diagnostics: ParseDiagnostic[], totalCount = diagnostics.length) {
+    const [first] = diagnostics;
+    const more = totalCount - 1;
+    super(
+      (first?.message ?? "Error parsing data") +
+        (more > 0 ? ` (and ${more} more problem${more === 1 ? "" : "s"})` : "")
+    );
+    this.name = "ParseError";
+    this.diagnostics = diagnostics;
+    this.totalCount = totalCount;
+  }
+
+  /** True when every problem is a skippable row, so parsing can go on without them. */
+  get recoverable(): boolean {
+    return this.diagnostics.every((d) => d.severity === "warning");
+  }
+}
+
+/** A `ParseError` for a single problem that stops the parse. */
+export function parseFailure(
+  code: ParseDiagnosticCode,
+  message: string,
+  line?: number
+): ParseError {
+  return new ParseError([{ code, severity: "error", message, line }]);
+}
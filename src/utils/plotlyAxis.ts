@@ -0,0 +1,77 @@
+export type AxisRange = [number, number];
+
+/**
+ * Plotly reports date-axis ranges as strings like "2024-01-01 12:00:00.5" (UTC);
+ * numeric axes report numbers. Both become plain numbers (epoch ms for dates).
+ */
+export function axisValueToNumber(v: unknown): number {
+  if (typeof v === "number") return v;
+  if (typeof v === "string") {
+    const iso = v.includes(" ") ? v.replace(" ", "T") : v.length <= 10 ? `${v}T00:00` : v;
+    const ms = Date.parse(`${iso}Z`);
+    return Number.isNaN(ms) ? Number(v) : ms;
+  }
+  return NaN;
+}
+
+/**
+ * Extract the new range of `axis` ("xaxis", "yaxis2", ...) from a `plotly_relayout` event.
+ * Returns `null` when the axis went back to autorange, `undefined` when it did not change.
+ */
+export function readRelayoutRange(
+  event: Readonly<Record<string, unknown>>,
+  axis = "xaxis"
+): AxisRange | null | undefined {
+  if (event[`${axis}.autorange`] === true) return null;
+  const whole = event[`${axis}.range`];
+  if (Array.isArray(whole) && whole.length === 2) {
+    return [axisValueToNumber(whole[0]), axisValueToNumber(whole[1])];
+  }
+  const r0 = event[`${axis}.range[0]`];
+  const r1 = event[`${axis}.range[1]`];
+  if (r0 !== undefined && r1 !== undefined) {
+    return [axisValueToNumber(r0), axisValueToNumber(r1)];
+  }
+  return undefined;
+}
+
+/** First index `i` with `xs[i] >= x` in an ascending array. */
+export function lowerBound(xs: Float64Array, x: number): number {
+  let lo = 0;
+  let hi = xs.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (xs[mid] < x) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** First index `i` with `xs[i] > x` in an ascending array. */
+export function upperBound(xs: Float64Array, x: number): number {
+  let lo = 0;
+  let hi = xs.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (xs[mid] <= x) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** True when `xs` never decreases, so index ranges can be found by binary search. */
+export function isAscending(xs: Float64Array): boolean {
+  for (let i = 1; i < xs.length; i++) {
+    if (xs[i] < xs[i - 1]) return false;
+  }
+  return true;
+}
+
+/**
+ * Plotly `uirevision` of the chart: zoom, hidden legend entries, drag mode and drawn
+ * selections survive re-renders until another sequence is loaded (`loadRevision`) or the
+ * series layout changes. Edits and appended rows keep it, though they replace the data.
+ */
+export function chartUiRevision(loadRevision: number, layoutMode: string): string {
+  return `keep-${loadRevision}-${layoutMode}`;
+}
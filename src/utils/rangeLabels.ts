@@ -0,0 +1,219 @@
+import { parseXInput } from "./alignDatasets";
+import { formatExportX, quoteField } from "./exportSequence";
+import type { XKind } from "./parseDataText";
+import { lowerBound } from "./plotlyAxis";
+import tokenizeDelimitedText, { detectDelimiter, stripBom } from "./tokenizeDelimitedText";
+
+/** A class that ranges can be labeled with. */
+export type LabelClass = {
+  id: string;
+  name: string;
+  /** CSS color of its ranges */
+  color: string;
+};
+
+/** An X range labeled with one class; `x0 <= x1`, epoch ms on date axes. */
+export type RangeLabel = {
+  id: string;
+  classId: string;
+  x0: number;
+  x1: number;
+};
+
+/** Colors handed to new classes in turn */
+export const labelPalette = [
+  "#1f77b4",
+  "#2ca02c",
+  "#d62728",
+  "#9467bd",
+  "#ff7f0e",
+  "#17becf",
+  "#e377c2",
+  "#8c564b",
+];
+
+const classesKey = "labelClasses";
+const storageKey = (fileName: string) => `labels:${fileName}`;
+
+/** A class called `name` with the first palette color the others do not use yet. */
+export function newLabelClass(name: string, classes: readonly LabelClass[]): LabelClass {
+  const used = new Set(classes.map((c) => c.color));
+  const color =
+    labelPalette.find((c) => !used.has(c)) ?? labelPalette[classes.length % labelPalette.length];
+  return { id: crypto.randomUUID(), name, color };
+}
+
+/** The sample X closest to `x`; `x` itself when there are no samples. */
+export function nearestSampleX(xs: Float64Array, ascending: boolean, x: number): number {
+  if (xs.length === 0) return x;
+  if (ascending) {
+    const i = lowerBound(xs, x);
+    if (i >= xs.length) return xs[xs.length - 1];
+    if (i === 0) return xs[0];
+    return x - xs[i - 1] <= xs[i] - x ? xs[i - 1] : xs[i];
+  }
+  let best = xs[0];
+  for (const v of xs) if (Math.abs(v - x) < Math.abs(best - x)) best = v;
+  return best;
+}
+
+/** `label` with both ends moved onto the nearest samples. */
+export function snapLabel(label: RangeLabel, xs: Float64Array, ascending: boolean): RangeLabel {
+  return {
+    ...label,
+    x0: nearestSampleX(xs, ascending, label.x0),
+    x1: nearestSampleX(xs, ascending, label.x1),
+  };
+}
+
+/** The label containing `x` (the narrowest, when they overlap), or null. */
+export function labelAt(labels: readonly RangeLabel[], x: number): RangeLabel | null {
+  let found: RangeLabel | null = null;
+  for (const l of labels) {
+    if (x >= l.x0 && x <= l.x1 && (!found || l.x1 - l.x0 < found.x1 - found.x0)) found = l;
+  }
+  return found;
+}
+
+/** Classes saved for every file, or none. */
+export function loadLabelClasses(): LabelClass[] {
+  try {
+    const raw = localStorage.getItem(classesKey);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as LabelClass[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveLabelClasses(classes: readonly LabelClass[]) {
+  try {
+    localStorage.setItem(classesKey, JSON.stringify(classes));
+  } catch (err) {
+    console.warn("Could not save label classes", err);
+  }
+}
+
+/** Labels saved for `fileName`, or none. */
+export function loadLabels(fileName: string): RangeLabel[] {
+  try {
+    const raw = localStorage.getItem(storageKey(fileName));
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as RangeLabel[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveLabels(fileName: string, labels: readonly RangeLabel[]) {
+  try {
+    if (labels.length === 0) localStorage.removeItem(storageKey(fileName));
+    else localStorage.setItem(storageKey(fileName), JSON.stringify(labels));
+  } catch (err) {
+    // Storage full or disabled: labels still work for this session
+    console.warn("Could not save labels", err);
+  }
+}
+
+/**
+ * Labels as CSV (`label,start,end`, ordered by start) or JSON (`classes` with their colors
+ * plus `labels`). Start and end are X values of the source file, ISO-8601 for dates.
+ */
+export function exportLabels(
+  labels: readonly RangeLabel[],
+  classes: readonly LabelClass[],
+  xKind: XKind,
+  format: "csv" | "json"
+): string {
+  const names = new Map(classes.map((c) => [c.id, c.name]));
+  const sorted = [...labels].sort((a, b) => a.x0 - b.x0 || a.x1 - b.x1);
+  // Written like sequence exports: ISO-8601 on date axes, so they match the source timestamps
+  const xText = (v: number) => formatExportX({ xKind }, v);
+  const x = (v: number) => (xKind === "date" ? xText(v) : v);
+  if (format === "json") {
+    return JSON.stringify(
+      {
+        classes: classes.map((c) => ({ name: c.name, color: c.color })),
+        labels: sorted.map((l) => ({
+          label: names.get(l.classId) ?? "",
+          start: x(l.x0),
+          end: x(l.x1),
+        })),
+      },
+      null,
+      2
+    );
+  }
+  const lines = sorted.map((l) =>
+    [quoteField(names.get(l.classId) ?? ""), xText(l.x0), xText(l.x1)].join(",")
+  );
+  return ["label,start,end", ...lines].join("\n");
+}
+
+/**
+ * Read labels written by `exportLabels` (or by hand in the same shape). Classes are matched
+ * by name; unknown names become new classes. Throws an Error naming the first bad entry.
+ */
+export function importLabels(
+  text: string,
+  xKind: XKind,
+  classes: readonly LabelClass[]
+): { labels: RangeLabel[]; classes: LabelClass[] } {
+  const source = stripBom(text).trim();
+  let entries: { label: unknown; start: unknown; end: unknown; color?: unknown }[];
+  const colors = new Map<string, string>();
+  if (source.startsWith("{") || source.startsWith("[")) {
+    const parsed: unknown = JSON.parse(source);
+    const root = parsed as { classes?: unknown; labels?: unknown };
+    const list = Array.isArray(parsed) ? parsed : root.labels;
+    if (!Array.isArray(list)) throw new Error("Expected a list of labels");
+    if (Array.isArray(root.classes)) {
+      for (const c of root.classes as { name?: unknown; color?: unknown }[]) {
+        if (typeof c?.name === "string" && typeof c.color === "string") {
+          colors.set(c.name, c.color);
+        }
+      }
+    }
+    entries = list;
+  } else {
+    const [header, ...rows] = tokenizeDelimitedText(source, detectDelimiter(source) ?? ",");
+    const columns = header?.fields.map((f) => f.trim().toLowerCase()) ?? [];
+    const at = (name: string) => columns.indexOf(name);
+    if (at("label") < 0 || at("start") < 0 || at("end") < 0) {
+      throw new Error('Expected the columns "label", "start" and "end"');
+    }
+    entries = rows
+      .filter((r) => r.fields.some((f) => f.trim() !== ""))
+      .map((r) => ({
+        label: r.fields[at("label")],
+        start: r.fields[at("start")],
+        end: r.fields[at("end")],
+      }));
+  }
+
+  const nextClasses = [...classes];
+  const labels = entries.map((entry, i): RangeLabel => {
+    const name = String(entry?.label ?? "").trim();
+    const read = (v: unknown) =>
+      typeof v === "number" && xKind === "number" ? v : parseXInput(String(v ?? ""), xKind);
+    const x0 = read(entry?.start);
+    const x1 = read(entry?.end);
+    if (!name || !Number.isFinite(x0) || !Number.isFinite(x1)) {
+      throw new Error(`Label ${i + 1} needs a name, a start and an end`);
+    }
+    let cls = nextClasses.find((c) => c.name === name);
+    if (!cls) {
+      cls = newLabelClass(name, nextClasses);
+      const color = colors.get(name);
+      if (color) cls.color = color;
+      nextClasses.push(cls);
+    }
+    return {
+      id: crypto.randomUUID(),
+      classId: cls.id,
+      x0: Math.min(x0, x1),
+      x1: Math.max(x0, x1),
+    };
+  });
+  return { labels, classes: nextClasses };
+}
@@ -0,0 +1,52 @@
+import { stripBom } from "./tokenizeDelimitedText";
+
+/**
+ * Text of the given 1-based lines of `file`, each with `context` lines around it, for
+ * showing parse problems in place. Line breaks are counted the way the tokenizer counts
+ * them (CRLF, CR or LF); the file is streamed and reading stops after the last line needed.
+ */
+export default async function readSourceLines(
+  file: Blob,
+  lines: number[],
+  context = 2
+): Promise<Map<number, string>> {
+  const wanted = new Set<number>();
+  for (const line of lines) {
+    for (let l = Math.max(1, line - context); l <= line + context; l++) wanted.add(l);
+  }
+  const out = new Map<number, string>();
+  if (wanted.size === 0) return out;
+  const last = Math.max(...wanted);
+
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder("utf-8");
+  let line = 1;
+  let carry = "";
+  let first = true;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      carry += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      if (first && carry.length > 0) {
+        carry = stripBom(carry);
+        first = false;
+      }
+      // A trailing CR may be the first half of a CRLF split across chunks
+      const cut = !done && carry.endsWith("\r") ? carry.length - 1 : carry.length;
+      const parts = carry.slice(0, cut).split(/\r\n|\r|\n/);
+      carry = parts.pop() + carry.slice(cut);
+      for (const text of parts) {
+        if (wanted.has(line)) out.set(line, text);
+        line++;
+      }
+      if (done) {
+        if (carry !== "" && wanted.has(line)) out.set(line, carry);
+        break;
+      }
+      if (line > last) break;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return out;
+}
@@ -0,0 +1,179 @@
+import { parseFailure } from "./parseDiagnostics";
+
+/**
+ * How JSON input is laid out:
+ * - "array": one JSON array whose elements are the records;
+ * - "lines": newline-delimited JSON (NDJSON / JSON Lines), one record per line.
+ */
+export type JsonLayout = "array" | "lines";
+
+/** Source text of one record, still to be passed to `JSON.parse`. */
+export type JsonValueText = {
+  text: string;
+  /** 1-based source line on which the value starts. */
+  line: number;
+};
+
+export type JsonValueScanner = {
+  /** Feed the next chunk of text; returns the values completed by it. */
+  push(chunk: string): JsonValueText[];
+  /**
+   * Flush the trailing value (if any) once the input is exhausted. With `truncated` the
+   * input was cut short: an unclosed array is fine and its unfinished element is dropped.
+   */
+  finish(truncated?: boolean): JsonValueText[];
+};
+
+/**
+ * Incremental splitter of JSON input into record values, so a large array never has to
+ * be parsed (or held) as a whole. It only tracks strings and bracket depth: each value is
+ * validated by `JSON.parse` later, which lets one malformed record be skipped on its own.
+ * Text around the array, or an array that is never closed, throws.
+ */
+export function createJsonValueScanner(layout: JsonLayout): JsonValueScanner {
+  let values: JsonValueText[] = [];
+  let value = "";
+  let valueLine = 1;
+  let line = 1;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // Array layout: whether the outer "[" has been seen / closed
+  let opened = false;
+  let closed = false;
+  // Record depth: elements of the outer array, or top-level values on their own lines
+  const recordDepth = layout === "array" ? 1 : 0;
+
+  const flush = () => {
+    const text = value.trim();
+    if (text !== "") values.push({ text, line: valueLine });
+    value = "";
+  };
+  const append = (ch: string) => {
+    if (value.trim() === "") valueLine = line;
+    value += ch;
+  };
+  const outside = (ch: string): never => {
+    throw parseFailure(
+      "invalid-json",
+      `Unexpected "${ch}" outside of the JSON array at line ${line}`,
+      line
+    );
+  };
+
+  const step = (ch: string) => {
+    if (ch === "\n") line++;
+    if (inString) {
+      value += ch;
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+      return;
+    }
+    if (layout === "array" && (!opened || closed)) {
+      if (ch.trim() === "") return;
+      if (ch !== "[" || closed) outside(ch);
+      opened = true;
+      depth = 1;
+      return;
+    }
+    switch (ch) {
+      case '"':
+        inString = true;
+        append(ch);
+        break;
+      case "[":
+      case "{":
+        depth++;
+        append(ch);
+        break;
+      case "]":
+      case "}":
+        if (depth === recordDepth) {
+          // "]" closing the outer array; a stray closer elsewhere is left to JSON.parse
+          if (layout === "array") {
+            flush();
+            closed = true;
+            depth = 0;
+            break;
+          }
+        } else {
+          depth--;
+        }
+        append(ch);
+        if (layout === "lines" && depth === 0) flush();
+        break;
+      case ",":
+        if (layout === "array" && depth === recordDepth) {
+          flush();
+        } else {
+          append(ch);
+        }
+        break;
+      case "\n":
+      case "\r":
+        if (layout === "lines" && depth === 0) flush();
+        else value += ch;
+        break;
+      default:
+        append(ch);
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      for (let i = 0; i < chunk.length; i++) step(chunk[i]);
+      const out = values;
+      values = [];
+      return out;
+    },
+    finish(truncated = false) {
+      if (layout === "array") {
+        if (!opened) throw parseFailure("no-data", "No JSON array found");
+        if (!closed && !truncated) {
+          throw parseFailure("invalid-json", "The JSON array is not closed", line);
+        }
+      } else {
+        flush();
+      }
+      const out = values;
+      values = [];
+      return out;
+    },
+  };
+}
+
+// Whether `text` is one complete JSON value
+const isJsonValue = (text: string): boolean => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Layout of `prefix` when it is JSON, else `null` (delimited text). Input starting with
+ * "{" is JSON Lines; input starting with "[" is one array, unless something follows the
+ * first value, as in JSON Lines of arrays. Either way the first value must parse, so a
+ * delimited header such as "[s],value" stays delimited text.
+ */
+export function detectJsonLayout(prefix: string): JsonLayout | null {
+  const start = prefix.trimStart();
+  if (!start.startsWith("{") && !start.startsWith("[")) return null;
+  const [first] = createJsonValueScanner("lines").push(start);
+  if (first) {
+    if (!isJsonValue(first.text)) return null;
+    if (start.startsWith("{")) return "lines";
+    return start.slice(first.text.length).trim() !== "" ? "lines" : "array";
+  }
+  if (start.startsWith("{")) return "lines";
+  // An array longer than the prefix: its first element has to parse instead
+  try {
+    const [element] = createJsonValueScanner("array").push(start);
+    return !element || isJsonValue(element.text) ? "array" : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,175 @@
+import type { ParseOptions, SequenceData } from "./parseDataText";
+import type { AxisRange } from "./plotlyAxis";
+
+/** Chart and table state restored along with a sequence. */
+export type SessionView = {
+  xRange: AxisRange | null;
+  /** Manual Y ranges keyed by layout axis ("yaxis", "yaxis2", ...) */
+  yRanges: Record<string, AxisRange>;
+  /** First data row visible in the table */
+  tableTopRow: number;
+};
+
+/** What the recent-files list needs, without loading the sequence itself. */
+export type SessionSummary = {
+  fileName: string;
+  /** Approximate size of the stored sequence */
+  bytes: number;
+  rows: number;
+  seriesCount: number;
+  /** Epoch ms of the last load or reopen; eviction drops the oldest first */
+  openedAt: number;
+  parseOptions: ParseOptions;
+  view: SessionView;
+};
+
+const DB_NAME = "1dseq";
+const DB_VERSION = 1;
+const SUMMARIES = "sessions";
+const SEQUENCES = "sequences";
+
+/** Stored sequences beyond this many bytes evict the least recently opened ones. */
+export const SESSION_BUDGET_BYTES = 256 * 1024 * 1024;
+
+export const emptyView: SessionView = { xRange: null, yRanges: {}, tableTopRow: 0 };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      // Summaries and sequences are kept apart so listing never reads the bulk data
+      db.createObjectStore(SUMMARIES, { keyPath: "fileName" });
+      db.createObjectStore(SEQUENCES);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+function requestResult<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
+
+/** Bytes held by the typed arrays of `data`. */
+export function sequenceBytes(data: SequenceData): number {
+  return data.series.reduce((sum, s) => sum + s.values.byteLength, data.xValues.byteLength);
+}
+
+/** Recent sessions, most recently opened first. */
+export async function listSessions(): Promise<SessionSummary[]> {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARIES, "readonly");
+  const all = await requestResult(
+    tx.objectStore(SUMMARIES).getAll() as IDBRequest<SessionSummary[]>
+  );
+  return all.sort((a, b) => b.openedAt - a.openedAt);
+}
+
+/**
+ * Store `data` as the session for `fileName` (replacing any earlier one), then evict the
+ * least recently opened sessions until the total fits `SESSION_BUDGET_BYTES`.
+ */
+export async function saveSession(
+  fileName: string,
+  data: SequenceData,
+  parseOptions: ParseOptions
+): Promise<void> {
+  const summary: SessionSummary = {
+    fileName,
+    bytes: sequenceBytes(data),
+    rows: data.xValues.length,
+    seriesCount: data.series.length,
+    openedAt: Date.now(),
+    parseOptions,
+    view: emptyView,
+  };
+  const db = await openDb();
+  const tx = db.transaction([SUMMARIES, SEQUENCES], "readwrite");
+  tx.objectStore(SUMMARIES).put(summary);
+  tx.objectStore(SEQUENCES).put(data, fileName);
+  await transactionDone(tx);
+  await evictSessions(SESSION_BUDGET_BYTES, fileName);
+}
+
+/** The stored sequence and summary for `fileName`, marking it as just opened. */
+export async function openSession(
+  fileName: string
+): Promise<{ summary: SessionSummary; data: SequenceData } | null> {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARIES, SEQUENCES], "readwrite");
+  const summaries = tx.objectStore(SUMMARIES);
+  const [summary, data] = await Promise.all([
+    requestResult(summaries.get(fileName) as IDBRequest<SessionSummary | undefined>),
+    requestResult(
+      tx.objectStore(SEQUENCES).get(fileName) as IDBRequest<SequenceData | undefined>
+    ),
+  ]);
+  if (!summary || !data) return null;
+  summary.openedAt = Date.now();
+  summaries.put(summary);
+  await transactionDone(tx);
+  return { summary, data };
+}
+
+/** Update the saved chart/table view of `fileName`; a no-op if it was evicted meanwhile. */
+export async function saveSessionView(fileName: string, view: SessionView): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SUMMARIES, "readwrite");
+  const store = tx.objectStore(SUMMARIES);
+  const summary = await requestResult(
+    store.get(fileName) as IDBRequest<SessionSummary | undefined>
+  );
+  if (summary) store.put({ ...summary, view });
+  await transactionDone(tx);
+}
+
+export async function deleteSession(fileName: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([SUMMARIES, SEQUENCES], "readwrite");
+  tx.objectStore(SUMMARIES).delete(fileName);
+  tx.objectStore(SEQUENCES).delete(fileName);
+  await transactionDone(tx);
+}
+
+/**
+ * Delete the least recently opened sessions until the stored total is at most
+ * `budgetBytes`. `keep` (the session just saved) is never evicted. Returns the evicted names.
+ */
+export async function evictSessions(budgetBytes: number, keep?: string): Promise<string[]> {
+  const sessions = await listSessions();
+  let total = sessions.reduce((sum, s) => sum + s.bytes, 0);
+  const evicted: string[] = [];
+  for (const s of sessions.slice().reverse()) {
+    if (total <= budgetBytes) break;
+    if (s.fileName === keep) continue;
+    await deleteSession(s.fileName);
+    total -= s.bytes;
+    evicted.push(s.fileName);
+  }
+  return evicted;
+}
+
+/** Origin-wide storage usage and quota as reported by the browser, when available. */
+export async function storageEstimate(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
@@ -0,0 +1,258 @@
+export type WindowKind = "hann" | "hamming" | "none";
+
+/** A uniformly sampled signal ready for FFT analysis. */
+export type UniformSignal = {
+  values: Float64Array;
+  /** X of the first sample, in the sequence's X units (epoch ms on date axes) */
+  x0: number;
+  /** Sample interval in X units */
+  dx: number;
+  /** Samples per second on date axes, samples per X unit otherwise */
+  sampleRate: number;
+  /** True when the input was unevenly sampled (or had gaps) and was interpolated */
+  resampled: boolean;
+  /** True when the resampling grid had to be coarser than the median interval */
+  coarsened: boolean;
+};
+
+export type Spectrum = {
+  frequencies: Float64Array;
+  /** Single-sided amplitude (or power, when requested) per frequency bin */
+  values: Float64Array;
+  /** Number of averaged segments (1 = a single periodogram) */
+  segments: number;
+  segmentLength: number;
+};
+
+export type Spectrogram = {
+  /** X at the center of each column, in the sequence's X units */
+  times: number[];
+  frequencies: number[];
+  /** `z[f][t]`, in dB */
+  z: number[][];
+};
+
+/** Relative deviation from the median interval above which sampling counts as uneven. */
+const UNEVEN_TOLERANCE = 0.01;
+
+/** Resampling grids longer than this are coarsened (a long gap in finely sampled data). */
+const MAX_RESAMPLE_POINTS = 1 << 22;
+
+/** Inputs longer than this are analysed as an average over segments of this length. */
+const MAX_FFT_SIZE = 1 << 16;
+
+const MAX_SPECTROGRAM_COLUMNS = 400;
+
+function nextPow2(n: number): number {
+  let p = 1;
+  while (p < n) p <<= 1;
+  return p;
+}
+
+/** In-place iterative radix-2 FFT; the length must be a power of two. */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wr = Math.cos(angle);
+    const wi = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let cr = 1;
+      let ci = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tr = re[b] * cr - im[b] * ci;
+        const ti = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+        const t = cr * wr - ci * wi;
+        ci = cr * wi + ci * wr;
+        cr = t;
+      }
+    }
+  }
+}
+
+export function windowCoefficients(kind: WindowKind, n: number): Float64Array {
+  const w = new Float64Array(n);
+  const d = Math.max(1, n - 1);
+  for (let i = 0; i < n; i++) {
+    w[i] =
+      kind === "hann"
+        ? 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / d)
+        : kind === "hamming"
+          ? 0.54 - 0.46 * Math.cos((2 * Math.PI * i) / d)
+          : 1;
+  }
+  return w;
+}
+
+/**
+ * Rows `[start, end)` of an ascending X column as a uniform signal. Evenly spaced input
+ * without gaps is used as is; otherwise it is linearly interpolated onto a grid at the
+ * median sample interval, widened when that grid would exceed `MAX_RESAMPLE_POINTS`.
+ * Returns `null` when fewer than two usable samples remain.
+ */
+export function toUniformSignal(
+  xs: Float64Array,
+  ys: Float64Array,
+  start: number,
+  end: number,
+  xIsDate: boolean
+): UniformSignal | null {
+  const rows: number[] = [];
+  for (let i = start; i < end; i++) if (!Number.isNaN(ys[i])) rows.push(i);
+  if (rows.length < 2) return null;
+
+  const intervals = new Float64Array(rows.length - 1);
+  for (let k = 1; k < rows.length; k++) intervals[k - 1] = xs[rows[k]] - xs[rows[k - 1]];
+  const dx = intervals.slice().sort()[intervals.length >> 1];
+  if (!(dx > 0)) return null;
+
+  const toRate = (interval: number) => (xIsDate ? 1000 : 1) / interval;
+  const uneven =
+    rows.length !== end - start ||
+    intervals.some((d) => Math.abs(d - dx) > UNEVEN_TOLERANCE * dx);
+  const x0 = xs[rows[0]];
+  if (!uneven) {
+    return {
+      values: ys.slice(start, end),
+      x0,
+      dx,
+      sampleRate: toRate(dx),
+      resampled: false,
+      coarsened: false,
+    };
+  }
+
+  const span = xs[rows[rows.length - 1]] - x0;
+  const gridDx = Math.max(dx, span / (MAX_RESAMPLE_POINTS - 1));
+  const n = Math.floor(span / gridDx) + 1;
+  const values = new Float64Array(n);
+  let k = 0;
+  for (let i = 0; i < n; i++) {
+    const x = x0 + i * gridDx;
+    while (k < rows.length - 2 && xs[rows[k + 1]] < x) k++;
+    const xa = xs[rows[k]];
+    const xb = xs[rows[k + 1]];
+    const t = xb > xa ? Math.min(1, Math.max(0, (x - xa) / (xb - xa))) : 0;
+    values[i] = ys[rows[k]] + t * (ys[rows[k + 1]] - ys[rows[k]]);
+  }
+  return {
+    values,
+    x0,
+    dx: gridDx,
+    sampleRate: toRate(gridDx),
+    resampled: true,
+    coarsened: gridDx > dx,
+  };
+}
+
+// Single-sided amplitude spectrum of one windowed segment, added into `acc`
+function accumulateSegment(
+  values: Float64Array,
+  offset: number,
+  length: number,
+  window: Float64Array,
+  removeMean: boolean,
+  power: boolean,
+  acc: Float64Array
+) {
+  const size = nextPow2(length);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  let mean = 0;
+  if (removeMean) {
+    for (let i = 0; i < length; i++) mean += values[offset + i];
+    mean /= length;
+  }
+  let gain = 0;
+  for (let i = 0; i < length; i++) {
+    re[i] = (values[offset + i] - mean) * window[i];
+    gain += window[i];
+  }
+  fft(re, im);
+  for (let k = 0; k < acc.length; k++) {
+    // Double every bin but DC and Nyquist to fold in the negative frequencies
+    const scale = (k === 0 || k === size / 2 ? 1 : 2) / gain;
+    const amplitude = Math.hypot(re[k], im[k]) * scale;
+    acc[k] += power ? amplitude * amplitude : amplitude;
+  }
+}
+
+/**
+ * Amplitude (or power) spectrum of `signal`. Up to `MAX_FFT_SIZE` samples this is a single
+ * zero-padded periodogram; longer signals are averaged over half-overlapping segments
+ * (Welch's method).
+ */
+export function computeSpectrum(
+  signal: UniformSignal,
+  windowKind: WindowKind,
+  { power = false, removeMean = true }: { power?: boolean; removeMean?: boolean } = {}
+): Spectrum {
+  const n = signal.values.length;
+  const segmentLength = Math.min(n, MAX_FFT_SIZE);
+  const hop = segmentLength >> 1 || 1;
+  const size = nextPow2(segmentLength);
+  const window = windowCoefficients(windowKind, segmentLength);
+  const values = new Float64Array(size / 2 + 1);
+  let segments = 0;
+  for (let offset = 0; offset + segmentLength <= n; offset += hop) {
+    accumulateSegment(signal.values, offset, segmentLength, window, removeMean, power, values);
+    segments++;
+  }
+  for (let k = 0; k < values.length; k++) values[k] /= segments;
+  const frequencies = Float64Array.from(
+    { length: values.length },
+    (_, k) => (k * signal.sampleRate) / size
+  );
+  return { frequencies, values, segments, segmentLength };
+}
+
+/** Short-time spectrum in dB over segments of `segmentLength` samples. */
+export function computeSpectrogram(
+  signal: UniformSignal,
+  windowKind: WindowKind,
+  segmentLength: number
+): Spectrogram | null {
+  const n = signal.values.length;
+  if (n < segmentLength) return null;
+  // Half-overlapping segments, spread out further when there would be too many columns
+  const hop = Math.max(
+    segmentLength >> 1,
+    Math.ceil((n - segmentLength) / (MAX_SPECTROGRAM_COLUMNS - 1))
+  );
+  const window = windowCoefficients(windowKind, segmentLength);
+  const bins = segmentLength / 2 + 1;
+  const z: number[][] = Array.from({ length: bins }, () => []);
+  const times: number[] = [];
+  const column = new Float64Array(bins);
+  for (let offset = 0; offset + segmentLength <= n; offset += hop) {
+    column.fill(0);
+    accumulateSegment(signal.values, offset, segmentLength, window, true, false, column);
+    for (let k = 0; k < bins; k++) z[k].push(toDecibels(column[k], false));
+    times.push(signal.x0 + (offset + segmentLength / 2) * signal.dx);
+  }
+  const frequencies = Array.from(
+    { length: bins },
+    (_, k) => (k * signal.sampleRate) / segmentLength
+  );
+  return { times, frequencies, z };
+}
+
+/** dB of an amplitude (20·log10) or a power (10·log10) value. */
+export function toDecibels(v: number, power: boolean): number {
+  return (power ? 10 : 20) * Math.log10(Math.max(v, 1e-12));
+}
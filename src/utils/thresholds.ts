@@ -0,0 +1,111 @@
+import type { SequenceData } from "./parseDataText";
+
+/**
+ * A horizontal reference limit on one series. An excursion starts when the value goes
+ * past `value` and ends once it is back by more than `hysteresis` on the other side.
+ */
+export type Threshold = {
+  id: string;
+  /** Index into `SequenceData.series` */
+  series: number;
+  kind: "upper" | "lower";
+  value: number;
+  /** Non-negative dead band, in value units; 0 = end as soon as the limit is recrossed */
+  hysteresis: number;
+};
+
+/** One excursion past a threshold, as data rows (`end` inclusive). */
+export type ThresholdEvent = {
+  thresholdId: string;
+  series: number;
+  kind: Threshold["kind"];
+  start: number;
+  end: number;
+  /** Row of the most extreme value within the excursion */
+  peakRow: number;
+  peak: number;
+};
+
+const storageKey = (fileName: string) => `thresholds:${fileName}`;
+
+/** Detect the excursions of `data` past `threshold`, in row order. Gaps (NaN) are skipped. */
+export function detectExcursions(
+  data: SequenceData,
+  threshold: Threshold
+): ThresholdEvent[] {
+  const series = data.series[threshold.series];
+  if (!series) return [];
+  const ys = series.values;
+  const upper = threshold.kind === "upper";
+  // Map both kinds onto "above the limit": lower limits work on the negated signal
+  const sign = upper ? 1 : -1;
+  const limit = sign * threshold.value;
+  const hysteresis = Math.max(0, threshold.hysteresis);
+  const ended = (v: number) => (hysteresis > 0 ? v < limit - hysteresis : v <= limit);
+
+  const events: ThresholdEvent[] = [];
+  let current: ThresholdEvent | null = null;
+  let last = -1;
+  for (let i = 0; i < ys.length; i++) {
+    const y = ys[i];
+    if (Number.isNaN(y)) continue;
+    const v = sign * y;
+    if (!current) {
+      if (v > limit) {
+        current = {
+          thresholdId: threshold.id,
+          series: threshold.series,
+          kind: threshold.kind,
+          start: i,
+          end: i,
+          peakRow: i,
+          peak: y,
+        };
+      }
+    } else if (ended(v)) {
+      current.end = last;
+      events.push(current);
+      current = null;
+    } else if (v > sign * current.peak) {
+      current.peakRow = i;
+      current.peak = y;
+    }
+    last = i;
+  }
+  if (current) {
+    current.end = last;
+    events.push(current);
+  }
+  return events;
+}
+
+/** Excursions of every threshold, sorted by start row. */
+export function detectAllExcursions(
+  data: SequenceData,
+  thresholds: readonly Threshold[]
+): ThresholdEvent[] {
+  return thresholds
+    .flatMap((t) => detectExcursions(data, t))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+/** Thresholds saved for `fileName`, or none. */
+export function loadThresholds(fileName: string): Threshold[] {
+  try {
+    const raw = localStorage.getItem(storageKey(fileName));
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? (parsed as Threshold[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveThresholds(fileName: string, thresholds: readonly Threshold[]) {
+  try {
+    if (thresholds.length === 0) localStorage.removeItem(storageKey(fileName));
+    else localStorage.setItem(storageKey(fileName), JSON.stringify(thresholds));
+  } catch (err) {
+    // Storage full or disabled: thresholds still work for this session
+    console.warn("Could not save thresholds", err);
+  }
+}
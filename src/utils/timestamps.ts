@@ -0,0 +1,273 @@
+/** Calendar fields of a timestamp as written, before any timezone is applied. */
+export type DateTimeParts = {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  /** Explicit UTC offset in minutes when the text carries one */
+  offsetMinutes?: number;
+};
+
+export type EpochUnit = "seconds" | "milliseconds";
+
+/** Browser-independent name for "no offset". */
+export const UTC = "UTC";
+
+// Epoch values between 2000-01-01 and 2100-01-01 count as plausible timestamps
+const EPOCH_MIN_S = 946_684_800;
+const EPOCH_MAX_S = 4_102_444_800;
+
+/**
+ * Unit of X when every value is a plausible Unix timestamp (years 2000-2100) in seconds or
+ * milliseconds, else `null`. Plain numbers in that range are possible too, so callers
+ * should confirm with the user rather than convert silently.
+ */
+export function detectEpochUnit(xs: Float64Array): EpochUnit | null {
+  if (xs.length === 0) return null;
+  for (const [unit, scale] of [
+    ["seconds", 1],
+    ["milliseconds", 1000],
+  ] as const) {
+    let ok = true;
+    for (const x of xs) {
+      if (!(x >= EPOCH_MIN_S * scale && x <= EPOCH_MAX_S * scale)) {
+        ok = false;
+        break;
+      }
+    }
+    if (ok) return unit;
+  }
+  return null;
+}
+
+const isLeapYear = (year: number) => year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+
+/**
+ * Whether the calendar fields name a real date and time (no February 30th or 24:00), so
+ * that out-of-range values are rejected rather than rolled over by `Date.UTC`. Second 60
+ * (a leap second) is allowed.
+ */
+export function isValidDateTimeParts(parts: DateTimeParts): boolean {
+  const { year, month, day } = parts;
+  if (month < 1 || month > 12 || day < 1) return false;
+  const days =
+    month === 2 ? (isLeapYear(year) ? 29 : 28) : [4, 6, 9, 11].includes(month) ? 30 : 31;
+  return day <= days && parts.hour <= 23 && parts.minute <= 59 && parts.second <= 60;
+}
+
+// --- Custom format patterns ---
+
+type Field = keyof DateTimeParts | "ampm" | "monthName" | "year2";
+
+// Longest tokens first so "MMM" wins over "MM" and "M"
+const TOKENS: [string, string, Field][] = [
+  ["YYYY", "(\\d{4})", "year"],
+  ["YY", "(\\d{2})", "year2"],
+  ["MMM", "([A-Za-z]{3})", "monthName"],
+  ["MM", "(\\d{2})", "month"],
+  ["M", "(\\d{1,2})", "month"],
+  ["DD", "(\\d{2})", "day"],
+  ["D", "(\\d{1,2})", "day"],
+  ["HH", "(\\d{2})", "hour"],
+  ["H", "(\\d{1,2})", "hour"],
+  ["hh", "(\\d{2})", "hour"],
+  ["h", "(\\d{1,2})", "hour"],
+  ["mm", "(\\d{2})", "minute"],
+  ["m", "(\\d{1,2})", "minute"],
+  ["ss", "(\\d{2})", "second"],
+  ["s", "(\\d{1,2})", "second"],
+  ["SSS", "(\\d{1,9})", "millisecond"],
+  ["A", "([AaPp][Mm])", "ampm"],
+  ["a", "([AaPp][Mm])", "ampm"],
+  ["Z", "(Z|[+-]\\d{2}:?\\d{2})", "offsetMinutes"],
+];
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+/** Minutes east of UTC for "Z", "+02:00" or "-0530". */
+function parseOffset(s: string): number {
+  if (s === "Z") return 0;
+  const sign = s[0] === "-" ? -1 : 1;
+  const digits = s.slice(1).replace(":", "");
+  return sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2)));
+}
+
+/**
+ * Compile a format such as `MM/DD/YYYY HH:mm:ss` into a parser returning the calendar
+ * fields, or `null` for text that does not match. Tokens: YYYY YY MMM MM M DD D HH H hh h
+ * mm m ss s SSS (fraction) A/a (AM/PM) Z (offset); text in [brackets] is literal.
+ */
+export function compileTimestampPattern(pattern: string): (s: string) => DateTimeParts | null {
+  let source = "";
+  const fields: Field[] = [];
+  let i = 0;
+  while (i < pattern.length) {
+    if (pattern[i] === "[") {
+      const end = pattern.indexOf("]", i);
+      const literal = end < 0 ? pattern.slice(i + 1) : pattern.slice(i + 1, end);
+      source += literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      i = end < 0 ? pattern.length : end + 1;
+      continue;
+    }
+    const token = TOKENS.find(([t]) => pattern.startsWith(t, i));
+    if (token) {
+      source += token[1];
+      fields.push(token[2]);
+      i += token[0].length;
+    } else {
+      source += pattern[i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      i++;
+    }
+  }
+  if (fields.length === 0) throw new Error(`Timestamp format "${pattern}" has no fields`);
+  const re = new RegExp(`^${source}$`);
+
+  return (s: string) => {
+    const m = re.exec(s);
+    if (!m) return null;
+    const parts: DateTimeParts = {
+      year: 1970,
+      month: 1,
+      day: 1,
+      hour: 0,
+      minute: 0,
+      second: 0,
+      millisecond: 0,
+    };
+    let pm: boolean | null = null;
+    for (let k = 0; k < fields.length; k++) {
+      const v = m[k + 1];
+      switch (fields[k]) {
+        case "year2":
+          // Two-digit years: 00-68 → 2000s, 69-99 → 1900s
+          parts.year = Number(v) + (Number(v) < 69 ? 2000 : 1900);
+          break;
+        case "monthName": {
+          const month = MONTH_NAMES.indexOf(v.toLowerCase());
+          if (month < 0) return null;
+          parts.month = month + 1;
+          break;
+        }
+        case "millisecond":
+          parts.millisecond = Number(`0.${v}`) * 1000;
+          break;
+        case "ampm":
+          pm = v[0] === "P" || v[0] === "p";
+          break;
+        case "offsetMinutes":
+          parts.offsetMinutes = parseOffset(v);
+          break;
+        default:
+          parts[fields[k] as "year"] = Number(v);
+      }
+    }
+    if (pm !== null) {
+      if (parts.hour < 1 || parts.hour > 12) return null;
+      parts.hour = (parts.hour % 12) + (pm ? 12 : 0);
+    }
+    return isValidDateTimeParts(parts) ? parts : null;
+  };
+}
+
+// --- Timezones (via Intl, no tz database of our own) ---
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, f);
+  }
+  return f;
+}
+
+/** True when `timeZone` is "UTC" or an IANA zone name this browser knows. */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Offset of `timeZone` from UTC at instant `utcMs`, in milliseconds. */
+export function timeZoneOffsetMs(timeZone: string, utcMs: number): number {
+  if (timeZone === UTC) return 0;
+  const p: Record<string, number> = {};
+  for (const { type, value } of zoneFormatter(timeZone).formatToParts(utcMs)) {
+    if (type !== "literal") p[type] = Number(value);
+  }
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - (utcMs - (((utcMs % 1000) + 1000) % 1000));
+}
+
+/**
+ * Converts wall-clock times in one zone to epoch ms. Offsets are cached per local hour,
+ * since zone rules change at most on the hour and `formatToParts` is slow.
+ */
+export function createZonedTimeConverter(timeZone: string): (parts: DateTimeParts) => number {
+  const offsets = new Map<number, number>();
+  const offsetFor = (localMs: number) => {
+    const hour = Math.floor(localMs / 3_600_000);
+    let offset = offsets.get(hour);
+    if (offset === undefined) {
+      // Two rounds settle the offset except in the skipped/repeated hour of a DST change
+      const guess = localMs - timeZoneOffsetMs(timeZone, localMs);
+      offset = timeZoneOffsetMs(timeZone, guess);
+      if (offsets.size > 10_000) offsets.clear();
+      offsets.set(hour, offset);
+    }
+    return offset;
+  };
+  return (parts) => {
+    const localMs = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+      parts.millisecond
+    );
+    if (parts.offsetMinutes !== undefined) return localMs - parts.offsetMinutes * 60_000;
+    return timeZone === UTC ? localMs : localMs - offsetFor(localMs);
+  };
+}
+
+/**
+ * ISO-8601 rendering of `ms` in `timeZone`: "2024-01-01T00:00:00.000Z" for UTC, otherwise
+ * local time with its offset, e.g. "2024-01-01T09:00:00.000+09:00".
+ */
+export function formatTimestamp(ms: number, timeZone = UTC): string {
+  if (timeZone === UTC) return new Date(ms).toISOString();
+  const offset = timeZoneOffsetMs(timeZone, ms);
+  const local = new Date(ms + offset).toISOString().slice(0, -1);
+  const minutes = Math.round(offset / 60_000);
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  const hh = String(Math.floor(abs / 60)).padStart(2, "0");
+  const mm = String(abs % 60).padStart(2, "0");
+  return `${local}${sign}${hh}:${mm}`;
+}
+
+/** Zone names for pickers: UTC, the browser's own zone, then every zone Intl knows. */
+export function timeZoneNames(): string[] {
+  const local = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const all = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  return [...new Set([UTC, local, ...all])];
+}
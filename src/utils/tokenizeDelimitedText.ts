@@ -0,0 +1,271 @@
+import { parseFailure } from "./parseDiagnostics";
+
+export type Delimiter = "," | "\t" | ";" | "|";
+
+export type DelimitedRecord = {
+  /** Field values; unquoted fields are trimmed, quoted fields are kept verbatim. */
+  fields: string[];
+  /** 1-based source line on which the record starts. */
+  line: number;
+};
+
+export type DelimitedTokenizer = {
+  /** Feed the next chunk of text; returns the records completed by it. */
+  push(chunk: string): DelimitedRecord[];
+  /** Flush the trailing record (if any) once the input is exhausted. */
+  finish(): DelimitedRecord[];
+};
+
+const STRONG_DELIMITERS: Delimiter[] = ["\t", ";", "|"];
+
+const describe = (d: Delimiter): string =>
+  d === "\t" ? "tab" : d === "," ? "comma" : d === ";" ? "semicolon" : "pipe";
+
+const isDigit = (ch: string | undefined): boolean =>
+  ch !== undefined && ch >= "0" && ch <= "9";
+
+/** Remove a leading UTF-8 byte order mark, if present. */
+export function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * Find the field delimiter by scanning the text outside of quotes.
+ *
+ * - Tab, semicolon and pipe are "strong" delimiters; using more than one of them throws.
+ * - Commas next to a strong delimiter are accepted only as decimal commas (digit,digit);
+ *   any other unquoted comma in such a file is reported as delimiter mixing.
+ * - Without a strong delimiter, a comma (if present) is the delimiter.
+ *
+ * When only a prefix of a large input is scanned, the tokenizer keeps enforcing the same
+ * rules for the remainder.
+ */
+export function detectDelimiter(text: string): Delimiter | null {
+  const strongSeen = new Set<Delimiter>();
+  let commaSeen = false;
+  let commasAllDecimal = true;
+
+  let inQuotes = false;
+  let lineStrong = new Set<Delimiter>();
+  let line = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+      continue;
+    }
+    if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      if (!inQuotes) lineStrong = new Set();
+      line++;
+      continue;
+    }
+    if (inQuotes) continue;
+    if (ch === ",") {
+      commaSeen = true;
+      // The last character of a streamed prefix may cut a number in half
+      if (!isDigit(text[i - 1]) || (i + 1 < text.length && !isDigit(text[i + 1])))
+        commasAllDecimal = false;
+    } else if ((STRONG_DELIMITERS as string[]).includes(ch)) {
+      const d = ch as Delimiter;
+      lineStrong.add(d);
+      strongSeen.add(d);
+      if (lineStrong.size > 1) {
+        const [a, b] = [...lineStrong];
+        throw parseFailure(
+          "mixed-delimiters",
+          `Mixed delimiters in a single line (${describe(a)} and ${describe(b)}) at line ${line}`,
+          line
+        );
+      }
+    }
+  }
+
+  if (strongSeen.size > 1) {
+    const [a, b] = [...strongSeen];
+    throw parseFailure(
+      "mixed-delimiters",
+      `Mixed delimiters across lines (some ${describe(a)}, some ${describe(b)})`
+    );
+  }
+  if (strongSeen.size === 1) {
+    const [delimiter] = [...strongSeen];
+    if (commaSeen && !commasAllDecimal) {
+      throw parseFailure(
+        "mixed-delimiters",
+        `Mixed delimiters (${describe(delimiter)} and comma outside of a number)`
+      );
+    }
+    return delimiter;
+  }
+  return commaSeen ? "," : null;
+}
+
+/**
+ * Incremental RFC 4180 style tokenizer. Chunks may split records, quotes or CRLF pairs
+ * anywhere.
+ *
+ * - Fields may be wrapped in double quotes; inside quotes, `""` is a literal quote and
+ *   delimiters / line breaks are part of the field.
+ * - CRLF, CR and LF all end a record.
+ * - Records that are empty or whitespace-only are skipped.
+ * - With `delimiter === null` every record has exactly one field.
+ * - Unquoted delimiter characters other than `delimiter` throw a mixed-delimiter error
+ *   (a comma between digits is allowed next to a strong delimiter: it is a decimal comma).
+ *   With `strict: false` (a delimiter chosen by the user) they are ordinary text.
+ */
+export function createDelimitedTokenizer(
+  delimiter: Delimiter | null,
+  { strict = true }: { strict?: boolean } = {}
+): DelimitedTokenizer {
+  let records: DelimitedRecord[] = [];
+
+  let fields: string[] = [];
+  let field = "";
+  let fieldQuoted = false;
+  let inQuotes = false;
+  // A quote seen inside a quoted field: either the first half of `""` or the closing quote
+  let quotePending = false;
+  // Previous character was CR, so an immediately following LF belongs to the same break
+  let skipLf = false;
+  // An unquoted comma next to a strong delimiter must be followed by a digit
+  let commaNeedsDigit = false;
+  let prevChar = "";
+  let line = 1;
+  let recordLine = 1;
+
+  const mixed = (ch: Delimiter): never => {
+    if (delimiter === null) {
+      throw parseFailure(
+        "column-count",
+        `Inconsistent column counts across rows (${describe(ch)} first seen at line ${line})`,
+        line
+      );
+    }
+    throw parseFailure(
+      "mixed-delimiters",
+      `Mixed delimiters (${describe(delimiter)} and ${describe(ch)}) at line ${line}`,
+      line
+    );
+  };
+
+  const endField = () => {
+    fields.push(fieldQuoted ? field : field.trim());
+    field = "";
+    fieldQuoted = false;
+  };
+  const endRecord = () => {
+    const quoted = fieldQuoted;
+    endField();
+    const blank = fields.length === 1 && fields[0] === "" && !quoted;
+    if (!blank) records.push({ fields, line: recordLine });
+    fields = [];
+  };
+
+  const step = (ch: string) => {
+    if (skipLf) {
+      skipLf = false;
+      if (ch === "\n") return;
+    }
+
+    if (commaNeedsDigit) {
+      commaNeedsDigit = false;
+      if (!isDigit(ch)) mixed(",");
+    }
+
+    if (quotePending) {
+      quotePending = false;
+      if (ch === '"') {
+        field += '"';
+        return;
+      }
+      inQuotes = false;
+    }
+
+    if (inQuotes) {
+      if (ch === '"') {
+        quotePending = true;
+      } else if (ch === "\r" || ch === "\n") {
+        field += "\n";
+        skipLf = ch === "\r";
+        line++;
+      } else {
+        field += ch;
+      }
+      return;
+    }
+
+    if (ch === '"' && !fieldQuoted && field.trim() === "") {
+      // Opening quote (leading whitespace before it is ignored)
+      field = "";
+      fieldQuoted = true;
+      inQuotes = true;
+    } else if (delimiter !== null && ch === delimiter) {
+      endField();
+    } else if (ch === "\n" || ch === "\r") {
+      skipLf = ch === "\r";
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (fieldQuoted) {
+      // Only whitespace may follow a closing quote
+      if (ch.trim() !== "") {
+        throw parseFailure(
+          "unexpected-character",
+          `Unexpected character after closing quote at line ${line}`,
+          line
+        );
+      }
+    } else {
+      if (strict && ch === ",") {
+        if (delimiter === null) mixed(",");
+        if (!isDigit(prevChar)) mixed(",");
+        commaNeedsDigit = true;
+      } else if (strict && (STRONG_DELIMITERS as string[]).includes(ch)) {
+        mixed(ch as Delimiter);
+      }
+      field += ch;
+    }
+  };
+
+  return {
+    push(chunk: string) {
+      for (let i = 0; i < chunk.length; i++) {
+        const ch = chunk[i];
+        step(ch);
+        prevChar = ch;
+      }
+      const out = records;
+      records = [];
+      return out;
+    },
+    finish() {
+      if (commaNeedsDigit) mixed(",");
+      if (quotePending) {
+        quotePending = false;
+        inQuotes = false;
+      }
+      if (inQuotes) {
+        throw parseFailure(
+          "unterminated-quote",
+          `Unterminated quoted field starting at line ${recordLine}`,
+          recordLine
+        );
+      }
+      endRecord();
+      const out = records;
+      records = [];
+      return out;
+    },
+  };
+}
+
+/** Tokenize a complete text in one go. See `createDelimitedTokenizer` for the rules. */
+export default function tokenizeDelimitedText(
+  text: string,
+  delimiter: Delimiter | null
+): DelimitedRecord[] {
+  const tokenizer = createDelimitedTokenizer(delimiter);
+  return [...tokenizer.push(text), ...tokenizer.finish()];
+}
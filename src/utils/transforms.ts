@@ -0,0 +1,312 @@
+import type { SequenceData, SequenceSeries } from "./parseDataText";
+
+export type TransformStep =
+  | { kind: "movingAverage"; window: number }
+  | { kind: "movingMedian"; window: number }
+  | { kind: "exponentialSmoothing"; alpha: number }
+  | { kind: "difference" }
+  | { kind: "derivative" }
+  | { kind: "cumulativeSum" }
+  | { kind: "integral" }
+  | { kind: "zScore" }
+  | { kind: "minMax" }
+  | { kind: "detrend" };
+
+export type TransformKind = TransformStep["kind"];
+
+/** A pipeline entry: a transform plus its identity and on/off switch in the UI. */
+export type PipelineStep = TransformStep & { id: string; enabled: boolean };
+
+export const transformLabels: Record<TransformKind, string> = {
+  movingAverage: "Moving average",
+  movingMedian: "Moving median",
+  exponentialSmoothing: "Exponential smoothing",
+  difference: "First difference",
+  derivative: "Derivative",
+  cumulativeSum: "Cumulative sum",
+  integral: "Integral",
+  zScore: "Z-score normalization",
+  minMax: "Min-max normalization",
+  detrend: "Detrend (linear)",
+};
+
+/** A step of `kind` with default parameters. */
+export function defaultTransform(kind: TransformKind): TransformStep {
+  switch (kind) {
+    case "movingAverage":
+    case "movingMedian":
+      return { kind, window: 5 };
+    case "exponentialSmoothing":
+      return { kind, alpha: 0.2 };
+    default:
+      return { kind };
+  }
+}
+
+/** Short suffix for derived series names, e.g. "MA(5)". */
+export function describeTransform(step: TransformStep): string {
+  switch (step.kind) {
+    case "movingAverage":
+      return `MA(${step.window})`;
+    case "movingMedian":
+      return `MM(${step.window})`;
+    case "exponentialSmoothing":
+      return `EMA(${step.alpha})`;
+    case "difference":
+      return "Δ";
+    case "derivative":
+      return "d/dx";
+    case "cumulativeSum":
+      return "Σ";
+    case "integral":
+      return "∫";
+    case "zScore":
+      return "z";
+    case "minMax":
+      return "norm";
+    case "detrend":
+      return "detrended";
+  }
+}
+
+// --- Per-series kernels. NaN marks a gap: windows skip it, point-wise ops propagate it. ---
+
+// Centered window [i - before, i + after] of `size` samples
+function windowBounds(size: number): [number, number] {
+  const w = Math.max(1, Math.floor(size));
+  const before = Math.floor((w - 1) / 2);
+  return [before, w - 1 - before];
+}
+
+function movingAverage(ys: Float64Array, size: number): Float64Array {
+  const [before, after] = windowBounds(size);
+  const n = ys.length;
+  const out = new Float64Array(n);
+  let sum = 0;
+  let count = 0;
+  let lo = 0; // window is [lo, hi)
+  let hi = 0;
+  for (let i = 0; i < n; i++) {
+    const wantHi = Math.min(n, i + after + 1);
+    const wantLo = Math.max(0, i - before);
+    for (; hi < wantHi; hi++) {
+      if (!Number.isNaN(ys[hi])) {
+        sum += ys[hi];
+        count++;
+      }
+    }
+    for (; lo < wantLo; lo++) {
+      if (!Number.isNaN(ys[lo])) {
+        sum -= ys[lo];
+        count--;
+      }
+    }
+    out[i] = Number.isNaN(ys[i]) || count === 0 ? NaN : sum / count;
+  }
+  return out;
+}
+
+function insertSorted(a: number[], v: number) {
+  let lo = 0;
+  let hi = a.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (a[mid] < v) lo = mid + 1;
+    else hi = mid;
+  }
+  a.splice(lo, 0, v);
+}
+
+function removeSorted(a: number[], v: number) {
+  let lo = 0;
+  let hi = a.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (a[mid] < v) lo = mid + 1;
+    else hi = mid;
+  }
+  a.splice(lo, 1);
+}
+
+function movingMedian(ys: Float64Array, size: number): Float64Array {
+  const [before, after] = windowBounds(size);
+  const n = ys.length;
+  const out = new Float64Array(n);
+  const win: number[] = [];
+  let lo = 0;
+  let hi = 0;
+  for (let i = 0; i < n; i++) {
+    const wantHi = Math.min(n, i + after + 1);
+    const wantLo = Math.max(0, i - before);
+    for (; hi < wantHi; hi++) if (!Number.isNaN(ys[hi])) insertSorted(win, ys[hi]);
+    for (; lo < wantLo; lo++) if (!Number.isNaN(ys[lo])) removeSorted(win, ys[lo]);
+    const m = win.length;
+    out[i] =
+      Number.isNaN(ys[i]) || m === 0
+        ? NaN
+        : m % 2
+          ? win[m >> 1]
+          : (win[m / 2 - 1] + win[m / 2]) / 2;
+  }
+  return out;
+}
+
+function exponentialSmoothing(ys: Float64Array, alpha: number): Float64Array {
+  const a = Math.min(1, Math.max(0, alpha));
+  const out = new Float64Array(ys.length);
+  let s = NaN;
+  for (let i = 0; i < ys.length; i++) {
+    const y = ys[i];
+    if (Number.isNaN(y)) {
+      out[i] = NaN;
+      continue;
+    }
+    s = Number.isNaN(s) ? y : a * y + (1 - a) * s;
+    out[i] = s;
+  }
+  return out;
+}
+
+function difference(ys: Float64Array, xs: Float64Array | null): Float64Array {
+  const out = new Float64Array(ys.length);
+  out[0] = NaN;
+  for (let i = 1; i < ys.length; i++) {
+    const dy = ys[i] - ys[i - 1];
+    if (!xs) {
+      out[i] = dy;
+      continue;
+    }
+    // A repeated X has no slope: a gap, not ±Infinity
+    const dx = xs[i] - xs[i - 1];
+    out[i] = dx !== 0 && Number.isFinite(dx) ? dy / dx : NaN;
+  }
+  return out;
+}
+
+function cumulative(ys: Float64Array, xs: Float64Array | null): Float64Array {
+  const out = new Float64Array(ys.length);
+  let acc = 0;
+  for (let i = 0; i < ys.length; i++) {
+    const y = ys[i];
+    if (Number.isNaN(y)) {
+      out[i] = NaN;
+      continue;
+    }
+    if (!xs) acc += y;
+    // Trapezoidal rule; intervals touching a gap add no area
+    else if (i > 0 && !Number.isNaN(ys[i - 1])) acc += ((y + ys[i - 1]) / 2) * (xs[i] - xs[i - 1]);
+    out[i] = acc;
+  }
+  return out;
+}
+
+function meanStd(ys: Float64Array): [number, number] {
+  let sum = 0;
+  let count = 0;
+  for (const y of ys) {
+    if (Number.isNaN(y)) continue;
+    sum += y;
+    count++;
+  }
+  const mean = sum / count;
+  let v = 0;
+  for (const y of ys) if (!Number.isNaN(y)) v += (y - mean) ** 2;
+  return [mean, Math.sqrt(v / count)];
+}
+
+function zScore(ys: Float64Array): Float64Array {
+  const [mean, std] = meanStd(ys);
+  return ys.map((y) => (std > 0 ? (y - mean) / std : Number.isNaN(y) ? NaN : 0));
+}
+
+function minMax(ys: Float64Array): Float64Array {
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const y of ys) {
+    if (y < lo) lo = y;
+    if (y > hi) hi = y;
+  }
+  const span = hi - lo;
+  return ys.map((y) => (span > 0 ? (y - lo) / span : Number.isNaN(y) ? NaN : 0));
+}
+
+function detrend(ys: Float64Array, xs: Float64Array): Float64Array {
+  let sx = 0;
+  let sy = 0;
+  let n = 0;
+  for (let i = 0; i < ys.length; i++) {
+    if (Number.isNaN(ys[i])) continue;
+    sx += xs[i];
+    sy += ys[i];
+    n++;
+  }
+  const mx = sx / n;
+  const my = sy / n;
+  let sxy = 0;
+  let sxx = 0;
+  for (let i = 0; i < ys.length; i++) {
+    if (Number.isNaN(ys[i])) continue;
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return ys.map((y, i) => y - (my + slope * (xs[i] - mx)));
+}
+
+/**
+ * Apply one transform to every series of `data`. X is unchanged; for date X, rates and
+ * areas (derivative, integral) are per second rather than per millisecond.
+ */
+export function applyTransform(data: SequenceData, step: TransformStep): SequenceData {
+  const xs = data.xValues;
+  // Seconds for date axes so derivatives/integrals have sensible units
+  const xUnits = data.xKind === "date" ? xs.map((x) => x / 1000) : xs;
+
+  const kernel = (ys: Float64Array): Float64Array => {
+    switch (step.kind) {
+      case "movingAverage":
+        return movingAverage(ys, step.window);
+      case "movingMedian":
+        return movingMedian(ys, step.window);
+      case "exponentialSmoothing":
+        return exponentialSmoothing(ys, step.alpha);
+      case "difference":
+        return difference(ys, null);
+      case "derivative":
+        return difference(ys, xUnits);
+      case "cumulativeSum":
+        return cumulative(ys, null);
+      case "integral":
+        return cumulative(ys, xUnits);
+      case "zScore":
+        return zScore(ys);
+      case "minMax":
+        return minMax(ys);
+      case "detrend":
+        return detrend(ys, xUnits);
+    }
+  };
+
+  const suffix = describeTransform(step);
+  const series: SequenceSeries[] = data.series.map((s) => ({
+    name: `${s.name} · ${suffix}`,
+    values: kernel(s.values),
+  }));
+
+  const missingRows: number[] = [];
+  for (let i = 0; i < xs.length; i++) {
+    if (series.some((s) => Number.isNaN(s.values[i]))) missingRows.push(i);
+  }
+
+  return { ...data, series, missingRows };
+}
+
+/** Run the enabled steps in order; `null` when no step is enabled. */
+export function applyPipeline(
+  data: SequenceData,
+  steps: readonly PipelineStep[]
+): SequenceData | null {
+  const enabled = steps.filter((s) => s.enabled);
+  if (enabled.length === 0) return null;
+  return enabled.reduce(applyTransform, data);
+}
@@ -0,0 +1,111 @@
+import {
+  binarySampleKind,
+  decodeRawSamples,
+  decodeWav,
+} from "../utils/decodeBinarySamples";
+import {
+  ParseError,
+  parseFailure,
+  type ParseDiagnostic,
+} from "../utils/parseDiagnostics";
+import {
+  createSequenceParser,
+  type ParseOptions,
+  type SequenceData,
+} from "../utils/parseDataText";
+
+export type ParseFileRequest = {
+  file: File;
+  options: ParseOptions;
+};
+
+export type ParseProgress = {
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;
+};
+
+export type ParseFileResponse =
+  | ({ type: "progress" } & ParseProgress)
+  | { type: "done"; data: SequenceData }
+  | {
+      type: "error";
+      message: string;
+      /** Present when the failure is a `ParseError`, which does not survive cloning. */
+      diagnostics?: ParseDiagnostic[];
+      totalCount?: number;
+    };
+
+// Minimum time between progress messages
+const PROGRESS_INTERVAL_MS = 100;
+
+function post(message: ParseFileResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+// WAV files and raw sample dumps are small enough to decode in one go
+async function decodeBinaryFile({ file, options }: ParseFileRequest): Promise<SequenceData> {
+  const buffer = await file.arrayBuffer();
+  if (binarySampleKind(file.name) === "wav") return decodeWav(buffer);
+  if (!options.rawFormat) {
+    throw parseFailure("invalid-option", "The sample format of the raw file is not set");
+  }
+  return decodeRawSamples(buffer, options.rawFormat);
+}
+
+/**
+ * Streams the file through the incremental parser so the main thread never holds the
+ * whole text. Cancellation is done by terminating the worker.
+ */
+async function parseTextFile({ file, options }: ParseFileRequest): Promise<SequenceData> {
+  const parser = createSequenceParser(options);
+  const decoder = new TextDecoder("utf-8");
+  const reader = file.stream().getReader();
+
+  let bytesRead = 0;
+  let lastProgress = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytesRead += value.byteLength;
+    parser.push(decoder.decode(value, { stream: true }));
+
+    const now = performance.now();
+    if (now - lastProgress >= PROGRESS_INTERVAL_MS) {
+      lastProgress = now;
+      post({ type: "progress", bytesRead, totalBytes: file.size, rows: parser.rowCount });
+    }
+  }
+  parser.push(decoder.decode());
+  return parser.finish();
+}
+
+async function parseFile(request: ParseFileRequest) {
+  const { file } = request;
+  const data = binarySampleKind(file.name)
+    ? await decodeBinaryFile(request)
+    : await parseTextFile(request);
+  post({
+    type: "progress",
+    bytesRead: file.size,
+    totalBytes: file.size,
+    rows: data.xValues.length,
+  });
+  post({ type: "done", data }, [
+    data.xValues.buffer,
+    ...data.series.map((s) => s.values.buffer),
+  ]);
+}
+
+self.onmessage = (e: MessageEvent<ParseFileRequest>) => {
+  parseFile(e.data).catch((err: unknown) => {
+    post({
+      type: "error",
+      message: err instanceof Error ? err.message : "Error parsing data",
+      ...(err instanceof ParseError
+        ? { diagnostics: err.diagnostics, totalCount: err.totalCount }
+        : {}),
+    });
+  });
+};
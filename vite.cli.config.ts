@@ -0,0 +1,23 @@
+import { readdirSync } from 'node:fs'
+import { defineConfig } from 'vite'
+
+// Bundles the command-line tools (inspector, stand-in live feed) and the parser tests for
+// Node. They are type-checked without DOM types (tsconfig.cli.json), so browser-only APIs
+// cannot creep into the parser.
+const tests = Object.fromEntries(
+  readdirSync('src/utils')
+    .filter((f) => f.endsWith('.test.ts'))
+    .map((f) => [f.replace(/\.ts$/, ''), `src/utils/${f}`]),
+)
+
+export default defineConfig({
+  build: {
+    ssr: true,
+    target: 'node20',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    rollupOptions: {
+      input: { inspect: 'cli/inspect.ts', liveFeed: 'cli/liveFeed.ts', ...tests },
+    },
+  },
+})